@@ -0,0 +1,256 @@
+import { existsSync, mkdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './atomic-file.js';
+import { withFileLockSync } from './file-lock.js';
+
+/**
+ * 数据目录路径
+ */
+const DATA_DIR = process.env.DATA_DIR || './data';
+
+/**
+ * 账号文件名
+ */
+export const ADMIN_ACCOUNTS_FILE = 'admin-accounts.json';
+
+/**
+ * 账号文件版本
+ */
+const ADMIN_ACCOUNTS_VERSION = 1;
+
+/**
+ * 用户名格式
+ */
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{1,32}$/;
+
+/**
+ * 管理平台角色：viewer 查看记忆和日志，editor 增删改记忆，owner 管理账号和 API 令牌
+ */
+export type AdminRole = 'viewer' | 'editor' | 'owner';
+
+/**
+ * 全部角色（权限从低到高）
+ */
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'editor', 'owner'];
+
+/**
+ * 管理平台账号（不含密码哈希）
+ */
+export interface AdminAccount {
+  /** 用户名 */
+  username: string;
+  /** 角色 */
+  role: AdminRole;
+  /** 创建时间 */
+  createdAt: string;
+  /** 更新时间（角色或密码变更） */
+  updatedAt: string;
+}
+
+/**
+ * 账号文件中的条目
+ */
+interface StoredAdminAccount extends AdminAccount {
+  /** 密码的加盐哈希（scrypt:{salt}:{hash}） */
+  passwordHash: string;
+}
+
+/**
+ * 账号文件结构
+ */
+interface AdminAccountsData {
+  version: number;
+  accounts: StoredAdminAccount[];
+}
+
+/**
+ * 校验角色参数
+ */
+export function parseAdminRole(value: unknown): AdminRole | undefined {
+  return ADMIN_ROLES.find(role => role === value);
+}
+
+/**
+ * 角色是否具备所需权限
+ */
+export function hasRole(role: AdminRole, required: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+/**
+ * 校验用户名格式
+ */
+export function isValidUsername(username: unknown): username is string {
+  return typeof username === 'string' && USERNAME_PATTERN.test(username);
+}
+
+/**
+ * 去掉账号文件中的密码哈希
+ */
+function toAdminAccount({ passwordHash, ...account }: StoredAdminAccount): AdminAccount {
+  return account;
+}
+
+/**
+ * 管理平台账号存储
+ * 保存在 {DATA_DIR}/admin-accounts.json，多个进程共用数据目录时，文件变化后自动重新读取，修改在文件锁内完成
+ */
+export class AdminAccountStore {
+  private accounts: Map<string, StoredAdminAccount> = new Map();
+  private dataDir: string;
+  private filePath: string;
+  private lockPath: string;
+  /** 上次读取时文件的修改时间和大小 */
+  private loadedStamp = '';
+
+  constructor(dataDir: string = DATA_DIR) {
+    this.dataDir = dataDir;
+    this.filePath = join(dataDir, ADMIN_ACCOUNTS_FILE);
+    this.lockPath = join(dataDir, 'admin-accounts.lock');
+  }
+
+  /**
+   * 账号文件被其他进程修改后重新读取
+   */
+  private refresh(): void {
+    if (!existsSync(this.filePath)) return;
+
+    const stat = statSync(this.filePath);
+    const stamp = `${stat.mtimeMs}:${stat.size}`;
+    if (stamp === this.loadedStamp) return;
+
+    const data: AdminAccountsData = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+    if (data.version > ADMIN_ACCOUNTS_VERSION) {
+      throw new Error(`账号文件 ${this.filePath} 的版本为 ${data.version}，当前程序最高支持 ${ADMIN_ACCOUNTS_VERSION}，请升级程序`);
+    }
+    this.accounts = new Map((data.accounts || []).map(account => [account.username, account]));
+    this.loadedStamp = stamp;
+  }
+
+  /**
+   * 在文件锁内重新读取、修改并保存
+   * 修改后必须至少保留一个 owner；修改或写入失败时恢复内存中的账号并抛出错误
+   */
+  private update<T>(fn: () => T): T {
+    mkdirSync(this.dataDir, { recursive: true });
+    return withFileLockSync(this.lockPath, () => {
+      this.refresh();
+      const snapshot = new Map(Array.from(this.accounts, ([username, account]) => [username, { ...account }]));
+
+      try {
+        const result = fn();
+        if (!Array.from(this.accounts.values()).some(account => account.role === 'owner')) {
+          throw new Error('至少需要保留一个 owner 账号');
+        }
+
+        const data: AdminAccountsData = {
+          version: ADMIN_ACCOUNTS_VERSION,
+          accounts: Array.from(this.accounts.values()),
+        };
+        writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+        const stat = statSync(this.filePath);
+        this.loadedStamp = `${stat.mtimeMs}:${stat.size}`;
+        return result;
+      } catch (error) {
+        this.accounts = snapshot;
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * 是否已创建账号（未创建时使用 ADMIN_PASSWORD / ADMIN_PASSWORD_HASH 登录 admin）
+   */
+  hasAccounts(): boolean {
+    this.refresh();
+    return this.accounts.size > 0;
+  }
+
+  /**
+   * 获取所有账号（按用户名排序）
+   */
+  list(): AdminAccount[] {
+    this.refresh();
+    return Array.from(this.accounts.values())
+      .map(toAdminAccount)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  /**
+   * 获取账号的角色
+   */
+  getRole(username: string): AdminRole | undefined {
+    this.refresh();
+    return this.accounts.get(username)?.role;
+  }
+
+  /**
+   * 获取账号的密码哈希
+   */
+  getPasswordHash(username: string): string | undefined {
+    this.refresh();
+    return this.accounts.get(username)?.passwordHash;
+  }
+
+  /**
+   * 创建账号
+   * @param bootstrap 账号文件尚不存在时一并写入的初始 owner（由环境变量密码转换而来），避免创建第一个账号后失去 owner
+   * @throws 用户名已存在时抛出错误
+   */
+  create(username: string, role: AdminRole, passwordHash: string, bootstrap?: { username: string; passwordHash: string }): AdminAccount {
+    const now = new Date().toISOString();
+    const account: StoredAdminAccount = { username, role, createdAt: now, updatedAt: now, passwordHash };
+
+    this.update(() => {
+      if (this.accounts.has(username)) {
+        throw new Error(`账号 ${username} 已存在`);
+      }
+      if (bootstrap && this.accounts.size === 0 && bootstrap.username !== username) {
+        this.accounts.set(bootstrap.username, { username: bootstrap.username, role: 'owner', createdAt: now, updatedAt: now, passwordHash: bootstrap.passwordHash });
+        console.error(`[AdminAccounts] 已将初始管理员 ${bootstrap.username} 保存为 owner 账号，之后 ADMIN_PASSWORD 不再生效`);
+      }
+      this.accounts.set(username, account);
+    });
+    console.error(`[AdminAccounts] 已创建账号 ${username} (${role})`);
+    return toAdminAccount(account);
+  }
+
+  /**
+   * 修改账号的角色或密码
+   * @returns 账号不存在时返回 undefined
+   * @throws 修改后没有 owner 时抛出错误
+   */
+  updateAccount(username: string, changes: { role?: AdminRole; passwordHash?: string }): AdminAccount | undefined {
+    const account = this.update(() => {
+      const existing = this.accounts.get(username);
+      if (!existing) return undefined;
+      const updated = { ...existing, updatedAt: new Date().toISOString() };
+      if (changes.role) updated.role = changes.role;
+      if (changes.passwordHash) updated.passwordHash = changes.passwordHash;
+      this.accounts.set(username, updated);
+      return updated;
+    });
+    if (account) {
+      console.error(`[AdminAccounts] 已修改账号 ${username}${changes.role ? `，角色: ${changes.role}` : ''}${changes.passwordHash ? '，已重置密码' : ''}`);
+    }
+    return account && toAdminAccount(account);
+  }
+
+  /**
+   * 删除账号
+   * @returns 账号是否存在
+   * @throws 删除最后一个 owner 时抛出错误
+   */
+  remove(username: string): boolean {
+    const removed = this.update(() => this.accounts.delete(username));
+    if (removed) {
+      console.error(`[AdminAccounts] 已删除账号 ${username}`);
+    }
+    return removed;
+  }
+}
+
+/**
+ * 全局账号存储
+ */
+export const adminAccounts = new AdminAccountStore();
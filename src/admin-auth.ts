@@ -0,0 +1,373 @@
+import http from 'http';
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { adminAccounts, type AdminRole } from './admin-accounts.js';
+
+/**
+ * 初始管理员 admin 的密码（明文，未配置 ADMIN_PASSWORD_HASH 时使用），创建账号后不再生效
+ */
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin';
+
+/**
+ * 初始管理员 admin 的密码加盐哈希（scrypt:{salt}:{hash}，由 hash-password 命令生成），配置后忽略 ADMIN_PASSWORD
+ */
+const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH || '';
+
+/**
+ * 登录会话有效期（小时）
+ */
+const ADMIN_SESSION_HOURS = parseFloat(process.env.ADMIN_SESSION_HOURS || '12');
+
+/**
+ * 同一客户端连续登录失败多少次后锁定
+ */
+const ADMIN_LOGIN_MAX_ATTEMPTS = parseInt(process.env.ADMIN_LOGIN_MAX_ATTEMPTS || '5', 10);
+
+/**
+ * 登录失败过多后的锁定时间(ms)，同时也是失败次数的统计窗口
+ */
+const ADMIN_LOGIN_LOCKOUT = parseInt(process.env.ADMIN_LOGIN_LOCKOUT || '900000', 10);
+
+/**
+ * 会话 Cookie 是否只通过 HTTPS 发送（管理平台部署在 HTTPS 反向代理之后时开启）
+ */
+const ADMIN_COOKIE_SECURE = process.env.ADMIN_COOKIE_SECURE === 'true';
+
+/**
+ * 未创建账号时的初始管理员用户名（角色为 owner）
+ */
+export const BOOTSTRAP_USERNAME = 'admin';
+
+/**
+ * 会话 Cookie 名称
+ */
+export const SESSION_COOKIE = 'admin_session';
+
+/**
+ * scrypt 派生密钥长度（字节）
+ */
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * 会话令牌签名密钥，每次启动随机生成（会话只保存在内存中，重启后需要重新登录）
+ */
+const SIGNING_KEY = randomBytes(32);
+
+/**
+ * 管理平台登录会话
+ */
+export interface AdminSession {
+  /** 会话ID */
+  id: string;
+  /** 登录用户名 */
+  username: string;
+  /** 角色（每次校验会话时按账号的当前角色更新） */
+  role: AdminRole;
+  /** 创建时间（毫秒时间戳） */
+  createdAt: number;
+  /** 过期时间（毫秒时间戳） */
+  expiresAt: number;
+}
+
+/**
+ * 登录结果
+ */
+export type LoginResult =
+  | { success: true; token: string; session: AdminSession }
+  | { success: false; message: string; retryAfterMs?: number };
+
+/** 有效会话: 会话ID -> 会话，退出登录或过期后移除 */
+const sessions: Map<string, AdminSession> = new Map();
+
+/** 登录失败记录: 客户端地址 -> 失败次数、首次失败时间和锁定截止时间 */
+const failures: Map<string, { count: number; firstAt: number; lockedUntil: number }> = new Map();
+
+/**
+ * 清理过期会话和失败记录的最短间隔(ms)
+ */
+const PRUNE_INTERVAL = Math.min(60000, ADMIN_LOGIN_LOCKOUT);
+
+/** 上次清理时间 */
+let lastPruneAt = 0;
+
+/**
+ * 生成密码的加盐哈希
+ * @returns scrypt:{salt}:{hash}（十六进制）
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * 校验密码与加盐哈希是否匹配（格式无效时视为不匹配）
+ */
+export function verifyPasswordHash(password: string, stored: string): boolean {
+  const [scheme, saltHex, hashHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+  const expected = Buffer.from(hashHex, 'hex');
+  if (expected.length === 0) {
+    return false;
+  }
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/** 用户名不存在时用于比较的哈希，使耗时与用户名存在时一致 */
+let dummyHash: string | undefined;
+
+/**
+ * 校验初始管理员密码（明文比较同样使用定长摘要，避免按字符泄露耗时）
+ */
+function verifyBootstrapPassword(password: string): boolean {
+  if (ADMIN_PASSWORD_HASH) {
+    return verifyPasswordHash(password, ADMIN_PASSWORD_HASH);
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(password), digest(ADMIN_PASSWORD));
+}
+
+/**
+ * 校验用户名和密码
+ * @returns 账号的角色，校验失败时返回 undefined
+ */
+function verifyCredentials(username: string, password: string): AdminRole | undefined {
+  if (!adminAccounts.hasAccounts()) {
+    return username === BOOTSTRAP_USERNAME && verifyBootstrapPassword(password) ? 'owner' : undefined;
+  }
+  const passwordHash = adminAccounts.getPasswordHash(username);
+  if (!passwordHash) {
+    dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    verifyPasswordHash(password, dummyHash);
+    return undefined;
+  }
+  return verifyPasswordHash(password, passwordHash) ? adminAccounts.getRole(username) : undefined;
+}
+
+/**
+ * 账号的当前角色（账号被删除后为 undefined）
+ */
+function resolveRole(username: string): AdminRole | undefined {
+  if (!adminAccounts.hasAccounts()) {
+    return username === BOOTSTRAP_USERNAME ? 'owner' : undefined;
+  }
+  return adminAccounts.getRole(username);
+}
+
+/**
+ * 初始管理员的密码哈希，创建第一个账号时写入账号文件
+ */
+export function getBootstrapPasswordHash(): string {
+  return ADMIN_PASSWORD_HASH || hashPassword(ADMIN_PASSWORD);
+}
+
+/**
+ * 检查配置，ADMIN_PASSWORD_HASH 格式无效时初始管理员无法登录
+ */
+export function checkAuthConfig(): void {
+  if (adminAccounts.hasAccounts()) {
+    if (process.env.ADMIN_PASSWORD || ADMIN_PASSWORD_HASH) {
+      console.error('[AdminAuth] 已创建管理平台账号，ADMIN_PASSWORD / ADMIN_PASSWORD_HASH 不再生效');
+    }
+  } else if (ADMIN_PASSWORD_HASH && !/^scrypt:[0-9a-f]+:[0-9a-f]+$/i.test(ADMIN_PASSWORD_HASH)) {
+    console.error('[AdminAuth] ADMIN_PASSWORD_HASH 格式无效（应为 scrypt:{salt}:{hash}，可通过 node dist/hash-password.js 生成），将无法登录');
+  } else if (!ADMIN_PASSWORD_HASH && !process.env.ADMIN_PASSWORD) {
+    console.error('[AdminAuth] 正在使用默认密码 admin，请通过 ADMIN_PASSWORD_HASH 或 ADMIN_PASSWORD 修改，或在管理平台创建账号');
+  }
+}
+
+/**
+ * 令牌签名
+ */
+function sign(value: string): string {
+  return createHmac('sha256', SIGNING_KEY).update(value).digest('base64url');
+}
+
+/**
+ * 获取客户端地址（用于登录限流）
+ */
+export function getClientId(req: http.IncomingMessage): string {
+  return req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * 客户端仍被锁定的剩余时间(ms)，未锁定时为 0
+ */
+function getLockRemaining(clientId: string, now: number): number {
+  const record = failures.get(clientId);
+  if (!record) return 0;
+  if (record.lockedUntil > now) return record.lockedUntil - now;
+  if (now - record.firstAt > ADMIN_LOGIN_LOCKOUT) {
+    failures.delete(clientId);
+  }
+  return 0;
+}
+
+/**
+ * 记录一次登录失败，达到上限时锁定
+ */
+function recordFailure(clientId: string, now: number): void {
+  const record = failures.get(clientId);
+  if (!record || now - record.firstAt > ADMIN_LOGIN_LOCKOUT) {
+    failures.set(clientId, { count: 1, firstAt: now, lockedUntil: 0 });
+    return;
+  }
+  record.count++;
+  if (record.count >= ADMIN_LOGIN_MAX_ATTEMPTS) {
+    record.lockedUntil = now + ADMIN_LOGIN_LOCKOUT;
+    console.error(`[AdminAuth] 客户端 ${clientId} 连续登录失败 ${record.count} 次，锁定 ${Math.ceil(ADMIN_LOGIN_LOCKOUT / 1000)} 秒`);
+  }
+}
+
+/**
+ * 移除已过期的会话，以及锁定和统计窗口都已结束的失败记录（按 PRUNE_INTERVAL 节流）
+ * 失败记录按客户端地址保存，不清理时来自大量不同地址的失败登录会使其无限增长
+ */
+function pruneExpired(now: number): void {
+  if (now - lastPruneAt < PRUNE_INTERVAL) return;
+  lastPruneAt = now;
+
+  for (const [id, session] of sessions) {
+    if (session.expiresAt <= now) {
+      sessions.delete(id);
+    }
+  }
+  for (const [clientId, record] of failures) {
+    if (record.lockedUntil <= now && now - record.firstAt > ADMIN_LOGIN_LOCKOUT) {
+      failures.delete(clientId);
+    }
+  }
+}
+
+/**
+ * 当前保存的会话数和记录了登录失败的客户端数（含已过期、尚未清理的记录）
+ */
+export function getAuthStats(): { sessions: number; trackedClients: number } {
+  return { sessions: sessions.size, trackedClients: failures.size };
+}
+
+/**
+ * 使用用户名和密码登录，成功时创建会话并返回签名令牌
+ * @param username 提交的用户名（未填写时为初始管理员 admin）
+ * @param password 提交的密码
+ * @param clientId 客户端地址，失败次数过多时锁定
+ */
+export function login(username: unknown, password: unknown, clientId: string): LoginResult {
+  const now = Date.now();
+  pruneExpired(now);
+  const remaining = getLockRemaining(clientId, now);
+  if (remaining > 0) {
+    return { success: false, message: `登录失败次数过多，请 ${Math.ceil(remaining / 60000)} 分钟后再试`, retryAfterMs: remaining };
+  }
+
+  const name = typeof username === 'string' && username.trim() ? username.trim() : BOOTSTRAP_USERNAME;
+  const role = typeof password === 'string' ? verifyCredentials(name, password) : undefined;
+  if (!role) {
+    recordFailure(clientId, now);
+    return { success: false, message: '用户名或密码错误' };
+  }
+
+  failures.delete(clientId);
+
+  const session: AdminSession = {
+    id: randomBytes(16).toString('hex'),
+    username: name,
+    role,
+    createdAt: now,
+    expiresAt: now + ADMIN_SESSION_HOURS * 60 * 60 * 1000,
+  };
+  sessions.set(session.id, session);
+
+  const payload = `${session.id}.${session.expiresAt}`;
+  return { success: true, token: `${payload}.${sign(payload)}`, session };
+}
+
+/**
+ * 校验令牌：签名正确、未过期、会话未注销且账号仍然存在
+ */
+function verifyToken(token: string): AdminSession | undefined {
+  const [id, expiresAt, signature] = token.split('.');
+  if (!id || !expiresAt || !signature) return undefined;
+
+  const expected = Buffer.from(sign(`${id}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return undefined;
+  }
+
+  const session = sessions.get(id);
+  const role = session && resolveRole(session.username);
+  if (!session || !role || session.expiresAt <= Date.now()) {
+    sessions.delete(id);
+    return undefined;
+  }
+  session.role = role;
+  return session;
+}
+
+/**
+ * 从请求中读取令牌：优先使用 Authorization: Bearer，其次为会话 Cookie
+ */
+function readToken(req: http.IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice(7).trim();
+  }
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 获取请求对应的有效会话
+ * @returns 未登录、令牌无效或已过期时返回 undefined
+ */
+export function authenticate(req: http.IncomingMessage): AdminSession | undefined {
+  const token = readToken(req);
+  return token ? verifyToken(token) : undefined;
+}
+
+/**
+ * 注销请求对应的会话
+ * @returns 是否存在有效会话
+ */
+export function logout(req: http.IncomingMessage): boolean {
+  const session = authenticate(req);
+  if (session) {
+    sessions.delete(session.id);
+  }
+  return !!session;
+}
+
+/**
+ * 注销账号的所有会话（重置密码或删除账号后调用）
+ * @param exceptId 保留的会话（如修改自己密码时的当前会话）
+ */
+export function revokeUserSessions(username: string, exceptId?: string): void {
+  for (const [id, session] of sessions) {
+    if (session.username === username && id !== exceptId) {
+      sessions.delete(id);
+    }
+  }
+}
+
+/**
+ * 生成设置会话 Cookie 的响应头（HttpOnly，禁止脚本读取；SameSite=Strict，禁止跨站携带）
+ */
+export function sessionCookie(token: string, expiresAt: number): string {
+  const maxAge = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${ADMIN_COOKIE_SECURE ? '; Secure' : ''}`;
+}
+
+/**
+ * 生成清除会话 Cookie 的响应头
+ */
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0${ADMIN_COOKIE_SECURE ? '; Secure' : ''}`;
+}
@@ -1,8 +1,18 @@
 import http from 'http';
 import { readFileSync, existsSync } from 'fs';
-import { memoryStore } from './memory-store.js';
-import { generateEmbedding, checkOllamaHealth, getOllamaHost, getEmbeddingModel } from './ollama-client.js';
+import { memoryStore, parseSearchMode, isBlankText } from './memory-store.js';
+import { startReindex, getReindexJob } from './reindex.js';
+import { checkEmbeddingHealth, getEmbeddingModel, getEmbeddingProvider, getEmbeddingCircuitState } from './embedding-provider.js';
 import { logCall, startTimer } from './logger.js';
+import { parseTransferFormat, parseImport, TRANSFER_FILE_TYPES } from './memory-transfer.js';
+import { getTrashRetentionDays } from './trash-purger.js';
+import { apiTokens, parseTokenScopes } from './api-tokens.js';
+import { authenticate, login, logout, getClientId, sessionCookie, clearSessionCookie, checkAuthConfig, hashPassword, revokeUserSessions, getBootstrapPasswordHash, BOOTSTRAP_USERNAME, type AdminSession } from './admin-auth.js';
+import { adminAccounts, hasRole, isValidUsername, parseAdminRole, type AdminRole } from './admin-accounts.js';
+import { recordAudit, queryAudit, summarizeMemory, type AuditEntry } from './audit-log.js';
+import { getQuotaLimits, QuotaExceededError } from './quota.js';
+import { InvalidFilterError } from './memory-filter.js';
+import { toolRateLimiter } from './rate-limiter.js';
 
 /**
  * 管理平台端口
@@ -10,14 +20,43 @@ import { logCall, startTimer } from './logger.js';
 const ADMIN_PORT = parseInt(process.env.ADMIN_PORT || '9502', 10);
 
 /**
- * 管理平台密码
+ * 日志文件路径
  */
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin';
+const LOG_PATH = process.env.LOG_PATH || './data/calls.log';
 
 /**
- * 日志文件路径
+ * 账号密码最小长度
  */
-const LOG_PATH = process.env.LOG_PATH || './data/calls.log';
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * 接口所需的角色：账号和 API 令牌管理需要 owner，其余修改操作需要 editor，查看只需 viewer
+ */
+export function getRequiredRole(method: string | undefined, pathname: string): AdminRole {
+  if (pathname.startsWith('/api/accounts') || pathname.startsWith('/api/tokens') || pathname.startsWith('/api/audit')) {
+    return 'owner';
+  }
+  return method === 'GET' ? 'viewer' : 'editor';
+}
+
+/**
+ * 写入审计日志，操作者、角色、来源地址和 User-Agent 取自会话与请求
+ */
+function audit(
+  req: http.IncomingMessage,
+  session: AdminSession | undefined,
+  action: string,
+  details: Omit<AuditEntry, 'id' | 'time' | 'actor' | 'ip' | 'action'> & { actor?: string }
+): void {
+  recordAudit({
+    actor: session?.username ?? 'anonymous',
+    role: session?.role,
+    ip: getClientId(req),
+    userAgent: req.headers['user-agent'],
+    action,
+    ...details,
+  });
+}
 
 /**
  * 解析请求体
@@ -31,6 +70,20 @@ async function parseBody(req: http.IncomingMessage): Promise<string> {
   });
 }
 
+/**
+ * 解析标签参数
+ * 支持字符串数组或逗号分隔的字符串（中英文逗号均可）
+ */
+function parseTags(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((t): t is string => typeof t === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(/[,，]/).map(t => t.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
 /**
  * 发送 JSON 响应
  */
@@ -39,6 +92,13 @@ function sendJson(res: http.ServerResponse, data: unknown, status = 200): void {
   res.end(JSON.stringify(data, null, 2));
 }
 
+/**
+ * 写入记忆失败时的状态码，超出配额返回 413
+ */
+function writeErrorStatus(err: unknown): number {
+  return err instanceof QuotaExceededError ? 413 : 500;
+}
+
 /**
  * 发送 HTML 响应
  */
@@ -173,29 +233,29 @@ function getLoginPageHtml(): string {
     <div class="login-header">
       <div class="icon">🔐</div>
       <h1>数据管理平台</h1>
-      <p>请输入密码以继续</p>
+      <p>请输入账号和密码以继续</p>
     </div>
     
     <div id="errorMsg" class="error-msg"></div>
     
     <form onsubmit="login(event)">
+      <div class="form-group">
+        <label for="username">用户名</label>
+        <input type="text" id="username" placeholder="请输入用户名" value="admin" required autocomplete="username">
+      </div>
       <div class="form-group">
         <label for="password">访问密码</label>
-        <input type="password" id="password" placeholder="请输入密码" required autofocus>
+        <input type="password" id="password" placeholder="请输入密码" required autofocus autocomplete="current-password">
       </div>
       <button type="submit" class="login-btn" id="loginBtn">登 录</button>
     </form>
   </div>
   
   <script>
-    // 检查是否已登录
-    if (sessionStorage.getItem('admin_auth') === 'true') {
-      window.location.href = '/setting/dashboard';
-    }
-    
     async function login(event) {
       event.preventDefault();
       
+      const username = document.getElementById('username').value;
       const password = document.getElementById('password').value;
       const btn = document.getElementById('loginBtn');
       const errorMsg = document.getElementById('errorMsg');
@@ -208,16 +268,15 @@ function getLoginPageHtml(): string {
         const res = await fetch('/api/auth', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ password })
+          body: JSON.stringify({ username, password })
         });
         
         const result = await res.json();
         
         if (result.success) {
-          sessionStorage.setItem('admin_auth', 'true');
           window.location.href = '/setting/dashboard';
         } else {
-          errorMsg.textContent = result.message || '密码错误';
+          errorMsg.textContent = result.message || '用户名或密码错误';
           errorMsg.classList.add('show');
           btn.disabled = false;
           btn.textContent = '登 录';
@@ -357,6 +416,42 @@ function getAdminPageHtml(): string {
       border-color: #667eea;
     }
     
+    .usage-bar {
+      display: none;
+      flex-wrap: wrap;
+      gap: 16px;
+      margin: -8px 0 20px;
+      font-size: 13px;
+      color: #666;
+    }
+    
+    .usage-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    
+    .usage-meter {
+      width: 80px;
+      height: 6px;
+      background: #e0e0e0;
+      border-radius: 3px;
+      overflow: hidden;
+    }
+    
+    .usage-meter div {
+      height: 100%;
+      background: #667eea;
+    }
+    
+    .usage-meter div.warn {
+      background: #ffa502;
+    }
+    
+    .usage-meter div.full {
+      background: #ff4757;
+    }
+    
     .btn {
       padding: 12px 24px;
       border: none;
@@ -468,6 +563,182 @@ function getAdminPageHtml(): string {
       transform: scale(1.05);
     }
     
+    .tag-chips {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-bottom: 10px;
+    }
+    
+    .tag-chip {
+      background: rgba(102, 126, 234, 0.12);
+      color: #667eea;
+      padding: 2px 10px;
+      border-radius: 12px;
+      font-size: 12px;
+      cursor: pointer;
+      border: 1px solid transparent;
+      transition: all 0.2s;
+    }
+    
+    .tag-chip:hover {
+      border-color: #667eea;
+    }
+    
+    .tag-chip.active {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+    }
+    
+    .meta-chip {
+      background: #f0f0f0;
+      color: #555;
+      padding: 2px 10px;
+      border-radius: 12px;
+      font-size: 12px;
+      font-family: monospace;
+    }
+    
+    .tag-filter-bar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      align-items: center;
+      margin-bottom: 12px;
+      font-size: 12px;
+      color: #999;
+    }
+    
+    .tag-filter-bar .tag-chips {
+      margin: 0;
+    }
+    
+    .model-badge {
+      font-family: monospace;
+      padding: 2px 8px;
+      border-radius: 4px;
+      background: rgba(46, 213, 115, 0.12);
+      color: #1ea85a;
+    }
+    
+    .model-badge.stale {
+      background: rgba(255, 165, 2, 0.15);
+      color: #d68400;
+    }
+    
+    .reindex-stats {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(140px, 1fr));
+      gap: 12px;
+      margin-bottom: 16px;
+    }
+    
+    .reindex-stat {
+      background: #f8f9fa;
+      border-radius: 8px;
+      padding: 12px;
+      font-size: 12px;
+      color: #666;
+    }
+    
+    .reindex-stat strong {
+      display: block;
+      font-size: 20px;
+      color: #333;
+    }
+    
+    .progress-bar {
+      height: 10px;
+      background: #f0f0f0;
+      border-radius: 5px;
+      overflow: hidden;
+      margin: 12px 0 8px;
+    }
+    
+    .progress-fill {
+      height: 100%;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      transition: width 0.3s;
+    }
+    
+    /* 按角色隐藏无权使用的操作（服务端同样会校验） */
+    .role-viewer .requires-editor,
+    .role-viewer .requires-owner,
+    .role-editor .requires-owner {
+      display: none !important;
+    }
+    
+    .memory-actions {
+      display: flex;
+      gap: 6px;
+    }
+    
+    .edit-btn {
+      background: #667eea;
+      color: white;
+      border: none;
+      padding: 6px 12px;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 12px;
+      transition: all 0.2s;
+    }
+    
+    .edit-btn:hover {
+      background: #5a6fd6;
+      transform: scale(1.05);
+    }
+    
+    .edit-form {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin-bottom: 12px;
+    }
+    
+    .edit-form input,
+    .edit-form textarea {
+      padding: 10px;
+      border: 2px solid #e0e0e0;
+      border-radius: 8px;
+      font-size: 14px;
+      font-family: inherit;
+    }
+    
+    .edit-form input:focus,
+    .edit-form textarea:focus {
+      outline: none;
+      border-color: #667eea;
+    }
+    
+    .edit-form textarea {
+      min-height: 80px;
+      resize: vertical;
+    }
+    
+    .history-entry {
+      border-left: 3px solid #667eea;
+      padding: 8px 12px;
+      margin-bottom: 12px;
+      background: #fafbff;
+      border-radius: 0 8px 8px 0;
+    }
+    
+    .history-entry .memory-answer {
+      margin-bottom: 6px;
+    }
+    
+    .diff-del {
+      background: #ffe0e3;
+      color: #c0392b;
+      text-decoration: line-through;
+    }
+    
+    .diff-ins {
+      background: #d8f5e1;
+      color: #1e7e34;
+    }
+    
     .add-form {
       display: flex;
       flex-direction: column;
@@ -533,6 +804,11 @@ function getAdminPageHtml(): string {
       border-color: #667eea;
     }
     
+    .log-entry.update {
+      background: rgba(255, 165, 2, 0.1);
+      border-color: #ffa502;
+    }
+    
     .log-entry.delete {
       background: rgba(255, 71, 87, 0.1);
       border-color: #ff4757;
@@ -557,7 +833,9 @@ function getAdminPageHtml(): string {
       font-size: 11px;
     }
     
-    .log-method.add_message {
+    .log-method.add_message,
+    .log-method.add_messages,
+    .log-method.import_messages {
       background: #2ed573;
       color: white;
     }
@@ -567,7 +845,15 @@ function getAdminPageHtml(): string {
       color: white;
     }
     
-    .log-method.delete_message {
+    .log-method.update_message,
+    .log-method.restore_message,
+    .log-method.revert_message {
+      background: #ffa502;
+      color: white;
+    }
+    
+    .log-method.delete_message,
+    .log-method.purge_messages {
       background: #ff4757;
       color: white;
     }
@@ -635,7 +921,17 @@ function getAdminPageHtml(): string {
       font-size: 14px;
     }
     
-    .search-test input:focus {
+    .search-test select {
+      padding: 12px;
+      border: 2px solid #e0e0e0;
+      border-radius: 8px;
+      font-size: 14px;
+      background: white;
+      cursor: pointer;
+    }
+    
+    .search-test input:focus,
+    .search-test select:focus {
       outline: none;
       border-color: #667eea;
     }
@@ -776,10 +1072,11 @@ function getAdminPageHtml(): string {
           <p>管理记忆数据、查看调用日志、测试搜索功能</p>
         </div>
         <div style="display: flex; align-items: center; gap: 12px;">
-          <div id="ollamaStatus" class="health-indicator">
+          <div id="embeddingStatus" class="health-indicator">
             <span class="health-dot"></span>
             <span>检查中...</span>
           </div>
+          <div id="currentAccount" class="health-indicator"></div>
           <button onclick="logout()" class="btn btn-secondary" style="padding: 8px 16px; font-size: 13px;">
             🚪 退出登录
           </button>
@@ -789,6 +1086,8 @@ function getAdminPageHtml(): string {
         <div class="stat-item"><strong id="totalUsers">0</strong> 用户</div>
         <div class="stat-item"><strong id="totalMemories">0</strong> 条记忆</div>
         <div class="stat-item"><strong id="ollamaModel">-</strong> 模型</div>
+        <div class="stat-item" id="pendingStat" style="display: none; background: #ff6b81;"><strong id="pendingCount">0</strong> 条等待生成向量</div>
+        <div class="stat-item" id="staleStat" style="display: none; background: #ffa502;"><strong id="staleCount">0</strong> 条待重新索引</div>
       </div>
     </div>
     
@@ -802,20 +1101,28 @@ function getAdminPageHtml(): string {
         </div>
         
         <div class="user-select">
-          <select id="userSelect" onchange="loadUserData()">
+          <select id="userSelect" onchange="loadUserData(); loadTrash()">
             <option value="">-- 选择用户 --</option>
           </select>
           <button class="btn btn-primary" onclick="refreshUsers()">刷新用户列表</button>
         </div>
+        <div class="usage-bar" id="usageBar"></div>
         
         <div class="tabs">
           <button class="tab active" onclick="switchTab('list')">记忆列表</button>
-          <button class="tab" onclick="switchTab('add')">添加记忆</button>
+          <button class="tab requires-editor" onclick="switchTab('add')">添加记忆</button>
           <button class="tab" onclick="switchTab('search')">搜索测试</button>
+          <button class="tab" onclick="switchTab('reindex'); loadReindexStatus()">索引维护</button>
+          <button class="tab" onclick="switchTab('transfer')">导入导出</button>
+          <button class="tab" onclick="switchTab('trash'); loadTrash()">回收站</button>
+          <button class="tab requires-owner" onclick="switchTab('tokens'); loadTokens()">API 令牌</button>
+          <button class="tab requires-owner" onclick="switchTab('accounts'); loadAccounts()">账号管理</button>
+          <button class="tab requires-owner" onclick="switchTab('audit'); loadAudit(false)">审计日志</button>
         </div>
         
         <!-- 记忆列表 -->
         <div id="listTab" class="tab-content active">
+          <div id="tagFilterBar" class="tag-filter-bar"></div>
           <div id="memoryList" class="memory-list">
             <div class="empty-state">
               <div class="icon">📭</div>
@@ -835,27 +1142,196 @@ function getAdminPageHtml(): string {
               <label>答案 (Answer)</label>
               <textarea id="newAnswer" placeholder="输入答案内容..." required></textarea>
             </div>
+            <div class="form-group">
+              <label>标签 (Tags，可选)</label>
+              <input type="text" id="newTags" placeholder="多个标签用逗号分隔，如: project-a, bug">
+            </div>
+            <div class="form-group">
+              <label>元数据 (Metadata，可选，JSON 对象)</label>
+              <textarea id="newMetadata" placeholder='{"source": "admin", "project": "my-repo", "language": "zh"}' style="min-height: 60px; font-family: monospace;"></textarea>
+            </div>
             <button type="submit" class="btn btn-success" id="addBtn">
               ✨ 添加记忆
             </button>
             <p style="font-size: 12px; color: #999; margin-top: 8px;">
-              提示：程序将自动生成向量嵌入，请确保 Ollama 服务正常运行
+              提示：程序将自动生成向量嵌入，请确保嵌入服务正常运行
             </p>
           </form>
+          
+          <div class="add-form" style="margin-top: 24px; padding-top: 24px; border-top: 1px solid #eee;">
+            <div class="form-group">
+              <label>批量添加 (JSON 数组，每项包含 question、answer，可选 tags、metadata)</label>
+              <textarea id="bulkItems" placeholder='[{"question": "问题1", "answer": "答案1", "tags": ["a"]}, {"question": "问题2", "answer": "答案2"}]' style="min-height: 120px; font-family: monospace;"></textarea>
+            </div>
+            <button type="button" class="btn btn-success" id="bulkBtn" onclick="addMemoriesBulk()">
+              📦 批量添加
+            </button>
+            <div id="bulkResult" style="margin-top: 12px; font-size: 13px;"></div>
+          </div>
         </div>
         
         <!-- 搜索测试 -->
         <div id="searchTab" class="tab-content">
           <div class="search-test">
             <input type="text" id="searchQuery" placeholder="输入搜索内容...">
+            <input type="text" id="searchTags" placeholder="标签过滤（可选，逗号分隔）" style="flex: 0 0 200px;">
+            <select id="searchMode" title="搜索模式">
+              <option value="hybrid">混合</option>
+              <option value="vector">向量</option>
+              <option value="keyword">关键词</option>
+            </select>
             <button class="btn btn-primary" onclick="testSearch()">🔍 搜索</button>
           </div>
           <div id="searchResults" class="search-results">
             <div class="empty-state">
               <div class="icon">🔍</div>
-              <p>输入内容进行语义搜索测试</p>
+              <p>输入内容进行搜索测试（支持向量、关键词和混合模式）</p>
+            </div>
+          </div>
+        </div>
+        
+        <!-- 索引维护 -->
+        <div id="reindexTab" class="tab-content">
+          <div class="reindex-stats" id="reindexStats"></div>
+          <div style="display: flex; gap: 12px; align-items: center; flex-wrap: wrap;">
+            <button class="btn btn-primary requires-editor" onclick="runReindex(false)">🔄 重新索引当前用户</button>
+            <button class="btn btn-secondary requires-editor" onclick="runReindex(true)">🔄 重新索引全部用户</button>
+            <label style="font-size: 13px; color: #666;">
+              <input type="checkbox" id="reindexForce"> 强制重新生成全部向量
+            </label>
+          </div>
+          <div id="reindexProgress" style="margin-top: 16px;"></div>
+          <p style="font-size: 12px; color: #999; margin-top: 8px;">
+            提示：切换 EMBEDDING_MODEL 后，旧模型生成的向量不会参与向量搜索，需重新索引后才能被语义检索到
+          </p>
+        </div>
+        
+        <!-- 导入导出 -->
+        <div id="transferTab" class="tab-content">
+          <div class="add-form">
+            <div class="form-group">
+              <label>导出当前用户的全部记忆</label>
+              <div style="display: flex; gap: 12px; align-items: center; flex-wrap: wrap;">
+                <select id="exportFormat">
+                  <option value="jsonl">JSONL</option>
+                  <option value="csv">CSV</option>
+                  <option value="markdown">Markdown</option>
+                </select>
+                <label style="font-size: 13px; color: #666;">
+                  <input type="checkbox" id="exportVectors"> 包含向量
+                </label>
+                <button type="button" class="btn btn-primary" onclick="exportMemories()">⬇️ 导出</button>
+              </div>
             </div>
           </div>
+          
+          <div class="add-form" style="margin-top: 24px; padding-top: 24px; border-top: 1px solid #eee;">
+            <div class="form-group">
+              <label>导入到当前用户（JSONL / CSV / Markdown，与导出格式相同）</label>
+              <div style="display: flex; gap: 12px; align-items: center; flex-wrap: wrap;">
+                <input type="file" id="importFile" accept=".jsonl,.json,.csv,.md,.markdown" onchange="onImportFileChange()">
+                <select id="importFormat">
+                  <option value="jsonl">JSONL</option>
+                  <option value="csv">CSV</option>
+                  <option value="markdown">Markdown</option>
+                </select>
+                <button type="button" class="btn btn-secondary requires-editor" id="importPreviewBtn" onclick="runImport(true)">👀 预览</button>
+                <button type="button" class="btn btn-success requires-editor" id="importBtn" onclick="runImport(false)" disabled>📥 确认导入</button>
+              </div>
+            </div>
+            <div id="importResult" style="margin-top: 12px; font-size: 13px;"></div>
+            <p style="font-size: 12px; color: #999; margin-top: 8px;">
+              提示：与已有记忆 ID 相同或问题和答案都相同的记录会被跳过；缺少向量或向量来自其他模型的记录会重新生成向量
+            </p>
+          </div>
+        </div>
+        
+        <!-- 回收站 -->
+        <div id="trashTab" class="tab-content">
+          <div style="display: flex; gap: 12px; align-items: center; flex-wrap: wrap; margin-bottom: 16px;">
+            <button class="btn btn-secondary" onclick="loadTrash()">🔄 刷新</button>
+            <button class="btn btn-danger requires-editor" onclick="emptyTrash()">🧹 清空回收站</button>
+            <span id="trashRetention" style="font-size: 13px; color: #999;"></span>
+          </div>
+          <div id="trashList" class="memory-list">
+            <div class="empty-state">
+              <div class="icon">🗑️</div>
+              <p>请先选择一个用户</p>
+            </div>
+          </div>
+        </div>
+        
+        <!-- API 令牌 -->
+        <div id="tokensTab" class="tab-content">
+          <form class="add-form" onsubmit="createToken(event)">
+            <div class="form-group">
+              <label>名称</label>
+              <input type="text" id="tokenName" placeholder="用途说明，如: cursor-laptop" required>
+            </div>
+            <div class="form-group">
+              <label>可访问的用户（多个用逗号分隔，默认为当前用户）</label>
+              <input type="text" id="tokenUsers" placeholder="如: alice, bob">
+            </div>
+            <div class="form-group">
+              <label>权限</label>
+              <div style="display: flex; gap: 16px; font-size: 13px; color: #666;">
+                <label><input type="checkbox" id="tokenScopeRead" checked> read 搜索和读取</label>
+                <label><input type="checkbox" id="tokenScopeWrite" checked> write 添加和修改</label>
+                <label><input type="checkbox" id="tokenScopeDelete"> delete 删除</label>
+              </div>
+            </div>
+            <button type="submit" class="btn btn-success" id="tokenBtn">🔑 创建令牌</button>
+            <div id="tokenCreated" style="margin-top: 12px; font-size: 13px;"></div>
+            <p style="font-size: 12px; color: #999; margin-top: 8px;">
+              提示：SSE 客户端通过 Authorization: Bearer &lt;令牌&gt; 或 /sse?token=&lt;令牌&gt; 连接；令牌只绑定一个用户时无需在 URL 中指定 userId
+            </p>
+          </form>
+          <div id="tokenList" class="memory-list" style="margin-top: 24px;"></div>
+        </div>
+        
+        <!-- 账号管理 -->
+        <div id="accountsTab" class="tab-content">
+          <form class="add-form" onsubmit="createAccount(event)">
+            <div class="form-group">
+              <label>用户名</label>
+              <input type="text" id="accountName" placeholder="字母、数字、_ . -，最多 32 个字符" required>
+            </div>
+            <div class="form-group">
+              <label>密码（至少 8 个字符）</label>
+              <input type="password" id="accountPassword" autocomplete="new-password" required>
+            </div>
+            <div class="form-group">
+              <label>角色</label>
+              <select id="accountRole">
+                <option value="viewer">viewer - 查看记忆和日志</option>
+                <option value="editor">editor - 添加、编辑、删除记忆</option>
+                <option value="owner">owner - 管理账号和 API 令牌</option>
+              </select>
+            </div>
+            <button type="submit" class="btn btn-success" id="accountBtn">👤 创建账号</button>
+            <p id="accountBootstrap" style="font-size: 12px; color: #999; margin-top: 8px;"></p>
+          </form>
+          <div id="accountList" class="memory-list" style="margin-top: 24px;"></div>
+        </div>
+        
+        <!-- 审计日志 -->
+        <div id="auditTab" class="tab-content">
+          <div style="display: flex; gap: 8px; align-items: center; flex-wrap: wrap; margin-bottom: 16px;">
+            <select id="auditActor" onchange="loadAudit(false)"><option value="">全部操作者</option></select>
+            <select id="auditAction" onchange="loadAudit(false)"><option value="">全部操作</option></select>
+            <input type="text" id="auditUser" placeholder="记忆用户" style="width: 120px;" onchange="loadAudit(false)">
+            <select id="auditSuccess" onchange="loadAudit(false)">
+              <option value="">全部结果</option>
+              <option value="true">成功</option>
+              <option value="false">失败</option>
+            </select>
+            <input type="datetime-local" id="auditSince" title="起始时间" onchange="loadAudit(false)">
+            <input type="datetime-local" id="auditUntil" title="截止时间" onchange="loadAudit(false)">
+            <button class="btn btn-secondary" onclick="loadAudit(false)">🔄 刷新</button>
+          </div>
+          <div id="auditSummary" style="font-size: 13px; color: #999; margin-bottom: 8px;"></div>
+          <div id="auditList" class="memory-list"></div>
+          <button class="btn btn-secondary" id="auditMore" style="display: none; margin-top: 12px;" onclick="loadAudit(true)">加载更多</button>
         </div>
       </div>
       
@@ -871,6 +1347,7 @@ function getAdminPageHtml(): string {
           <button class="btn btn-secondary" onclick="filterLogs('all')">全部</button>
           <button class="btn btn-success" style="padding: 8px 16px;" onclick="filterLogs('add')">添加</button>
           <button class="btn btn-primary" style="padding: 8px 16px;" onclick="filterLogs('search')">搜索</button>
+          <button class="btn btn-secondary" style="padding: 8px 16px;" onclick="filterLogs('update')">更新</button>
           <button class="btn btn-danger" style="padding: 8px 16px;" onclick="filterLogs('delete')">删除</button>
         </div>
         
@@ -887,28 +1364,53 @@ function getAdminPageHtml(): string {
   <script>
     let allLogs = [];
     let currentFilter = 'all';
-    
-    // 检查登录状态
-    if (sessionStorage.getItem('admin_auth') !== 'true') {
-      window.location.href = '/setting';
-    }
+    let currentMemories = [];
+    let currentModel = '';
+    let reindexTimer = null;
+    let activeTags = [];
+    
+    // 会话过期或被注销时（接口返回 401）回到登录页
+    const rawFetch = window.fetch.bind(window);
+    window.fetch = async (input, init) => {
+      const res = await rawFetch(input, init);
+      if (res.status === 401) {
+        window.location.href = '/setting';
+      }
+      return res;
+    };
     
     // 退出登录
-    function logout() {
+    async function logout() {
       if (confirm('确定要退出登录吗？')) {
-        sessionStorage.removeItem('admin_auth');
-        window.location.href = '/setting';
+        try {
+          await fetch('/api/logout', { method: 'POST' });
+        } finally {
+          window.location.href = '/setting';
+        }
       }
     }
     
     // 初始化
     document.addEventListener('DOMContentLoaded', () => {
+      loadCurrentAccount();
       refreshUsers();
       loadLogs();
-      checkOllamaStatus();
+      checkEmbeddingStatus();
       loadStats();
     });
     
+    // 显示当前账号，并按角色隐藏无权使用的操作
+    async function loadCurrentAccount() {
+      try {
+        const res = await fetch('/api/me');
+        const me = await res.json();
+        document.body.classList.add('role-' + me.role);
+        document.getElementById('currentAccount').textContent = '👤 ' + me.username + ' (' + me.role + ')';
+      } catch (e) {
+        document.getElementById('currentAccount').textContent = '';
+      }
+    }
+    
     // 显示 Toast 消息
     function showToast(message, type = 'success') {
       const toast = document.createElement('div');
@@ -927,22 +1429,28 @@ function getAdminPageHtml(): string {
       event.target.classList.add('active');
     }
     
-    // 检查 Ollama 状态
-    async function checkOllamaStatus() {
+    // 检查嵌入服务状态
+    async function checkEmbeddingStatus() {
       try {
         const res = await fetch('/api/health');
         const data = await res.json();
-        const indicator = document.getElementById('ollamaStatus');
+        const indicator = document.getElementById('embeddingStatus');
+        const providerNames = { ollama: 'Ollama', openai: 'OpenAI 兼容接口', hash: '哈希嵌入' };
+        const label = providerNames[data.provider] || data.provider;
+        indicator.title = data.host ? data.host + ' · ' + data.model : data.model;
         
-        if (data.ollama) {
+        if (data.circuit === 'open') {
+          indicator.className = 'health-indicator offline';
+          indicator.innerHTML = '<span class="health-dot"></span><span>' + escapeHtml(label) + ' 熔断中</span>';
+        } else if (data.embedding) {
           indicator.className = 'health-indicator online';
-          indicator.innerHTML = '<span class="health-dot"></span><span>Ollama 在线</span>';
+          indicator.innerHTML = '<span class="health-dot"></span><span>' + escapeHtml(label) + ' 在线</span>';
         } else {
           indicator.className = 'health-indicator offline';
-          indicator.innerHTML = '<span class="health-dot"></span><span>Ollama 离线</span>';
+          indicator.innerHTML = '<span class="health-dot"></span><span>' + escapeHtml(label) + ' 离线</span>';
         }
       } catch (e) {
-        const indicator = document.getElementById('ollamaStatus');
+        const indicator = document.getElementById('embeddingStatus');
         indicator.className = 'health-indicator offline';
         indicator.innerHTML = '<span class="health-dot"></span><span>服务异常</span>';
       }
@@ -957,6 +1465,13 @@ function getAdminPageHtml(): string {
         document.getElementById('totalUsers').textContent = data.totalUsers;
         document.getElementById('totalMemories').textContent = data.totalMemories;
         document.getElementById('ollamaModel').textContent = data.model;
+        currentModel = data.model;
+        
+        const stale = data.embeddings.mismatched + data.embeddings.missing;
+        document.getElementById('staleCount').textContent = stale;
+        document.getElementById('staleStat').style.display = stale > 0 ? '' : 'none';
+        document.getElementById('pendingCount').textContent = data.embeddings.pending;
+        document.getElementById('pendingStat').style.display = data.embeddings.pending > 0 ? '' : 'none';
       } catch (e) {
         console.error('加载统计信息失败:', e);
       }
@@ -995,43 +1510,380 @@ function getAdminPageHtml(): string {
       const userId = document.getElementById('userSelect').value;
       const container = document.getElementById('memoryList');
       
+      loadUsage();
       if (!userId) {
+        currentMemories = [];
+        document.getElementById('tagFilterBar').innerHTML = '';
         container.innerHTML = '<div class="empty-state"><div class="icon">📭</div><p>请先选择一个用户</p></div>';
         return;
       }
       
       try {
         const res = await fetch('/api/memories/' + encodeURIComponent(userId));
-        const memories = await res.json();
-        
-        if (memories.length === 0) {
-          container.innerHTML = '<div class="empty-state"><div class="icon">📭</div><p>该用户暂无记忆数据</p></div>';
-          return;
-        }
-        
-        container.innerHTML = memories.map(m => \`
-          <div class="memory-item" data-id="\${m.id}">
-            <div class="memory-question">❓ \${escapeHtml(m.question)}</div>
-            <div class="memory-answer">\${escapeHtml(m.answer)}</div>
-            <div class="memory-meta">
-              <span class="memory-id">\${m.id.substring(0, 8)}...</span>
-              <span>\${new Date(m.createdAt).toLocaleString()}</span>
-              <button class="delete-btn" onclick="deleteMemory('\${m.id}')">🗑️ 删除</button>
-            </div>
-          </div>
-        \`).join('');
-        
+        currentMemories = await res.json();
+        renderMemories();
       } catch (e) {
         showToast('加载数据失败', 'error');
       }
     }
     
-    // 删除记忆
+    // 加载配额用量和限流状态
+    async function loadUsage() {
+      const userId = document.getElementById('userSelect').value;
+      const bar = document.getElementById('usageBar');
+      if (!userId) {
+        bar.style.display = 'none';
+        return;
+      }
+      
+      try {
+        const res = await fetch('/api/usage/' + encodeURIComponent(userId));
+        const data = await res.json();
+        const items = [
+          renderUsageItem('记忆数', data.usage.memories + data.usage.trashed, data.limits.maxMemories, data.usage.trashed > 0 ? '含回收站 ' + data.usage.trashed + ' 条' : ''),
+          renderUsageItem('容量', data.usage.bytes, data.limits.maxBytes, '', formatBytes)
+        ];
+        if (data.limits.maxQuestionLength || data.limits.maxAnswerLength) {
+          items.push('<span class="usage-item">单条长度上限: 问题 ' + (data.limits.maxQuestionLength || '不限') + ' / 答案 ' + (data.limits.maxAnswerLength || '不限') + ' 字符</span>');
+        }
+        items.push('<span class="usage-item">调用频率: ' + (data.rateLimit.user
+          ? data.rateLimit.user.perMinute + ' 次/分钟（当前可用 ' + data.rateLimit.user.available + '/' + data.rateLimit.user.burst + '）'
+          : '不限') + '</span>');
+        bar.innerHTML = items.join('');
+        bar.style.display = 'flex';
+      } catch (e) {
+        bar.style.display = 'none';
+      }
+    }
+    
+    // 渲染一项配额用量
+    function renderUsageItem(label, used, limit, note, format) {
+      const text = format ? format(used) : String(used);
+      if (!limit) {
+        return '<span class="usage-item">' + label + ': ' + text + '（不限）' + (note ? ' · ' + note : '') + '</span>';
+      }
+      const ratio = Math.min(1, used / limit);
+      const level = ratio >= 1 ? 'full' : ratio >= 0.8 ? 'warn' : '';
+      return '<span class="usage-item">' + label + ': ' + text + ' / ' + (format ? format(limit) : limit)
+        + '<span class="usage-meter"><div class="' + level + '" style="width: ' + Math.round(ratio * 100) + '%"></div></span>'
+        + (note ? ' · ' + note : '') + '</span>';
+    }
+    
+    // 格式化字节数
+    function formatBytes(bytes) {
+      if (bytes < 1024) return bytes + ' B';
+      if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+      return (bytes / 1024 / 1024).toFixed(1) + ' MB';
+    }
+    
+    // 渲染标签 chips
+    function renderTagChips(tags) {
+      if (!tags || tags.length === 0) return '';
+      return '<div class="tag-chips">' + tags.map(t =>
+        \`<span class="tag-chip\${activeTags.includes(t) ? ' active' : ''}" data-tag="\${encodeURIComponent(t)}" onclick="toggleTagFilter(decodeURIComponent(this.dataset.tag))">#\${escapeHtml(t)}</span>\`
+      ).join('') + '</div>';
+    }
+    
+    // 渲染元数据
+    function renderMetadataChips(metadata) {
+      const entries = Object.entries(metadata || {});
+      if (entries.length === 0) return '';
+      return '<div class="tag-chips">' + entries.map(([k, v]) =>
+        \`<span class="meta-chip">\${escapeHtml(k)}: \${escapeHtml(String(v))}</span>\`
+      ).join('') + '</div>';
+    }
+    
+    // 解析元数据输入框（空值返回 {}，格式错误时抛出异常）
+    function parseMetadataInput(text) {
+      if (!text.trim()) return {};
+      const value = JSON.parse(text);
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('元数据必须是 JSON 对象');
+      }
+      return value;
+    }
+    
+    // 切换标签过滤（选中多个标签时需全部匹配）
+    function toggleTagFilter(tag) {
+      if (activeTags.includes(tag)) {
+        activeTags = activeTags.filter(t => t !== tag);
+      } else {
+        activeTags.push(tag);
+      }
+      renderMemories();
+    }
+    
+    // 渲染标签过滤栏
+    function renderTagFilterBar() {
+      const bar = document.getElementById('tagFilterBar');
+      const allTags = [...new Set(currentMemories.flatMap(m => m.tags || []))].sort();
+      activeTags = activeTags.filter(t => allTags.includes(t));
+      
+      if (allTags.length === 0) {
+        bar.innerHTML = '';
+        return;
+      }
+      
+      bar.innerHTML = '<span>按标签过滤:</span>' + renderTagChips(allTags);
+    }
+    
+    // 渲染记忆列表
+    function renderMemories() {
+      const container = document.getElementById('memoryList');
+      renderTagFilterBar();
+      
+      const memories = currentMemories.filter(m =>
+        activeTags.every(t => (m.tags || []).includes(t))
+      );
+      
+      if (currentMemories.length === 0) {
+        container.innerHTML = '<div class="empty-state"><div class="icon">📭</div><p>该用户暂无记忆数据</p></div>';
+        return;
+      }
+      
+      if (memories.length === 0) {
+        container.innerHTML = '<div class="empty-state"><div class="icon">🏷️</div><p>没有符合标签过滤条件的记忆</p></div>';
+        return;
+      }
+      
+      container.innerHTML = memories.map(m => \`
+          <div class="memory-item" data-id="\${m.id}">
+            <div class="memory-question">❓ \${escapeHtml(m.question)}</div>
+            <div class="memory-answer">\${escapeHtml(m.answer)}</div>
+            \${renderTagChips(m.tags)}
+            \${renderMetadataChips(m.metadata)}
+            <div class="memory-meta">
+              <span class="memory-id">\${m.id.substring(0, 8)}...</span>
+              \${m.pendingEmbedding
+                ? '<span class="model-badge stale" title="嵌入服务恢复后自动生成">等待生成向量</span>'
+                : \`<span class="model-badge\${m.embeddingModel === currentModel ? '' : ' stale'}" title="向量维度: \${m.embeddingDim || '-'}">\${escapeHtml(m.embeddingModel || '未知模型')}</span>\`}
+              <span>\${new Date(m.createdAt).toLocaleString()}</span>
+              <div class="memory-actions">
+                <button class="edit-btn requires-editor" onclick="editMemory('\${m.id}')">✏️ 编辑</button>
+                <button class="edit-btn" style="background: #999;" onclick="showHistory('\${m.id}')">🕘 历史</button>
+                <button class="delete-btn requires-editor" onclick="deleteMemory('\${m.id}')">🗑️ 删除</button>
+              </div>
+            </div>
+          </div>
+        \`).join('');
+    }
+    
+    // 进入行内编辑
+    function editMemory(id) {
+      const memory = currentMemories.find(m => m.id === id);
+      const item = document.querySelector(\`.memory-item[data-id="\${id}"]\`);
+      if (!memory || !item) return;
+      
+      item.innerHTML = \`
+        <div class="edit-form">
+          <input type="text" class="edit-question">
+          <textarea class="edit-answer"></textarea>
+          <input type="text" class="edit-tags" placeholder="标签，逗号分隔">
+          <textarea class="edit-metadata" placeholder="元数据 JSON 对象" style="min-height: 50px; font-family: monospace;"></textarea>
+        </div>
+        <div class="memory-meta">
+          <span class="memory-id">\${memory.id.substring(0, 8)}...</span>
+          <div class="memory-actions">
+            <button class="edit-btn" onclick="saveMemory('\${id}', this)">💾 保存</button>
+            <button class="delete-btn" style="background: #999;" onclick="loadUserData()">取消</button>
+          </div>
+        </div>
+      \`;
+      item.querySelector('.edit-question').value = memory.question;
+      item.querySelector('.edit-answer').value = memory.answer;
+      item.querySelector('.edit-tags').value = (memory.tags || []).join(', ');
+      const metadata = memory.metadata || {};
+      item.querySelector('.edit-metadata').value = Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : '';
+    }
+    
+    // 逐字比较两段文本，删除的部分标红、新增的部分标绿（文本过长时整体替换）
+    function diffHtml(oldText, newText) {
+      if (oldText === newText) return escapeHtml(newText);
+      const a = Array.from(oldText);
+      const b = Array.from(newText);
+      let start = 0;
+      while (start < a.length && start < b.length && a[start] === b[start]) start++;
+      let endA = a.length;
+      let endB = b.length;
+      while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+      }
+      
+      const midA = a.slice(start, endA);
+      const midB = b.slice(start, endB);
+      let parts = [];
+      if (midA.length * midB.length > 1000000) {
+        parts = [['-', midA.join('')], ['+', midB.join('')]];
+      } else {
+        // 最长公共子序列，lcs[i * (m + 1) + j] 为 midA[i:] 与 midB[j:] 的结果长度
+        const n = midA.length;
+        const m = midB.length;
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+          for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = midA[i] === midB[j]
+              ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+              : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+          }
+        }
+        const push = (op, ch) => {
+          const last = parts[parts.length - 1];
+          if (last && last[0] === op) last[1] += ch;
+          else parts.push([op, ch]);
+        };
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+          if (i < n && j < m && midA[i] === midB[j]) {
+            push('=', midA[i]);
+            i++;
+            j++;
+          } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+            push('-', midA[i]);
+            i++;
+          } else {
+            push('+', midB[j]);
+            j++;
+          }
+        }
+      }
+      
+      return escapeHtml(a.slice(0, start).join('')) + parts.map(p =>
+        p[0] === '=' ? escapeHtml(p[1])
+          : '<span class="' + (p[0] === '-' ? 'diff-del' : 'diff-ins') + '">' + escapeHtml(p[1]) + '</span>'
+      ).join('') + escapeHtml(a.slice(endA).join(''));
+    }
+    
+    // 查看修订历史：每条记录显示该次修改前后的差异
+    async function showHistory(id) {
+      const userId = document.getElementById('userSelect').value;
+      const item = document.querySelector('.memory-item[data-id="' + id + '"]');
+      if (!userId || !item) return;
+      
+      try {
+        const res = await fetch('/api/memories/' + encodeURIComponent(userId) + '/' + id + '/history');
+        const data = await res.json();
+        if (!data.success) {
+          showToast(data.message || '加载历史失败', 'error');
+          return;
+        }
+        
+        const actionNames = { update: '修改', revert: '回退' };
+        let newer = data.current;
+        const entries = data.revisions.map(r => {
+          const after = newer || r;
+          newer = r;
+          const tagsBefore = (r.tags || []).join(', ');
+          const tagsAfter = (after.tags || []).join(', ');
+          const metaBefore = JSON.stringify(r.metadata || {});
+          const metaAfter = JSON.stringify(after.metadata || {});
+          return '<div class="history-entry">' +
+            '<div class="memory-meta" style="margin-bottom: 6px;">' +
+            '<span>' + new Date(r.changedAt).toLocaleString() + '</span>' +
+            '<span>' + escapeHtml(actionNames[r.action] || r.action) + ' · ' + escapeHtml(formatActor(r.source)) + '</span>' +
+            '<div class="memory-actions">' +
+            '<button class="edit-btn requires-editor" data-id="' + id + '" data-revision="' + r.id + '" onclick="revertMemory(this.dataset.id, this.dataset.revision)">↩️ 回退到修改前</button>' +
+            '</div></div>' +
+            '<div class="memory-question">❓ ' + diffHtml(r.question, after.question) + '</div>' +
+            '<div class="memory-answer">' + diffHtml(r.answer, after.answer) + '</div>' +
+            (tagsBefore !== tagsAfter ? '<div class="memory-answer">标签: ' + diffHtml(tagsBefore, tagsAfter) + '</div>' : '') +
+            (metaBefore !== metaAfter ? '<div class="memory-answer" style="font-family: monospace;">元数据: ' + diffHtml(metaBefore, metaAfter) + '</div>' : '') +
+            '</div>';
+        }).join('');
+        
+        item.innerHTML =
+          '<div class="memory-question">🕘 修订历史（共 ' + data.revisions.length + ' 次修改）</div>' +
+          (entries || '<div class="memory-answer">这条记忆还没有被修改过</div>') +
+          '<div class="memory-meta"><span class="memory-id">' + id.substring(0, 8) + '...</span>' +
+          '<div class="memory-actions"><button class="delete-btn" style="background: #999;" onclick="loadUserData()">返回</button></div></div>';
+      } catch (e) {
+        showToast('加载历史失败', 'error');
+      }
+    }
+    
+    // 回退到某次修改之前的内容
+    async function revertMemory(id, revisionId) {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) return;
+      if (!confirm('确定要回退到这次修改之前的内容吗？当前内容会保存到历史中')) return;
+      
+      try {
+        const res = await fetch('/api/memories/' + encodeURIComponent(userId) + '/' + id + '/revert', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ revisionId })
+        });
+        const result = await res.json();
+        if (result.success) {
+          showToast(result.message);
+          await loadUserData();
+          showHistory(id);
+          loadLogs();
+        } else {
+          showToast(result.message || '回退失败', 'error');
+        }
+      } catch (e) {
+        showToast('回退失败', 'error');
+      }
+    }
+    
+    // 保存行内编辑
+    async function saveMemory(id, btn) {
+      const userId = document.getElementById('userSelect').value;
+      const item = document.querySelector(\`.memory-item[data-id="\${id}"]\`);
+      if (!userId || !item) return;
+      
+      const question = item.querySelector('.edit-question').value.trim();
+      const answer = item.querySelector('.edit-answer').value.trim();
+      const tags = item.querySelector('.edit-tags').value;
+      
+      if (!question || !answer) {
+        showToast('请填写完整信息', 'error');
+        return;
+      }
+      
+      let metadata;
+      try {
+        metadata = parseMetadataInput(item.querySelector('.edit-metadata').value);
+      } catch (e) {
+        showToast('元数据格式错误: ' + e.message, 'error');
+        return;
+      }
+      
+      btn.disabled = true;
+      btn.innerHTML = '保存中... <span class="loading"></span>';
+      
+      try {
+        const res = await fetch('/api/memories/' + encodeURIComponent(userId) + '/' + id, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ question, answer, tags, metadata })
+        });
+        const result = await res.json();
+        
+        if (result.success) {
+          showToast('更新成功');
+          loadUserData();
+          loadLogs();
+        } else {
+          showToast(result.message || '更新失败', 'error');
+          btn.disabled = false;
+          btn.innerHTML = '💾 保存';
+        }
+      } catch (e) {
+        showToast('更新失败: ' + e.message, 'error');
+        btn.disabled = false;
+        btn.innerHTML = '💾 保存';
+      }
+    }
+    
+    // 删除记忆
     async function deleteMemory(id) {
       const userId = document.getElementById('userSelect').value;
       if (!userId) return;
       
-      if (!confirm('确定要删除这条记忆吗？')) return;
+      if (!confirm('确定要删除这条记忆吗？删除后可在回收站中恢复')) return;
       
       try {
         const res = await fetch('/api/memories/' + encodeURIComponent(userId) + '/' + id, {
@@ -1040,9 +1892,104 @@ function getAdminPageHtml(): string {
         const result = await res.json();
         
         if (result.success) {
-          showToast('删除成功');
+          showToast('已移入回收站');
+          loadUserData();
+          loadStats();
+        } else {
+          showToast(result.message || '删除失败', 'error');
+        }
+      } catch (e) {
+        showToast('删除失败', 'error');
+      }
+    }
+    
+    // 删除者显示名称
+    function formatActor(actor) {
+      if (actor === 'admin') return '管理平台';
+      if (actor && actor.indexOf('admin:') === 0) return '管理平台 ' + actor.substring(6);
+      if (actor === 'mcp:stdio') return 'MCP (STDIO)';
+      if (actor && actor.indexOf('mcp:sse:') === 0) return 'MCP 会话 ' + actor.substring(8);
+      return actor || '未知';
+    }
+    
+    // 加载回收站
+    async function loadTrash() {
+      const userId = document.getElementById('userSelect').value;
+      const container = document.getElementById('trashList');
+      
+      if (!userId) {
+        document.getElementById('trashRetention').textContent = '';
+        container.innerHTML = '<div class="empty-state"><div class="icon">🗑️</div><p>请先选择一个用户</p></div>';
+        return;
+      }
+      
+      try {
+        const res = await fetch('/api/trash/' + encodeURIComponent(userId));
+        const data = await res.json();
+        document.getElementById('trashRetention').textContent = data.retentionDays > 0
+          ? '删除超过 ' + data.retentionDays + ' 天的记忆会被自动彻底删除'
+          : '回收站中的记忆永久保留';
+        
+        if (data.items.length === 0) {
+          container.innerHTML = '<div class="empty-state"><div class="icon">🗑️</div><p>回收站是空的</p></div>';
+          return;
+        }
+        
+        container.innerHTML = data.items.map(m =>
+          '<div class="memory-item">' +
+          '<div class="memory-question">❓ ' + escapeHtml(m.question) + '</div>' +
+          '<div class="memory-answer">' + escapeHtml(m.answer) + '</div>' +
+          renderTagChips(m.tags) +
+          '<div class="memory-meta">' +
+          '<span class="memory-id">' + m.id.substring(0, 8) + '...</span>' +
+          '<span>删除于 ' + new Date(m.deletedAt).toLocaleString() + '</span>' +
+          '<span>' + escapeHtml(formatActor(m.deletedBy)) + '</span>' +
+          '<div class="memory-actions">' +
+          '<button class="edit-btn requires-editor" data-id="' + m.id + '" onclick="restoreMemory(this.dataset.id)">♻️ 恢复</button>' +
+          '<button class="delete-btn requires-editor" data-id="' + m.id + '" onclick="purgeMemory(this.dataset.id)">❌ 彻底删除</button>' +
+          '</div></div></div>'
+        ).join('');
+      } catch (e) {
+        showToast('加载回收站失败', 'error');
+      }
+    }
+    
+    // 从回收站恢复记忆
+    async function restoreMemory(id) {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) return;
+      
+      try {
+        const res = await fetch('/api/trash/' + encodeURIComponent(userId) + '/' + id + '/restore', { method: 'POST' });
+        const result = await res.json();
+        if (result.success) {
+          showToast('已恢复');
+          loadTrash();
           loadUserData();
           loadStats();
+          loadLogs();
+        } else {
+          showToast(result.message || '恢复失败', 'error');
+        }
+      } catch (e) {
+        showToast('恢复失败', 'error');
+      }
+    }
+    
+    // 彻底删除回收站中的一条记忆
+    async function purgeMemory(id) {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) return;
+      if (!confirm('彻底删除后无法恢复，确定吗？')) return;
+      
+      try {
+        const res = await fetch('/api/trash/' + encodeURIComponent(userId) + '/' + id, { method: 'DELETE' });
+        const result = await res.json();
+        if (result.success) {
+          showToast(result.message);
+          loadTrash();
+          loadUsage();
+          loadLogs();
         } else {
           showToast(result.message || '删除失败', 'error');
         }
@@ -1051,6 +1998,272 @@ function getAdminPageHtml(): string {
       }
     }
     
+    // 清空回收站
+    async function emptyTrash() {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) {
+        showToast('请先选择用户', 'error');
+        return;
+      }
+      if (!confirm('确定要清空 ' + userId + ' 的回收站吗？彻底删除后无法恢复')) return;
+      
+      try {
+        const res = await fetch('/api/trash/' + encodeURIComponent(userId), { method: 'DELETE' });
+        const result = await res.json();
+        showToast(result.message, result.success ? 'success' : 'error');
+        loadTrash();
+        loadUsage();
+        loadLogs();
+      } catch (e) {
+        showToast('清空失败', 'error');
+      }
+    }
+    
+    // 加载 API 令牌列表
+    async function loadTokens() {
+      const container = document.getElementById('tokenList');
+      if (!document.getElementById('tokenUsers').value) {
+        document.getElementById('tokenUsers').value = document.getElementById('userSelect').value;
+      }
+      
+      try {
+        const res = await fetch('/api/tokens');
+        const tokens = await res.json();
+        
+        if (tokens.length === 0) {
+          container.innerHTML = '<div class="empty-state"><div class="icon">🔑</div><p>还没有 API 令牌</p></div>';
+          return;
+        }
+        
+        container.innerHTML = tokens.map(t =>
+          '<div class="memory-item"' + (t.revokedAt ? ' style="opacity: 0.5;"' : '') + '>' +
+          '<div class="memory-question">🔑 ' + escapeHtml(t.name) + ' <span class="memory-id">' + escapeHtml(t.prefix) + '...</span></div>' +
+          '<div class="memory-answer">用户: ' + t.userIds.map(escapeHtml).join(', ') + '<br>权限: ' + t.scopes.join(', ') + '</div>' +
+          '<div class="memory-meta">' +
+          '<span>创建于 ' + new Date(t.createdAt).toLocaleString() + '</span>' +
+          '<span>' + (t.lastUsedAt ? '最近使用 ' + new Date(t.lastUsedAt).toLocaleString() : '从未使用') + '</span>' +
+          (t.revokedAt
+            ? '<span>已撤销于 ' + new Date(t.revokedAt).toLocaleString() + '</span>'
+            : '<div class="memory-actions"><button class="delete-btn" data-id="' + t.id + '" onclick="revokeToken(this.dataset.id)">🚫 撤销</button></div>') +
+          '</div></div>'
+        ).join('');
+      } catch (e) {
+        showToast('加载令牌失败', 'error');
+      }
+    }
+    
+    // 创建 API 令牌
+    async function createToken(event) {
+      event.preventDefault();
+      
+      const userIds = document.getElementById('tokenUsers').value.split(/[,，]/).map(u => u.trim()).filter(Boolean);
+      const scopes = [];
+      if (document.getElementById('tokenScopeRead').checked) scopes.push('read');
+      if (document.getElementById('tokenScopeWrite').checked) scopes.push('write');
+      if (document.getElementById('tokenScopeDelete').checked) scopes.push('delete');
+      if (userIds.length === 0 || scopes.length === 0) {
+        showToast('请填写用户并至少选择一项权限', 'error');
+        return;
+      }
+      
+      const btn = document.getElementById('tokenBtn');
+      btn.disabled = true;
+      try {
+        const res = await fetch('/api/tokens', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: document.getElementById('tokenName').value, userIds, scopes })
+        });
+        const result = await res.json();
+        if (result.success) {
+          document.getElementById('tokenCreated').innerHTML =
+            '<div style="color: #155724;">' + escapeHtml(result.message) + '</div>' +
+            '<input type="text" readonly value="' + escapeHtml(result.token) + '" onclick="this.select()" style="width: 100%; font-family: monospace; margin-top: 6px;">';
+          document.getElementById('tokenName').value = '';
+          loadTokens();
+        } else {
+          showToast(result.message || '创建失败', 'error');
+        }
+      } catch (e) {
+        showToast('创建失败', 'error');
+      } finally {
+        btn.disabled = false;
+      }
+    }
+    
+    // 撤销 API 令牌
+    async function revokeToken(id) {
+      if (!confirm('撤销后使用该令牌的客户端将立即无法访问，确定吗？')) return;
+      
+      try {
+        const res = await fetch('/api/tokens/' + encodeURIComponent(id), { method: 'DELETE' });
+        const result = await res.json();
+        showToast(result.message, result.success ? 'success' : 'error');
+        loadTokens();
+      } catch (e) {
+        showToast('撤销失败', 'error');
+      }
+    }
+    
+    // 加载账号列表
+    async function loadAccounts() {
+      const container = document.getElementById('accountList');
+      
+      try {
+        const res = await fetch('/api/accounts');
+        const accounts = await res.json();
+        const bootstrap = accounts.length === 1 && accounts[0].bootstrap;
+        document.getElementById('accountBootstrap').textContent = bootstrap
+          ? '尚未创建账号，当前使用 ADMIN_PASSWORD 登录的 admin；创建第一个账号时 admin 会以当前密码保存为 owner 账号，之后环境变量中的密码不再生效'
+          : '';
+        
+        container.innerHTML = accounts.map(a =>
+          '<div class="memory-item">' +
+          '<div class="memory-question">👤 ' + escapeHtml(a.username) + ' <span class="memory-id">' + a.role + '</span></div>' +
+          '<div class="memory-meta">' +
+          (a.bootstrap
+            ? '<span>初始管理员（环境变量密码）</span>'
+            : '<span>创建于 ' + new Date(a.createdAt).toLocaleString() + '</span>' +
+              '<span>更新于 ' + new Date(a.updatedAt).toLocaleString() + '</span>' +
+              '<div class="memory-actions">' +
+              '<select data-id="' + escapeHtml(a.username) + '" onchange="changeAccountRole(this.dataset.id, this.value)">' +
+              ['viewer', 'editor', 'owner'].map(r => '<option value="' + r + '"' + (r === a.role ? ' selected' : '') + '>' + r + '</option>').join('') +
+              '</select>' +
+              '<button class="edit-btn" data-id="' + escapeHtml(a.username) + '" onclick="resetAccountPassword(this.dataset.id)">🔑 重置密码</button>' +
+              '<button class="delete-btn" data-id="' + escapeHtml(a.username) + '" onclick="deleteAccount(this.dataset.id)">🗑️ 删除</button>' +
+              '</div>') +
+          '</div></div>'
+        ).join('');
+      } catch (e) {
+        showToast('加载账号失败', 'error');
+      }
+    }
+    
+    // 创建账号
+    async function createAccount(event) {
+      event.preventDefault();
+      
+      const btn = document.getElementById('accountBtn');
+      btn.disabled = true;
+      try {
+        const res = await fetch('/api/accounts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            username: document.getElementById('accountName').value.trim(),
+            password: document.getElementById('accountPassword').value,
+            role: document.getElementById('accountRole').value
+          })
+        });
+        const result = await res.json();
+        showToast(result.message, result.success ? 'success' : 'error');
+        if (result.success) {
+          document.getElementById('accountName').value = '';
+          document.getElementById('accountPassword').value = '';
+          loadAccounts();
+        }
+      } catch (e) {
+        showToast('创建失败', 'error');
+      } finally {
+        btn.disabled = false;
+      }
+    }
+    
+    // 修改账号或删除账号
+    async function sendAccountRequest(username, method, body) {
+      try {
+        const res = await fetch('/api/accounts/' + encodeURIComponent(username), {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: body ? JSON.stringify(body) : undefined
+        });
+        const result = await res.json();
+        showToast(result.message, result.success ? 'success' : 'error');
+      } catch (e) {
+        showToast('操作失败', 'error');
+      }
+      loadAccounts();
+    }
+    
+    // 修改账号角色
+    function changeAccountRole(username, role) {
+      sendAccountRequest(username, 'PUT', { role });
+    }
+    
+    // 重置账号密码（该账号的其他会话随之失效）
+    function resetAccountPassword(username) {
+      const password = prompt('请输入 ' + username + ' 的新密码（至少 8 个字符）');
+      if (password) {
+        sendAccountRequest(username, 'PUT', { password });
+      }
+    }
+    
+    // 删除账号
+    function deleteAccount(username) {
+      if (confirm('确定要删除账号 ' + username + ' 吗？该账号的登录会话将立即失效')) {
+        sendAccountRequest(username, 'DELETE');
+      }
+    }
+    
+    // 审计日志已加载的条数
+    let auditOffset = 0;
+    
+    // 更新筛选下拉框的选项，保留当前选择
+    function fillAuditOptions(id, values, allLabel) {
+      const select = document.getElementById(id);
+      const current = select.value;
+      select.innerHTML = '<option value="">' + allLabel + '</option>' +
+        values.map(v => '<option value="' + escapeAttr(v) + '"' + (v === current ? ' selected' : '') + '>' + escapeHtml(v) + '</option>').join('');
+    }
+    
+    // 加载审计日志（append 为 true 时加载下一页）
+    async function loadAudit(append) {
+      if (!append) auditOffset = 0;
+      const params = new URLSearchParams({ offset: String(auditOffset), limit: '50' });
+      [['actor', 'auditActor'], ['action', 'auditAction'], ['userId', 'auditUser'], ['success', 'auditSuccess']].forEach(pair => {
+        const value = document.getElementById(pair[1]).value.trim();
+        if (value) params.set(pair[0], value);
+      });
+      [['since', 'auditSince'], ['until', 'auditUntil']].forEach(pair => {
+        const value = document.getElementById(pair[1]).value;
+        if (value) params.set(pair[0], new Date(value).toISOString());
+      });
+      
+      try {
+        const res = await fetch('/api/audit?' + params.toString());
+        const data = await res.json();
+        fillAuditOptions('auditActor', data.actors, '全部操作者');
+        fillAuditOptions('auditAction', data.actions, '全部操作');
+        
+        const html = data.items.map(e =>
+          '<div class="memory-item">' +
+          '<div class="memory-question">' + (e.success ? '✅ ' : '❌ ') + escapeHtml(e.action) +
+          (e.userId ? ' · ' + escapeHtml(e.userId) : '') + (e.target ? ' <span class="memory-id">' + escapeHtml(e.target) + '</span>' : '') + '</div>' +
+          (e.message ? '<div class="memory-answer">' + escapeHtml(e.message) + '</div>' : '') +
+          (e.before !== undefined ? '<div class="memory-answer"><strong>操作前:</strong> <code>' + escapeHtml(JSON.stringify(e.before)) + '</code></div>' : '') +
+          (e.after !== undefined ? '<div class="memory-answer"><strong>操作后:</strong> <code>' + escapeHtml(JSON.stringify(e.after)) + '</code></div>' : '') +
+          '<div class="memory-meta">' +
+          '<span>' + new Date(e.time).toLocaleString() + '</span>' +
+          '<span>👤 ' + escapeHtml(e.actor) + (e.role ? ' (' + e.role + ')' : '') + '</span>' +
+          '<span>' + escapeHtml(e.ip) + '</span>' +
+          '<span title="' + escapeAttr(e.userAgent || '') + '">' + escapeHtml((e.userAgent || '').substring(0, 40)) + '</span>' +
+          '</div></div>'
+        ).join('');
+        
+        const container = document.getElementById('auditList');
+        if (append) {
+          container.insertAdjacentHTML('beforeend', html);
+        } else {
+          container.innerHTML = html || '<div class="empty-state"><div class="icon">📜</div><p>没有符合条件的审计记录</p></div>';
+        }
+        auditOffset += data.items.length;
+        document.getElementById('auditSummary').textContent = '共 ' + data.total + ' 条，已显示 ' + auditOffset + ' 条';
+        document.getElementById('auditMore').style.display = auditOffset < data.total ? '' : 'none';
+      } catch (e) {
+        showToast('加载审计日志失败', 'error');
+      }
+    }
+    
     // 添加记忆
     async function addMemory(event) {
       event.preventDefault();
@@ -1063,12 +2276,21 @@ function getAdminPageHtml(): string {
       
       const question = document.getElementById('newQuestion').value.trim();
       const answer = document.getElementById('newAnswer').value.trim();
+      const tags = document.getElementById('newTags').value;
       
       if (!question || !answer) {
         showToast('请填写完整信息', 'error');
         return;
       }
       
+      let metadata;
+      try {
+        metadata = parseMetadataInput(document.getElementById('newMetadata').value);
+      } catch (e) {
+        showToast('元数据格式错误: ' + e.message, 'error');
+        return;
+      }
+      
       const btn = document.getElementById('addBtn');
       btn.disabled = true;
       btn.innerHTML = '处理中... <span class="loading"></span>';
@@ -1077,15 +2299,17 @@ function getAdminPageHtml(): string {
         const res = await fetch('/api/memories/' + encodeURIComponent(userId), {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ question, answer })
+          body: JSON.stringify({ question, answer, tags, metadata })
         });
         
         const result = await res.json();
         
         if (result.success) {
-          showToast('添加成功');
+          showToast(result.message || '添加成功');
           document.getElementById('newQuestion').value = '';
           document.getElementById('newAnswer').value = '';
+          document.getElementById('newTags').value = '';
+          document.getElementById('newMetadata').value = '';
           loadUserData();
           loadStats();
           loadLogs();
@@ -1100,46 +2324,283 @@ function getAdminPageHtml(): string {
       }
     }
     
-    // 搜索测试
-    async function testSearch() {
+    // 导出记忆（浏览器直接下载）
+    function exportMemories() {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) {
+        showToast('请先选择用户', 'error');
+        return;
+      }
+      const format = document.getElementById('exportFormat').value;
+      const vectors = document.getElementById('exportVectors').checked;
+      window.location.href = '/api/memories/' + encodeURIComponent(userId) + '/export?format=' + format + '&vectors=' + vectors;
+    }
+    
+    // 根据文件扩展名选择导入格式，重新选择文件后需要重新预览
+    function onImportFileChange() {
+      const file = document.getElementById('importFile').files[0];
+      document.getElementById('importBtn').disabled = true;
+      document.getElementById('importResult').innerHTML = '';
+      if (!file) return;
+      const name = file.name.toLowerCase();
+      if (name.endsWith('.csv')) document.getElementById('importFormat').value = 'csv';
+      else if (name.endsWith('.md') || name.endsWith('.markdown')) document.getElementById('importFormat').value = 'markdown';
+      else document.getElementById('importFormat').value = 'jsonl';
+    }
+    
+    // 预览或执行导入
+    async function runImport(dryRun) {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) {
+        showToast('请先选择用户', 'error');
+        return;
+      }
+      const file = document.getElementById('importFile').files[0];
+      if (!file) {
+        showToast('请选择要导入的文件', 'error');
+        return;
+      }
+      
+      const btn = document.getElementById(dryRun ? 'importPreviewBtn' : 'importBtn');
+      const label = btn.innerHTML;
+      btn.disabled = true;
+      btn.innerHTML = '处理中... <span class="loading"></span>';
+      
+      try {
+        const res = await fetch('/api/memories/' + encodeURIComponent(userId) + '/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format: document.getElementById('importFormat').value, content: await file.text(), dryRun })
+        });
+        const result = await res.json();
+        if (!result.success) {
+          showToast(result.message || '导入失败', 'error');
+          return;
+        }
+        
+        const actionNames = { create: '新增', duplicate: '重复', invalid: '无效' };
+        const actionColors = { create: '#2ed573', duplicate: '#999', invalid: '#ff4757' };
+        const rows = result.items.slice(0, 100).map(item =>
+          '<div style="padding: 4px 0; border-bottom: 1px solid #f0f0f0;">' +
+          '<span style="color: ' + actionColors[item.action] + '; font-weight: bold;">[' + actionNames[item.action] + ']</span> ' +
+          '第 ' + (item.index + 1) + ' 条 ' + escapeHtml(item.question || '') +
+          (item.reembed ? ' <span style="color: #ffa502;">(重新生成向量)</span>' : '') +
+          (item.pendingEmbedding ? ' <span style="color: #ffa502;">(等待生成向量)</span>' : '') +
+          (item.reason ? ' <span style="color: #999;">- ' + escapeHtml(item.reason) + '</span>' : '') +
+          '</div>'
+        ).join('');
+        document.getElementById('importResult').innerHTML =
+          '<div style="color: #333; margin-bottom: 8px;">' + escapeHtml(result.message) + '</div>' + rows +
+          (result.items.length > 100 ? '<div style="color: #999;">仅显示前 100 条</div>' : '');
+        
+        if (dryRun) {
+          document.getElementById('importBtn').disabled = result.created === 0;
+        } else {
+          showToast(result.message);
+          document.getElementById('importFile').value = '';
+          loadUserData();
+          loadStats();
+          loadLogs();
+        }
+      } catch (e) {
+        showToast('导入失败: ' + e.message, 'error');
+      } finally {
+        btn.innerHTML = label;
+        if (dryRun) btn.disabled = false;
+      }
+    }
+    
+    // 批量添加记忆
+    async function addMemoriesBulk() {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) {
+        showToast('请先选择用户', 'error');
+        return;
+      }
+      
+      let items;
+      try {
+        items = JSON.parse(document.getElementById('bulkItems').value);
+        if (!Array.isArray(items)) throw new Error('需要 JSON 数组');
+      } catch (e) {
+        showToast('批量数据格式错误: ' + e.message, 'error');
+        return;
+      }
+      
+      const btn = document.getElementById('bulkBtn');
+      btn.disabled = true;
+      btn.innerHTML = '处理中... <span class="loading"></span>';
+      
+      try {
+        const res = await fetch('/api/memories/' + encodeURIComponent(userId) + '/bulk', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items })
+        });
+        const result = await res.json();
+        
+        const failures = (result.results || []).filter(r => !r.success);
+        document.getElementById('bulkResult').innerHTML = 
+          '<div style="color: #333;">' + escapeHtml(result.message || '') + '</div>' +
+          failures.map(r => '<div style="color: #ff4757;">第 ' + (r.index + 1) + ' 条: ' + escapeHtml(r.error) + '</div>').join('');
+        
+        if (result.success) {
+          showToast(result.message);
+          if (failures.length === 0) {
+            document.getElementById('bulkItems').value = '';
+          }
+          loadUserData();
+          loadStats();
+          loadLogs();
+        } else {
+          showToast(result.message || '批量添加失败', 'error');
+        }
+      } catch (e) {
+        showToast('批量添加失败: ' + e.message, 'error');
+      } finally {
+        btn.disabled = false;
+        btn.innerHTML = '📦 批量添加';
+      }
+    }
+    
+    // 搜索测试
+    async function testSearch() {
+      const userId = document.getElementById('userSelect').value;
+      if (!userId) {
+        showToast('请先选择用户', 'error');
+        return;
+      }
+      
+      const query = document.getElementById('searchQuery').value.trim();
+      if (!query) {
+        showToast('请输入搜索内容', 'error');
+        return;
+      }
+      
+      const container = document.getElementById('searchResults');
+      container.innerHTML = '<div class="empty-state"><div class="loading" style="width: 40px; height: 40px; border-width: 4px;"></div><p style="margin-top: 16px;">搜索中...</p></div>';
+      
+      try {
+        const tags = document.getElementById('searchTags').value.trim();
+        const mode = document.getElementById('searchMode').value;
+        let searchUrl = '/api/search/' + encodeURIComponent(userId) + '?q=' + encodeURIComponent(query) + '&mode=' + mode;
+        if (tags) searchUrl += '&tags=' + encodeURIComponent(tags);
+        const res = await fetch(searchUrl);
+        const results = await res.json();
+        
+        if (results.length === 0) {
+          container.innerHTML = '<div class="empty-state"><div class="icon">🔍</div><p>未找到相关结果</p></div>';
+          return;
+        }
+        
+        container.innerHTML = results.map(r => \`
+          <div class="search-result-item">
+            <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;">
+              <span class="memory-question" style="margin: 0;">❓ \${escapeHtml(r.question)}</span>
+              <span class="score-badge">\${mode === 'vector' ? '相似度' : '相关度'}: \${(r.score * 100).toFixed(1)}%</span>
+            </div>
+            \${mode === 'hybrid' ? \`<div style="font-size: 12px; color: #999; margin-bottom: 8px;">
+              向量: \${r.vectorScore !== undefined ? (r.vectorScore * 100).toFixed(1) + '%' : '-'} ·
+              关键词: \${r.keywordScore !== undefined ? r.keywordScore.toFixed(2) : '-'}
+            </div>\` : ''}
+            <div class="memory-answer">\${escapeHtml(r.answer)}</div>
+            \${renderTagChips(r.tags)}
+            \${renderMetadataChips(r.metadata)}
+          </div>
+        \`).join('');
+        
+        loadLogs();
+      } catch (e) {
+        showToast('搜索失败', 'error');
+        container.innerHTML = '<div class="empty-state"><div class="icon">❌</div><p>搜索失败</p></div>';
+      }
+    }
+    
+    // 加载重新索引状态
+    async function loadReindexStatus() {
+      const userId = document.getElementById('userSelect').value;
+      try {
+        const res = await fetch('/api/reindex' + (userId ? '?userId=' + encodeURIComponent(userId) : ''));
+        const data = await res.json();
+        const s = data.stats;
+        
+        document.getElementById('reindexStats').innerHTML = \`
+          <div class="reindex-stat"><strong>\${escapeHtml(data.model)}</strong>当前模型</div>
+          <div class="reindex-stat"><strong>\${s.total}</strong>\${userId ? '当前用户' : '全部'}记忆</div>
+          <div class="reindex-stat"><strong>\${s.current}</strong>当前模型向量</div>
+          <div class="reindex-stat"><strong>\${s.mismatched}</strong>模型不一致</div>
+          <div class="reindex-stat"><strong>\${s.missing}</strong>缺少向量</div>
+          <div class="reindex-stat"><strong>\${s.pending}</strong>等待后台补齐</div>
+          <div class="reindex-stat"><strong>\${s.untracked}</strong>未记录模型</div>
+        \`;
+        
+        renderReindexJob(data.job);
+        
+        if (data.job && data.job.status === 'running') {
+          if (!reindexTimer) reindexTimer = setInterval(loadReindexStatus, 1000);
+        } else if (reindexTimer) {
+          clearInterval(reindexTimer);
+          reindexTimer = null;
+          loadStats();
+          loadUserData();
+        }
+      } catch (e) {
+        showToast('加载索引状态失败', 'error');
+      }
+    }
+    
+    // 渲染重新索引任务进度
+    function renderReindexJob(job) {
+      const container = document.getElementById('reindexProgress');
+      if (!job) {
+        container.innerHTML = '';
+        return;
+      }
+      
+      const processed = job.done + job.failed;
+      const percent = job.total > 0 ? Math.round(processed / job.total * 100) : 100;
+      const statusText = { running: '进行中', completed: '已完成', failed: '失败' }[job.status];
+      
+      container.innerHTML = \`
+        <div style="font-size: 13px; color: #333;">
+          任务 \${statusText} · 目标模型 \${escapeHtml(job.model)}\${job.currentUserId ? ' · 正在处理 ' + escapeHtml(job.currentUserId) : ''}
+        </div>
+        <div class="progress-bar"><div class="progress-fill" style="width: \${percent}%"></div></div>
+        <div style="font-size: 12px; color: #999;">
+          \${processed} / \${job.total} (\${percent}%) · 成功 \${job.done} · 失败 \${job.failed}
+          \${job.error ? ' · ' + escapeHtml(job.error) : ''}
+        </div>
+      \`;
+    }
+    
+    // 启动重新索引
+    async function runReindex(allUsers) {
       const userId = document.getElementById('userSelect').value;
-      if (!userId) {
+      if (!allUsers && !userId) {
         showToast('请先选择用户', 'error');
         return;
       }
       
-      const query = document.getElementById('searchQuery').value.trim();
-      if (!query) {
-        showToast('请输入搜索内容', 'error');
-        return;
-      }
-      
-      const container = document.getElementById('searchResults');
-      container.innerHTML = '<div class="empty-state"><div class="loading" style="width: 40px; height: 40px; border-width: 4px;"></div><p style="margin-top: 16px;">搜索中...</p></div>';
+      const force = document.getElementById('reindexForce').checked;
+      const target = allUsers ? '全部用户' : '用户 ' + userId;
+      if (!confirm('确定要为' + target + '重新生成向量吗？' + (force ? '（强制重新生成全部向量）' : ''))) return;
       
       try {
-        const res = await fetch('/api/search/' + encodeURIComponent(userId) + '?q=' + encodeURIComponent(query));
-        const results = await res.json();
+        const res = await fetch('/api/reindex', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ userId: allUsers ? undefined : userId, force })
+        });
+        const result = await res.json();
         
-        if (results.length === 0) {
-          container.innerHTML = '<div class="empty-state"><div class="icon">🔍</div><p>未找到相关结果</p></div>';
-          return;
+        if (result.success) {
+          showToast('重新索引任务已启动');
+          loadReindexStatus();
+        } else {
+          showToast(result.message || '启动失败', 'error');
         }
-        
-        container.innerHTML = results.map(r => \`
-          <div class="search-result-item">
-            <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;">
-              <span class="memory-question" style="margin: 0;">❓ \${escapeHtml(r.question)}</span>
-              <span class="score-badge">相似度: \${(r.score * 100).toFixed(1)}%</span>
-            </div>
-            <div class="memory-answer">\${escapeHtml(r.answer)}</div>
-          </div>
-        \`).join('');
-        
-        loadLogs();
       } catch (e) {
-        showToast('搜索失败', 'error');
-        container.innerHTML = '<div class="empty-state"><div class="icon">❌</div><p>搜索失败</p></div>';
+        showToast('启动失败: ' + e.message, 'error');
       }
     }
     
@@ -1178,8 +2639,9 @@ function getAdminPageHtml(): string {
       
       container.innerHTML = logs.slice(0, 100).map(log => {
         let logClass = 'search';
-        if (log.method === 'add_message') logClass = 'add';
-        else if (log.method === 'delete_message') logClass = 'delete';
+        if (log.method === 'add_message' || log.method === 'add_messages' || log.method === 'import_messages') logClass = 'add';
+        else if (log.method === 'update_message' || log.method === 'restore_message' || log.method === 'revert_message') logClass = 'update';
+        else if (log.method === 'delete_message' || log.method === 'purge_messages') logClass = 'delete';
         if (!log.success) logClass = 'error';
         
         return \`
@@ -1204,6 +2666,11 @@ function getAdminPageHtml(): string {
       return div.innerHTML;
     }
     
+    // 转义 HTML 属性值（额外转义双引号）
+    function escapeAttr(text) {
+      return escapeHtml(text).replace(/"/g, '&quot;');
+    }
+    
     // 回车搜索
     document.getElementById('searchQuery')?.addEventListener('keypress', (e) => {
       if (e.key === 'Enter') testSearch();
@@ -1237,10 +2704,6 @@ function parseLogs(): Array<{
       success: boolean;
     }> = [];
 
-    // 解析日志格式
-    const logPattern = /\[([^\]]+)\] ([✓✗]) (\w+) \((\d+)ms\)/g;
-    const requestPattern = /Request: (.+)/g;
-
     const lines = content.split('\n');
     let currentEntry: {
       timestamp: string;
@@ -1294,8 +2757,8 @@ export function startAdminServer(): void {
   const server = http.createServer(async (req, res) => {
     // CORS
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
     if (req.method === 'OPTIONS') {
       res.writeHead(204);
@@ -1306,39 +2769,194 @@ export function startAdminServer(): void {
     const url = new URL(req.url || '/', `http://localhost:${ADMIN_PORT}`);
 
     try {
-      // 登录页面
+      // 登录页面（已登录时直接进入管理页面）
       if (url.pathname === '/setting' || url.pathname === '/setting/') {
+        if (authenticate(req)) {
+          res.writeHead(302, { Location: '/setting/dashboard' });
+          res.end();
+          return;
+        }
         sendHtml(res, getLoginPageHtml());
         return;
       }
 
       // 管理页面（需要登录）
       if (url.pathname === '/setting/dashboard') {
+        if (!authenticate(req)) {
+          res.writeHead(302, { Location: '/setting' });
+          res.end();
+          return;
+        }
         sendHtml(res, getAdminPageHtml());
         return;
       }
 
-      // 密码验证
+      // 登录：校验密码，签发会话令牌（同时写入 HttpOnly Cookie）
       if (url.pathname === '/api/auth' && req.method === 'POST') {
         const body = await parseBody(req);
-        const { password } = JSON.parse(body);
-        
-        if (password === ADMIN_PASSWORD) {
-          sendJson(res, { success: true, message: '验证成功' });
+        const { username, password } = JSON.parse(body);
+        const result = login(username, password, getClientId(req));
+        audit(req, result.success ? result.session : undefined, 'login', {
+          actor: result.success ? result.session.username : (typeof username === 'string' && username.trim() ? username.trim().slice(0, 64) : BOOTSTRAP_USERNAME),
+          success: result.success,
+          message: result.success ? undefined : result.message,
+        });
+
+        if (result.success) {
+          res.setHeader('Set-Cookie', sessionCookie(result.token, result.session.expiresAt));
+          sendJson(res, {
+            success: true,
+            message: '验证成功',
+            username: result.session.username,
+            role: result.session.role,
+            token: result.token,
+            expiresAt: new Date(result.session.expiresAt).toISOString()
+          });
+        } else if (result.retryAfterMs) {
+          res.setHeader('Retry-After', String(Math.ceil(result.retryAfterMs / 1000)));
+          sendJson(res, { success: false, message: result.message }, 429);
         } else {
-          sendJson(res, { success: false, message: '密码错误' }, 401);
+          sendJson(res, { success: false, message: result.message }, 401);
+        }
+        return;
+      }
+
+      // 退出登录：注销会话并清除 Cookie
+      if (url.pathname === '/api/logout' && req.method === 'POST') {
+        const current = authenticate(req);
+        const success = logout(req);
+        if (current) {
+          audit(req, current, 'logout', { success: true });
+        }
+        res.setHeader('Set-Cookie', clearSessionCookie());
+        sendJson(res, { success, message: success ? '已退出登录' : '未登录' });
+        return;
+      }
+
+      // 其余接口都需要有效会话，且账号角色满足接口要求
+      const session = authenticate(req);
+      if (url.pathname.startsWith('/api/')) {
+        if (!session) {
+          sendJson(res, { success: false, message: '未登录或登录已过期' }, 401);
+          return;
+        }
+        const requiredRole = getRequiredRole(req.method, url.pathname);
+        if (!hasRole(session.role, requiredRole)) {
+          audit(req, session, 'access_denied', { success: false, target: `${req.method} ${url.pathname}`, message: `需要 ${requiredRole} 角色` });
+          sendJson(res, { success: false, message: `权限不足，需要 ${requiredRole} 角色` }, 403);
+          return;
+        }
+      }
+
+      // 记忆操作记录的操作者（删除者、修订来源）
+      const actor = session ? `admin:${session.username}` : 'admin';
+
+      // 当前登录账号
+      if (url.pathname === '/api/me' && req.method === 'GET') {
+        sendJson(res, { username: session!.username, role: session!.role, bootstrap: !adminAccounts.hasAccounts() });
+        return;
+      }
+
+      // 账号列表（未创建账号时只有初始管理员）
+      if (url.pathname === '/api/accounts' && req.method === 'GET') {
+        sendJson(res, adminAccounts.hasAccounts()
+          ? adminAccounts.list()
+          : [{ username: BOOTSTRAP_USERNAME, role: 'owner', bootstrap: true }]);
+        return;
+      }
+
+      // 创建账号（创建第一个账号时，初始管理员一并保存为 owner 账号）
+      if (url.pathname === '/api/accounts' && req.method === 'POST') {
+        const body = await parseBody(req);
+        const { username, password, role: rawRole } = JSON.parse(body);
+        const role = parseAdminRole(rawRole);
+
+        if (!isValidUsername(username) || !role) {
+          sendJson(res, { success: false, message: '用户名只能包含字母、数字、_ . -（最多 32 个字符），角色为 viewer / editor / owner' }, 400);
+          return;
+        }
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+          sendJson(res, { success: false, message: `密码至少 ${MIN_PASSWORD_LENGTH} 个字符` }, 400);
+          return;
+        }
+
+        try {
+          const bootstrap = adminAccounts.hasAccounts()
+            ? undefined
+            : { username: BOOTSTRAP_USERNAME, passwordHash: getBootstrapPasswordHash() };
+          const account = adminAccounts.create(username, role, hashPassword(password), bootstrap);
+          audit(req, session, 'create_account', { success: true, target: username, after: { role } });
+          sendJson(res, { success: true, message: '账号已创建', ...account });
+        } catch (err) {
+          audit(req, session, 'create_account', { success: false, target: username, message: (err as Error).message });
+          sendJson(res, { success: false, message: (err as Error).message }, 400);
+        }
+        return;
+      }
+
+      // 修改账号角色或重置密码、删除账号
+      const accountMatch = url.pathname.match(/^\/api\/accounts\/([^\/]+)$/);
+      if (accountMatch && (req.method === 'PUT' || req.method === 'DELETE')) {
+        const username = decodeURIComponent(accountMatch[1]);
+        const previousRole = adminAccounts.getRole(username);
+        if (!previousRole) {
+          sendJson(res, { success: false, message: adminAccounts.hasAccounts() ? '账号不存在' : '尚未创建账号，请先创建一个账号' }, 404);
+          return;
+        }
+
+        try {
+          if (req.method === 'DELETE') {
+            adminAccounts.remove(username);
+            revokeUserSessions(username);
+            audit(req, session, 'delete_account', { success: true, target: username, before: { role: previousRole } });
+            sendJson(res, { success: true, message: '账号已删除', username });
+            return;
+          }
+
+          const body = await parseBody(req);
+          const { role: rawRole, password } = JSON.parse(body);
+          const role = rawRole === undefined ? undefined : parseAdminRole(rawRole);
+          const invalidRole = rawRole !== undefined && !role;
+          const invalidPassword = password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH);
+          if (invalidRole || invalidPassword || (rawRole === undefined && password === undefined)) {
+            sendJson(res, { success: false, message: `角色为 viewer / editor / owner，密码至少 ${MIN_PASSWORD_LENGTH} 个字符` }, 400);
+            return;
+          }
+
+          const account = adminAccounts.updateAccount(username, {
+            role,
+            passwordHash: password === undefined ? undefined : hashPassword(password),
+          });
+          if (password !== undefined) {
+            revokeUserSessions(username, session!.id);
+          }
+          audit(req, session, 'update_account', {
+            success: true,
+            target: username,
+            before: { role: previousRole },
+            after: { role: account?.role, passwordReset: password !== undefined },
+          });
+          sendJson(res, { success: true, message: password !== undefined ? '密码已重置' : '角色已修改', ...account });
+        } catch (err) {
+          audit(req, session, req.method === 'DELETE' ? 'delete_account' : 'update_account', { success: false, target: username, message: (err as Error).message });
+          sendJson(res, { success: false, message: (err as Error).message }, 400);
         }
         return;
       }
 
       // 健康检查
       if (url.pathname === '/api/health') {
-        const ollamaHealthy = await checkOllamaHealth();
+        const provider = getEmbeddingProvider();
+        const embeddingHealthy = await checkEmbeddingHealth();
         sendJson(res, {
           status: 'ok',
-          ollama: ollamaHealthy,
-          host: getOllamaHost(),
-          model: getEmbeddingModel()
+          provider: provider.name,
+          embedding: embeddingHealthy,
+          circuit: getEmbeddingCircuitState(),
+          // 兼容旧字段
+          ollama: embeddingHealthy,
+          host: provider.host,
+          model: provider.model
         });
         return;
       }
@@ -1349,7 +2967,9 @@ export function startAdminServer(): void {
         sendJson(res, {
           totalUsers: users.length,
           totalMemories: memoryStore.count(),
-          model: getEmbeddingModel()
+          model: getEmbeddingModel(),
+          provider: getEmbeddingProvider().name,
+          embeddings: memoryStore.getEmbeddingStats()
         });
         return;
       }
@@ -1360,6 +2980,22 @@ export function startAdminServer(): void {
         return;
       }
 
+      // 获取用户的配额用量和限流状态
+      const usageMatch = url.pathname.match(/^\/api\/usage\/([^\/]+)$/);
+      if (usageMatch && req.method === 'GET') {
+        const userId = decodeURIComponent(usageMatch[1]);
+        sendJson(res, {
+          userId,
+          limits: getQuotaLimits(),
+          usage: memoryStore.getUsage(userId),
+          rateLimit: {
+            user: toolRateLimiter.getUserState(userId),
+            session: toolRateLimiter.getConfig().session
+          }
+        });
+        return;
+      }
+
       // 获取用户记忆列表
       const memoriesMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)$/);
       if (memoriesMatch && req.method === 'GET') {
@@ -1373,85 +3009,514 @@ export function startAdminServer(): void {
       if (memoriesMatch && req.method === 'POST') {
         const userId = decodeURIComponent(memoriesMatch[1]);
         const body = await parseBody(req);
-        const { question, answer } = JSON.parse(body);
+        const { question, answer, tags: rawTags, metadata } = JSON.parse(body);
+        const tags = parseTags(rawTags);
         const timer = startTimer();
 
         if (!question || !answer) {
           const errorResult = { success: false, message: '缺少必填参数' };
-          logCall('add_message', { userId, question, answer, source: 'admin' }, errorResult, timer(), false, '缺少必填参数');
+          logCall('add_message', { userId, question, answer, tags, metadata, source: 'admin' }, errorResult, timer(), false, '缺少必填参数');
           sendJson(res, errorResult, 400);
           return;
         }
 
         try {
-          const memory = await memoryStore.add(userId, question, answer);
+          const memory = await memoryStore.add(userId, question, answer, { tags, metadata });
           const result = {
             success: true,
-            message: '添加成功',
+            message: memory.pendingEmbedding ? '已保存，嵌入服务暂不可用，向量将在后台补齐' : '添加成功',
             id: memory.id,
             userId: memory.userId,
             question: memory.question,
             answer: memory.answer,
+            tags: memory.tags,
+            metadata: memory.metadata,
+            pendingEmbedding: memory.pendingEmbedding,
             createdAt: memory.createdAt
           };
-          logCall('add_message', { userId, question, answer, source: 'admin' }, result, timer(), true);
+          logCall('add_message', { userId, question, answer, tags, metadata, source: 'admin' }, result, timer(), true);
+          audit(req, session, 'add_message', { success: true, userId, target: memory.id, after: summarizeMemory(memory) });
           sendJson(res, result);
         } catch (err) {
           const errorResult = { success: false, message: (err as Error).message };
-          logCall('add_message', { userId, question, answer, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
-          sendJson(res, errorResult, 500);
+          logCall('add_message', { userId, question, answer, tags, metadata, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'add_message', { success: false, userId, message: (err as Error).message });
+          sendJson(res, errorResult, writeErrorStatus(err));
+        }
+        return;
+      }
+
+      // 导出记忆
+      const exportMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)\/export$/);
+      if (exportMatch && req.method === 'GET') {
+        const userId = decodeURIComponent(exportMatch[1]);
+        const format = parseTransferFormat(url.searchParams.get('format') || 'jsonl');
+        if (!format) {
+          sendJson(res, { success: false, message: 'format 必须是 jsonl、csv 或 markdown' }, 400);
+          return;
+        }
+
+        const includeVectors = url.searchParams.get('vectors') === 'true';
+        const content = memoryStore.export(userId, format, includeVectors);
+        audit(req, session, 'export_messages', { success: true, userId, after: { format, includeVectors, count: memoryStore.count(userId) } });
+        const { extension, contentType } = TRANSFER_FILE_TYPES[format];
+        const fileName = `memories-${userId}.${extension}`;
+        res.writeHead(200, {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="memories.${extension}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+        });
+        res.end(content);
+        return;
+      }
+
+      // 导入记忆（dryRun 为 true 时只返回预览）
+      const importMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)\/import$/);
+      if (importMatch && req.method === 'POST') {
+        const userId = decodeURIComponent(importMatch[1]);
+        const body = await parseBody(req);
+        const { format: rawFormat, content, dryRun = false } = JSON.parse(body);
+        const format = parseTransferFormat(rawFormat);
+        const timer = startTimer();
+
+        if (!format || typeof content !== 'string') {
+          sendJson(res, { success: false, message: 'format（jsonl、csv 或 markdown）和 content 是必填参数' }, 400);
+          return;
+        }
+
+        try {
+          const summary = await memoryStore.importMemories(userId, parseImport(content, format), dryRun === true);
+          const result = {
+            success: true,
+            message: dryRun === true
+              ? `预览: 将新增 ${summary.created} 条（其中 ${summary.reembed} 条重新生成向量），重复 ${summary.duplicates} 条，无效 ${summary.invalid} 条`
+              : `已导入 ${summary.created} 条记忆，跳过重复 ${summary.duplicates} 条，无效 ${summary.invalid} 条`,
+            userId,
+            ...summary
+          };
+          if (dryRun !== true) {
+            logCall('import_messages', { userId, format, count: summary.total, source: 'admin' }, { success: true, message: result.message }, timer(), true);
+            audit(req, session, 'import_messages', {
+              success: true,
+              userId,
+              after: { format, total: summary.total, created: summary.created, duplicates: summary.duplicates, invalid: summary.invalid },
+            });
+          }
+          sendJson(res, result);
+        } catch (err) {
+          const errorResult = { success: false, message: (err as Error).message };
+          if (dryRun !== true) {
+            logCall('import_messages', { userId, format, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+            audit(req, session, 'import_messages', { success: false, userId, message: (err as Error).message });
+          }
+          sendJson(res, errorResult, writeErrorStatus(err));
+        }
+        return;
+      }
+
+      // 批量添加记忆
+      const bulkMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)\/bulk$/);
+      if (bulkMatch && req.method === 'POST') {
+        const userId = decodeURIComponent(bulkMatch[1]);
+        const body = await parseBody(req);
+        const { items } = JSON.parse(body);
+        const timer = startTimer();
+
+        if (!Array.isArray(items) || items.length === 0) {
+          const errorResult = { success: false, message: 'items 必须是非空数组' };
+          logCall('add_messages', { userId, count: 0, source: 'admin' }, errorResult, timer(), false, '缺少必填参数');
+          sendJson(res, errorResult, 400);
+          return;
+        }
+
+        try {
+          const results = await memoryStore.addMany(userId, items);
+          const added = results.filter(r => r.success);
+          const pending = added.filter(r => r.memory?.pendingEmbedding).length;
+          const result = {
+            success: added.length > 0,
+            message: `已添加 ${added.length}/${results.length} 条记忆${pending > 0 ? `，其中 ${pending} 条等待后台补齐向量` : ''}`,
+            userId,
+            added: added.length,
+            failed: results.length - added.length,
+            results: results.map(r => r.memory
+              ? { index: r.index, success: true, id: r.memory.id, pendingEmbedding: r.memory.pendingEmbedding }
+              : { index: r.index, success: false, error: r.error })
+          };
+          logCall('add_messages', { userId, count: items.length, source: 'admin' }, result, timer(), added.length > 0);
+          audit(req, session, 'add_messages', { success: added.length > 0, userId, message: result.message, after: { added: added.length, failed: result.failed } });
+          sendJson(res, result, added.length > 0 ? 200 : 400);
+        } catch (err) {
+          const errorResult = { success: false, message: (err as Error).message };
+          logCall('add_messages', { userId, count: items.length, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'add_messages', { success: false, userId, message: (err as Error).message });
+          sendJson(res, errorResult, writeErrorStatus(err));
+        }
+        return;
+      }
+
+      // 记忆修订历史
+      const historyMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)\/([^\/]+)\/history$/);
+      if (historyMatch && req.method === 'GET') {
+        const userId = decodeURIComponent(historyMatch[1]);
+        const memoryId = decodeURIComponent(historyMatch[2]);
+        const revisions = memoryStore.getHistory(userId, memoryId);
+        if (!revisions) {
+          sendJson(res, { success: false, message: '记忆不存在', userId, id: memoryId }, 404);
+          return;
+        }
+        const memory = memoryStore.get(userId, memoryId);
+        sendJson(res, {
+          success: true,
+          userId,
+          id: memoryId,
+          current: memory ? { question: memory.question, answer: memory.answer, tags: memory.tags, metadata: memory.metadata, updatedAt: memory.updatedAt } : undefined,
+          revisions
+        });
+        return;
+      }
+
+      // 回退到历史版本
+      const revertMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)\/([^\/]+)\/revert$/);
+      if (revertMatch && req.method === 'POST') {
+        const userId = decodeURIComponent(revertMatch[1]);
+        const memoryId = decodeURIComponent(revertMatch[2]);
+        const body = await parseBody(req);
+        const { revisionId } = JSON.parse(body);
+        const timer = startTimer();
+
+        if (!revisionId) {
+          const errorResult = { success: false, message: 'revisionId 是必填参数' };
+          logCall('revert_message', { userId, id: memoryId, source: 'admin' }, errorResult, timer(), false, '缺少必填参数');
+          sendJson(res, errorResult, 400);
+          return;
+        }
+
+        const before = summarizeMemory(memoryStore.get(userId, memoryId));
+        try {
+          const memory = await memoryStore.revert(userId, memoryId, revisionId, actor);
+          const result = memory
+            ? {
+                success: true,
+                message: memory.pendingEmbedding ? '已回退，向量将在后台补齐' : '已回退',
+                id: memory.id,
+                userId: memory.userId,
+                question: memory.question,
+                answer: memory.answer,
+                tags: memory.tags,
+                metadata: memory.metadata,
+                updatedAt: memory.updatedAt
+              }
+            : { success: false, message: '回退失败，记忆或修订记录不存在', userId, id: memoryId };
+          logCall('revert_message', { userId, id: memoryId, revisionId, source: 'admin' }, result, timer(), !!memory, memory ? undefined : '记忆或修订记录不存在');
+          audit(req, session, 'revert_message', { success: !!memory, userId, target: memoryId, message: memory ? `回退修订 ${revisionId}` : result.message, before, after: summarizeMemory(memory) });
+          sendJson(res, result, memory ? 200 : 404);
+        } catch (err) {
+          const errorResult = { success: false, message: (err as Error).message };
+          logCall('revert_message', { userId, id: memoryId, revisionId, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'revert_message', { success: false, userId, target: memoryId, message: (err as Error).message, before });
+          sendJson(res, errorResult, writeErrorStatus(err));
+        }
+        return;
+      }
+
+      // 更新记忆
+      const memoryItemMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)\/([^\/]+)$/);
+      if (memoryItemMatch && req.method === 'PUT') {
+        const userId = decodeURIComponent(memoryItemMatch[1]);
+        const memoryId = decodeURIComponent(memoryItemMatch[2]);
+        const body = await parseBody(req);
+        const { question, answer, tags: rawTags, metadata } = JSON.parse(body);
+        const tags = parseTags(rawTags);
+        const timer = startTimer();
+
+        if (question === undefined && answer === undefined && !tags && !metadata) {
+          const errorResult = { success: false, message: '缺少必填参数' };
+          logCall('update_message', { userId, id: memoryId, question, answer, tags, metadata, source: 'admin' }, errorResult, timer(), false, '缺少必填参数');
+          sendJson(res, errorResult, 400);
+          return;
+        }
+
+        if (isBlankText(question) || isBlankText(answer)) {
+          const errorResult = { success: false, message: '问题和答案不能为空' };
+          logCall('update_message', { userId, id: memoryId, question, answer, tags, metadata, source: 'admin' }, errorResult, timer(), false, '问题或答案为空');
+          sendJson(res, errorResult, 400);
+          return;
+        }
+
+        const before = summarizeMemory(memoryStore.get(userId, memoryId));
+        try {
+          const memory = await memoryStore.update(userId, memoryId, { question, answer, tags, metadata }, actor);
+          const result = memory
+            ? {
+                success: true,
+                message: '更新成功',
+                id: memory.id,
+                userId: memory.userId,
+                question: memory.question,
+                answer: memory.answer,
+                tags: memory.tags,
+                metadata: memory.metadata,
+                createdAt: memory.createdAt,
+                updatedAt: memory.updatedAt
+              }
+            : { success: false, message: '更新失败，记忆不存在', userId, id: memoryId };
+          logCall('update_message', { userId, id: memoryId, question, answer, tags, metadata, source: 'admin' }, result, timer(), !!memory, memory ? undefined : '记忆不存在');
+          audit(req, session, 'update_message', { success: !!memory, userId, target: memoryId, message: memory ? undefined : result.message, before, after: summarizeMemory(memory) });
+          sendJson(res, result, memory ? 200 : 404);
+        } catch (err) {
+          const errorResult = { success: false, message: (err as Error).message };
+          logCall('update_message', { userId, id: memoryId, question, answer, tags, metadata, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'update_message', { success: false, userId, target: memoryId, message: (err as Error).message, before });
+          sendJson(res, errorResult, writeErrorStatus(err));
         }
         return;
       }
 
       // 删除记忆
-      const deleteMatch = url.pathname.match(/^\/api\/memories\/([^\/]+)\/([^\/]+)$/);
-      if (deleteMatch && req.method === 'DELETE') {
-        const userId = decodeURIComponent(deleteMatch[1]);
-        const memoryId = decodeURIComponent(deleteMatch[2]);
+      if (memoryItemMatch && req.method === 'DELETE') {
+        const userId = decodeURIComponent(memoryItemMatch[1]);
+        const memoryId = decodeURIComponent(memoryItemMatch[2]);
         const timer = startTimer();
         
+        const before = summarizeMemory(memoryStore.get(userId, memoryId));
         try {
-          const success = await memoryStore.delete(userId, memoryId);
+          const success = await memoryStore.delete(userId, memoryId, actor);
           const result = {
             success,
-            message: success ? '删除成功' : '删除失败，记忆不存在',
+            message: success ? '已移入回收站' : '删除失败，记忆不存在',
             userId,
             id: memoryId
           };
           logCall('delete_message', { userId, id: memoryId, source: 'admin' }, result, timer(), success, success ? undefined : '记忆不存在');
+          audit(req, session, 'delete_message', { success, userId, target: memoryId, message: success ? undefined : result.message, before });
           sendJson(res, result);
         } catch (err) {
           const errorResult = { success: false, message: (err as Error).message };
           logCall('delete_message', { userId, id: memoryId, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'delete_message', { success: false, userId, target: memoryId, message: (err as Error).message, before });
+          sendJson(res, errorResult, 500);
+        }
+        return;
+      }
+
+      // 回收站列表
+      const trashMatch = url.pathname.match(/^\/api\/trash\/([^\/]+)$/);
+      if (trashMatch && req.method === 'GET') {
+        const userId = decodeURIComponent(trashMatch[1]);
+        sendJson(res, { retentionDays: getTrashRetentionDays(), items: memoryStore.listTrash(userId) });
+        return;
+      }
+
+      // 从回收站恢复记忆
+      const restoreMatch = url.pathname.match(/^\/api\/trash\/([^\/]+)\/([^\/]+)\/restore$/);
+      if (restoreMatch && req.method === 'POST') {
+        const userId = decodeURIComponent(restoreMatch[1]);
+        const memoryId = decodeURIComponent(restoreMatch[2]);
+        const timer = startTimer();
+
+        try {
+          const memory = await memoryStore.restore(userId, memoryId);
+          const result = {
+            success: !!memory,
+            message: memory ? '已恢复' : '恢复失败，回收站中没有该记忆',
+            userId,
+            id: memoryId
+          };
+          logCall('restore_message', { userId, id: memoryId, source: 'admin' }, result, timer(), !!memory, memory ? undefined : '记忆不在回收站中');
+          audit(req, session, 'restore_message', { success: !!memory, userId, target: memoryId, message: memory ? undefined : result.message, after: summarizeMemory(memory) });
+          sendJson(res, result);
+        } catch (err) {
+          const errorResult = { success: false, message: (err as Error).message };
+          logCall('restore_message', { userId, id: memoryId, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'restore_message', { success: false, userId, target: memoryId, message: (err as Error).message });
+          sendJson(res, errorResult, 500);
+        }
+        return;
+      }
+
+      // 彻底删除回收站中的记忆（不指定记忆ID时清空回收站）
+      const purgeMatch = url.pathname.match(/^\/api\/trash\/([^\/]+)(?:\/([^\/]+))?$/);
+      if (purgeMatch && req.method === 'DELETE') {
+        const userId = decodeURIComponent(purgeMatch[1]);
+        const memoryId = purgeMatch[2] ? decodeURIComponent(purgeMatch[2]) : undefined;
+        const timer = startTimer();
+
+        const before = memoryId
+          ? summarizeMemory(memoryStore.listTrash(userId).find(m => m.id === memoryId))
+          : { trashed: memoryStore.listTrash(userId).length };
+        try {
+          const purged = await memoryStore.purge(userId, memoryId ? [memoryId] : undefined);
+          const success = purged > 0 || !memoryId;
+          const result = {
+            success,
+            message: success ? `已彻底删除 ${purged} 条记忆` : '删除失败，回收站中没有该记忆',
+            userId,
+            id: memoryId,
+            purged
+          };
+          logCall('purge_messages', { userId, id: memoryId, source: 'admin' }, result, timer(), success, success ? undefined : '记忆不在回收站中');
+          audit(req, session, 'purge_messages', { success, userId, target: memoryId, message: result.message, before, after: { purged } });
+          sendJson(res, result);
+        } catch (err) {
+          const errorResult = { success: false, message: (err as Error).message };
+          logCall('purge_messages', { userId, id: memoryId, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'purge_messages', { success: false, userId, target: memoryId, message: (err as Error).message, before });
           sendJson(res, errorResult, 500);
         }
         return;
       }
 
+      // 审计日志查询
+      if (url.pathname === '/api/audit' && req.method === 'GET') {
+        const param = (name: string) => url.searchParams.get(name) || undefined;
+        const success = param('success');
+        sendJson(res, queryAudit({
+          actor: param('actor'),
+          action: param('action'),
+          userId: param('userId'),
+          success: success === undefined ? undefined : success === 'true',
+          since: param('since'),
+          until: param('until'),
+          offset: parseInt(param('offset') || '0', 10),
+          limit: parseInt(param('limit') || '50', 10),
+        }));
+        return;
+      }
+
+      // API 令牌列表
+      if (url.pathname === '/api/tokens' && req.method === 'GET') {
+        sendJson(res, apiTokens.list());
+        return;
+      }
+
+      // 创建 API 令牌（令牌明文只在此时返回一次）
+      if (url.pathname === '/api/tokens' && req.method === 'POST') {
+        const body = await parseBody(req);
+        const { name, userIds: rawUserIds, scopes: rawScopes } = JSON.parse(body);
+        const userIds = Array.isArray(rawUserIds)
+          ? rawUserIds.filter((u: unknown): u is string => typeof u === 'string' && u.trim() !== '').map((u: string) => u.trim())
+          : [];
+        const scopes = parseTokenScopes(rawScopes);
+
+        if (typeof name !== 'string' || !name.trim() || userIds.length === 0 || !scopes) {
+          sendJson(res, { success: false, message: '名称、用户和权限（read / write / delete）不能为空' }, 400);
+          return;
+        }
+
+        const { token, info } = apiTokens.create(name.trim(), userIds, scopes);
+        audit(req, session, 'create_token', { success: true, target: info.id, after: { name: info.name, userIds: info.userIds, scopes: info.scopes } });
+        sendJson(res, { success: true, message: '令牌已创建，请立即复制保存，关闭后无法再次查看', token, ...info });
+        return;
+      }
+
+      // 撤销 API 令牌
+      const tokenMatch = url.pathname.match(/^\/api\/tokens\/([^\/]+)$/);
+      if (tokenMatch && req.method === 'DELETE') {
+        const tokenId = decodeURIComponent(tokenMatch[1]);
+        const revoked = apiTokens.revoke(tokenId);
+        audit(req, session, 'revoke_token', {
+          success: !!revoked,
+          target: tokenId,
+          message: revoked ? undefined : '令牌不存在或已撤销',
+          before: revoked ? { name: revoked.name, userIds: revoked.userIds, scopes: revoked.scopes } : undefined,
+        });
+        sendJson(res, revoked
+          ? { success: true, message: '令牌已撤销', ...revoked }
+          : { success: false, message: '令牌不存在或已撤销' }, revoked ? 200 : 404);
+        return;
+      }
+
       // 搜索记忆
       const searchMatch = url.pathname.match(/^\/api\/search\/([^\/]+)$/);
       if (searchMatch && req.method === 'GET') {
         const userId = decodeURIComponent(searchMatch[1]);
         const query = url.searchParams.get('q') || '';
         const limit = parseInt(url.searchParams.get('limit') || '5', 10);
+        const tags = parseTags(url.searchParams.get('tags') ?? undefined);
+        const anyTags = parseTags(url.searchParams.get('anyTags') ?? undefined);
+        const metadataParam = url.searchParams.get('metadata');
 
         if (!query) {
           sendJson(res, { success: false, message: '缺少搜索内容' }, 400);
           return;
         }
 
-        const results = await memoryStore.search(userId, query, limit);
+        let metadata;
+        try {
+          metadata = metadataParam ? JSON.parse(metadataParam) : undefined;
+        } catch {
+          sendJson(res, { success: false, message: '元数据过滤条件必须是 JSON 对象' }, 400);
+          return;
+        }
+
+        const mode = parseSearchMode(url.searchParams.get('mode'));
+        let results;
+        try {
+          results = await memoryStore.search(userId, query, limit, {
+            filter: { tags, anyTags, metadata },
+            mode
+          });
+        } catch (err) {
+          if (!(err instanceof InvalidFilterError)) throw err;
+          sendJson(res, { success: false, message: err.message }, 400);
+          return;
+        }
         sendJson(res, results.map(r => ({
           id: r.memory.id,
           question: r.memory.question,
           answer: r.memory.answer,
+          tags: r.memory.tags,
+          metadata: r.memory.metadata,
           score: r.score,
+          vectorScore: r.vectorScore,
+          keywordScore: r.keywordScore,
           createdAt: r.memory.createdAt
         })));
         return;
       }
 
+      // 重新索引状态
+      if (url.pathname === '/api/reindex' && req.method === 'GET') {
+        const userId = url.searchParams.get('userId') || undefined;
+        sendJson(res, {
+          model: getEmbeddingModel(),
+          stats: memoryStore.getEmbeddingStats(userId),
+          job: getReindexJob() || null
+        });
+        return;
+      }
+
+      // 启动重新索引
+      if (url.pathname === '/api/reindex' && req.method === 'POST') {
+        const body = await parseBody(req);
+        const { userId, force } = JSON.parse(body || '{}');
+        const timer = startTimer();
+
+        try {
+          const job = startReindex(userId || undefined, !!force);
+          const result = { success: true, message: '重新索引任务已启动', job };
+          logCall('reindex', { userId, force, source: 'admin' }, { jobId: job.id, total: job.total }, timer(), true);
+          audit(req, session, 'reindex', { success: true, userId: userId || undefined, target: job.id, after: { force: !!force, total: job.total } });
+          sendJson(res, result);
+        } catch (err) {
+          const errorResult = { success: false, message: (err as Error).message };
+          logCall('reindex', { userId, force, source: 'admin' }, errorResult, timer(), false, (err as Error).message);
+          audit(req, session, 'reindex', { success: false, userId: userId || undefined, message: (err as Error).message });
+          sendJson(res, errorResult, 409);
+        }
+        return;
+      }
+
+      // 近似最近邻索引召回率检查
+      const annMatch = url.pathname.match(/^\/api\/ann\/([^\/]+)$/);
+      if (annMatch && req.method === 'GET') {
+        const userId = decodeURIComponent(annMatch[1]);
+        const sampleSize = parseInt(url.searchParams.get('samples') || '20', 10);
+        const k = parseInt(url.searchParams.get('k') || '10', 10);
+        sendJson(res, memoryStore.checkAnnRecall(userId, sampleSize, k));
+        return;
+      }
+
       // 获取日志
       if (url.pathname === '/api/logs' && req.method === 'GET') {
         const logs = parseLogs();
@@ -1476,6 +3541,8 @@ export function startAdminServer(): void {
     }
   });
 
+  checkAuthConfig();
+
   server.listen(ADMIN_PORT, '0.0.0.0', () => {
     console.error(`[Admin] 数据管理平台已启动: http://0.0.0.0:${ADMIN_PORT}/setting`);
   });
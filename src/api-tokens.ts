@@ -0,0 +1,272 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './atomic-file.js';
+import { withFileLockSync } from './file-lock.js';
+
+/**
+ * 数据目录路径
+ */
+const DATA_DIR = process.env.DATA_DIR || './data';
+
+/**
+ * 令牌文件名
+ */
+export const API_TOKENS_FILE = 'api-tokens.json';
+
+/**
+ * 令牌文件版本
+ */
+const API_TOKENS_VERSION = 1;
+
+/**
+ * 令牌明文前缀，便于识别和密钥扫描
+ */
+const TOKEN_PREFIX = 'mmt_';
+
+/**
+ * 最近使用时间写入文件的最小间隔(ms)，避免每次工具调用都写文件
+ */
+const LAST_USED_PERSIST_INTERVAL = 60 * 1000;
+
+/**
+ * 令牌权限：read 搜索和读取，write 添加和修改，delete 删除
+ */
+export type ApiTokenScope = 'read' | 'write' | 'delete';
+
+/**
+ * 全部权限
+ */
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'write', 'delete'];
+
+/**
+ * API 令牌（不含令牌明文，文件中只保存哈希）
+ */
+export interface ApiToken {
+  /** 令牌ID */
+  id: string;
+  /** 名称（用途说明） */
+  name: string;
+  /** 令牌明文的前几位，用于在列表中辨认 */
+  prefix: string;
+  /** 可访问的用户ID */
+  userIds: string[];
+  /** 权限 */
+  scopes: ApiTokenScope[];
+  /** 创建时间 */
+  createdAt: string;
+  /** 最近使用时间 */
+  lastUsedAt?: string;
+  /** 撤销时间，撤销后令牌立即失效 */
+  revokedAt?: string;
+}
+
+/**
+ * 令牌文件中的条目
+ */
+interface StoredApiToken extends ApiToken {
+  /** 令牌明文的 SHA-256 */
+  hash: string;
+}
+
+/**
+ * 令牌文件结构
+ */
+interface ApiTokensData {
+  version: number;
+  tokens: StoredApiToken[];
+}
+
+/**
+ * 校验权限参数
+ */
+export function parseTokenScopes(value: unknown): ApiTokenScope[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const scopes = API_TOKEN_SCOPES.filter(scope => value.includes(scope));
+  return scopes.length > 0 && scopes.length === new Set(value).size ? scopes : undefined;
+}
+
+/**
+ * 计算令牌明文的哈希
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf-8').digest('hex');
+}
+
+/**
+ * 去掉令牌文件中的哈希
+ */
+function toApiToken({ hash, ...token }: StoredApiToken): ApiToken {
+  return token;
+}
+
+/**
+ * API 令牌存储：SSE 客户端凭令牌连接，令牌决定会话可访问的用户和权限
+ * 保存在 {DATA_DIR}/api-tokens.json，多个进程共用数据目录时，文件变化后自动重新读取，修改在文件锁内完成
+ */
+export class ApiTokenStore {
+  private tokens: Map<string, StoredApiToken> = new Map();
+  private dataDir: string;
+  private filePath: string;
+  private lockPath: string;
+  /** 上次读取时文件的修改时间和大小 */
+  private loadedStamp = '';
+  /** 尚未写入文件的最近使用时间: 令牌ID -> 时间 */
+  private pendingUsage: Map<string, string> = new Map();
+  /** 上次写入最近使用时间的时间戳 */
+  private usagePersistedAt = 0;
+
+  constructor(dataDir: string = DATA_DIR) {
+    this.dataDir = dataDir;
+    this.filePath = join(dataDir, API_TOKENS_FILE);
+    this.lockPath = join(dataDir, 'api-tokens.lock');
+  }
+
+  /**
+   * 令牌文件被其他进程修改后重新读取
+   */
+  private refresh(): void {
+    if (!existsSync(this.filePath)) return;
+
+    const stat = statSync(this.filePath);
+    const stamp = `${stat.mtimeMs}:${stat.size}`;
+    if (stamp === this.loadedStamp) return;
+
+    const data: ApiTokensData = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+    if (data.version > API_TOKENS_VERSION) {
+      throw new Error(`令牌文件 ${this.filePath} 的版本为 ${data.version}，当前程序最高支持 ${API_TOKENS_VERSION}，请升级程序`);
+    }
+    this.tokens = new Map((data.tokens || []).map(token => [token.id, token]));
+    this.loadedStamp = stamp;
+  }
+
+  /**
+   * 在文件锁内重新读取、修改并保存
+   */
+  private update<T>(fn: () => T): T {
+    mkdirSync(this.dataDir, { recursive: true });
+    return withFileLockSync(this.lockPath, () => {
+      this.refresh();
+      for (const [id, lastUsedAt] of this.pendingUsage) {
+        const token = this.tokens.get(id);
+        if (token && (!token.lastUsedAt || token.lastUsedAt < lastUsedAt)) {
+          token.lastUsedAt = lastUsedAt;
+        }
+      }
+      this.pendingUsage.clear();
+      this.usagePersistedAt = Date.now();
+
+      const result = fn();
+      const data: ApiTokensData = {
+        version: API_TOKENS_VERSION,
+        tokens: Array.from(this.tokens.values()),
+      };
+      writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+      const stat = statSync(this.filePath);
+      this.loadedStamp = `${stat.mtimeMs}:${stat.size}`;
+      return result;
+    });
+  }
+
+  /**
+   * 获取所有令牌（按创建时间倒序）
+   */
+  list(): ApiToken[] {
+    this.refresh();
+    return Array.from(this.tokens.values())
+      .map(token => ({ ...toApiToken(token), lastUsedAt: this.pendingUsage.get(token.id) || token.lastUsedAt }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * 创建令牌
+   * @returns 令牌信息和明文（明文只在创建时返回一次）
+   */
+  create(name: string, userIds: string[], scopes: ApiTokenScope[]): { token: string; info: ApiToken } {
+    const id = randomBytes(8).toString('hex');
+    const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const stored: StoredApiToken = {
+      id,
+      name,
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      userIds: Array.from(new Set(userIds)),
+      scopes,
+      createdAt: new Date().toISOString(),
+      hash: hashToken(token),
+    };
+    this.update(() => {
+      this.tokens.set(id, stored);
+    });
+    console.error(`[ApiTokens] 已创建令牌 ${name} (${id})，用户: ${stored.userIds.join(', ')}，权限: ${scopes.join(', ')}`);
+    return { token, info: toApiToken(stored) };
+  }
+
+  /**
+   * 撤销令牌，使用该令牌的会话在下一次调用时即被拒绝
+   * @returns 令牌不存在或已撤销时返回 undefined
+   */
+  revoke(id: string): ApiToken | undefined {
+    const revoked = this.update(() => {
+      const token = this.tokens.get(id);
+      if (!token || token.revokedAt) return undefined;
+      token.revokedAt = new Date().toISOString();
+      return token;
+    });
+    if (revoked) {
+      console.error(`[ApiTokens] 已撤销令牌 ${revoked.name} (${id})`);
+    }
+    return revoked && toApiToken(revoked);
+  }
+
+  /**
+   * 按明文查找有效（未撤销）的令牌
+   */
+  verify(token: string): ApiToken | undefined {
+    this.refresh();
+    const hash = Buffer.from(hashToken(token), 'hex');
+    for (const stored of this.tokens.values()) {
+      if (!stored.revokedAt && timingSafeEqual(hash, Buffer.from(stored.hash, 'hex'))) {
+        return toApiToken(stored);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 检查令牌是否仍然有效且允许以指定权限访问用户，并记录使用时间
+   * @returns 拒绝原因，允许时返回 undefined
+   */
+  authorize(id: string, userId: string, scope: ApiTokenScope): string | undefined {
+    this.refresh();
+    const token = this.tokens.get(id);
+    if (!token || token.revokedAt) {
+      return '令牌已被撤销';
+    }
+    if (!token.userIds.includes(userId)) {
+      return `令牌无权访问用户 ${userId}`;
+    }
+    if (!token.scopes.includes(scope)) {
+      return `令牌没有 ${scope} 权限`;
+    }
+    this.touch(id);
+    return undefined;
+  }
+
+  /**
+   * 记录令牌使用时间（按间隔批量写入文件）
+   */
+  touch(id: string): void {
+    this.pendingUsage.set(id, new Date().toISOString());
+    if (Date.now() - this.usagePersistedAt < LAST_USED_PERSIST_INTERVAL) return;
+    try {
+      this.update(() => undefined);
+    } catch (error) {
+      console.error('[ApiTokens] 写入最近使用时间失败:', error);
+    }
+  }
+}
+
+/**
+ * 全局令牌存储
+ */
+export const apiTokens = new ApiTokenStore();
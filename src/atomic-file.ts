@@ -0,0 +1,71 @@
+import { openSync, writeSync, fsyncSync, closeSync, renameSync, unlinkSync, existsSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * 原子写入文件
+ * 先写入同目录的临时文件并 fsync，再 rename 覆盖目标文件，
+ * 进程崩溃或磁盘写满时目标文件保持旧内容，不会出现写了一半的文件
+ * @param filePath 目标文件路径
+ * @param data 文件内容
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tempPath = `${filePath}.tmp-${process.pid}`;
+  const fd = openSync(tempPath, 'w');
+
+  try {
+    writeSync(fd, typeof data === 'string' ? Buffer.from(data, 'utf-8') : data);
+    fsyncSync(fd);
+  } catch (error) {
+    closeSync(fd);
+    unlinkSync(tempPath);
+    throw error;
+  }
+
+  closeSync(fd);
+  renameSync(tempPath, filePath);
+  fsyncDir(dirname(filePath));
+}
+
+/**
+ * 追加写入并 fsync（用于日志类文件）
+ * @param filePath 文件路径
+ * @param data 追加的内容
+ */
+export function appendFileDurable(filePath: string, data: string): void {
+  const fd = openSync(filePath, 'a');
+  try {
+    writeSync(fd, Buffer.from(data, 'utf-8'));
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * 同步目录项，确保 rename 结果落盘（部分平台不支持，忽略错误）
+ */
+function fsyncDir(dir: string): void {
+  try {
+    const fd = openSync(dir, 'r');
+    try {
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    // Windows 等平台无法对目录 fsync
+  }
+}
+
+/**
+ * 隔离损坏的文件：重命名为 {文件名}.corrupt-{时间戳}，保留原始内容供人工恢复
+ * @param filePath 损坏的文件
+ * @returns 隔离后的文件路径，文件不存在时返回 undefined
+ */
+export function quarantineFile(filePath: string): string | undefined {
+  if (!existsSync(filePath)) return undefined;
+
+  const target = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  renameSync(filePath, target);
+  return target;
+}
@@ -0,0 +1,172 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { appendFileDurable } from './atomic-file.js';
+import type { AdminRole } from './admin-accounts.js';
+import type { Memory } from './types.js';
+
+/**
+ * 数据目录路径
+ */
+const DATA_DIR = process.env.DATA_DIR || './data';
+
+/**
+ * 审计日志文件路径（JSONL，只追加，程序不会截断或改写）
+ */
+const AUDIT_LOG_PATH = process.env.AUDIT_LOG_PATH || join(DATA_DIR, 'audit.log');
+
+/**
+ * 摘要中文本字段保留的最大字符数
+ */
+const SUMMARY_TEXT_LENGTH = 200;
+
+/**
+ * 一条审计记录
+ */
+export interface AuditEntry {
+  /** 记录ID */
+  id: string;
+  /** 操作时间 */
+  time: string;
+  /** 操作者（管理平台账号，登录失败时为提交的用户名） */
+  actor: string;
+  /** 操作者当时的角色 */
+  role?: AdminRole;
+  /** 客户端地址 */
+  ip: string;
+  /** 客户端 User-Agent */
+  userAgent?: string;
+  /** 操作，如 update_message、create_token、login */
+  action: string;
+  /** 操作涉及的记忆用户 */
+  userId?: string;
+  /** 操作对象（记忆ID、令牌ID、账号等） */
+  target?: string;
+  /** 是否成功 */
+  success: boolean;
+  /** 结果说明或失败原因 */
+  message?: string;
+  /** 操作前的摘要 */
+  before?: unknown;
+  /** 操作后的摘要 */
+  after?: unknown;
+}
+
+/**
+ * 审计日志查询条件
+ */
+export interface AuditFilter {
+  actor?: string;
+  action?: string;
+  userId?: string;
+  success?: boolean;
+  /** 起始时间（含） */
+  since?: string;
+  /** 截止时间（含） */
+  until?: string;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * 审计日志查询结果
+ */
+export interface AuditQueryResult {
+  /** 符合条件的记录总数 */
+  total: number;
+  /** 当前页记录（最近的在前） */
+  items: AuditEntry[];
+  /** 日志中出现过的操作者，用于筛选 */
+  actors: string[];
+  /** 日志中出现过的操作，用于筛选 */
+  actions: string[];
+}
+
+/**
+ * 截断过长的文本
+ */
+function truncate(text: string): string {
+  return text.length > SUMMARY_TEXT_LENGTH ? `${text.slice(0, SUMMARY_TEXT_LENGTH)}…` : text;
+}
+
+/**
+ * 记忆的审计摘要（不含向量，长文本截断）
+ */
+export function summarizeMemory(memory: Omit<Memory, 'embedding'> | undefined): Record<string, unknown> | undefined {
+  if (!memory) return undefined;
+  return {
+    question: truncate(memory.question),
+    answer: truncate(memory.answer),
+    tags: memory.tags || [],
+    metadata: memory.metadata || {},
+  };
+}
+
+/**
+ * 追加一条审计记录
+ * 写入失败时只输出错误，不影响操作本身
+ */
+export function recordAudit(entry: Omit<AuditEntry, 'id' | 'time'>): void {
+  const record: AuditEntry = { id: randomUUID(), time: new Date().toISOString(), ...entry };
+  try {
+    mkdirSync(dirname(AUDIT_LOG_PATH), { recursive: true });
+    appendFileDurable(AUDIT_LOG_PATH, JSON.stringify(record) + '\n');
+  } catch (error) {
+    console.error('[AuditLog] 写入审计日志失败:', error);
+  }
+}
+
+/**
+ * 读取全部审计记录（按写入顺序，跳过无法解析的行）
+ */
+function readAuditLog(): AuditEntry[] {
+  if (!existsSync(AUDIT_LOG_PATH)) return [];
+
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(AUDIT_LOG_PATH, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // 写入中断留下的半行
+    }
+  }
+  return entries;
+}
+
+/**
+ * 将时间统一为记录使用的 ISO 格式（含毫秒），无法解析时原样返回
+ * 例如 2025-01-01T00:00:00Z 与 2025-01-01T00:00:00.000Z 按字符串比较时顺序不同
+ */
+function normalizeTime(time: string | undefined): string | undefined {
+  if (!time) return undefined;
+  const parsed = new Date(time);
+  return Number.isNaN(parsed.getTime()) ? time : parsed.toISOString();
+}
+
+/**
+ * 查询审计日志
+ * @param filter 筛选条件，时间统一为 ISO 格式后按字符串比较
+ */
+export function queryAudit(filter: AuditFilter = {}): AuditQueryResult {
+  const entries = readAuditLog();
+  const since = normalizeTime(filter.since);
+  const until = normalizeTime(filter.until);
+  const matched = entries.filter(entry =>
+    (!filter.actor || entry.actor === filter.actor) &&
+    (!filter.action || entry.action === filter.action) &&
+    (!filter.userId || entry.userId === filter.userId) &&
+    (filter.success === undefined || entry.success === filter.success) &&
+    (!since || entry.time >= since) &&
+    (!until || entry.time <= until)
+  ).reverse();
+
+  const offset = Math.max(0, filter.offset || 0);
+  const limit = Math.max(1, Math.min(filter.limit || 50, 500));
+  return {
+    total: matched.length,
+    items: matched.slice(offset, offset + limit),
+    actors: Array.from(new Set(entries.map(e => e.actor))).sort(),
+    actions: Array.from(new Set(entries.map(e => e.action))).sort(),
+  };
+}
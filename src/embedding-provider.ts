@@ -0,0 +1,202 @@
+import { OllamaEmbeddingProvider } from './ollama-client.js';
+import { OpenAIEmbeddingProvider } from './openai-embedding.js';
+import { HashEmbeddingProvider } from './hash-embedding.js';
+import { CircuitBreaker, withRetry, withTimeout, isTransientError, type CircuitState } from './resilience.js';
+
+/**
+ * 向量嵌入提供方
+ */
+export interface EmbeddingProvider {
+  /** 提供方名称: ollama / openai / hash */
+  readonly name: string;
+  /** 模型名称 */
+  readonly model: string;
+  /** 服务地址（本地提供方为 undefined） */
+  readonly host?: string;
+  /**
+   * 生成文本的向量嵌入
+   * @param text 要生成嵌入的文本
+   * @returns 向量数组
+   */
+  embed(text: string): Promise<number[]>;
+  /**
+   * 批量生成向量嵌入，一次请求处理多条文本
+   * @param texts 要生成嵌入的文本列表
+   * @returns 与输入顺序一致的向量数组
+   */
+  embedBatch(texts: string[]): Promise<number[][]>;
+  /**
+   * 检查服务是否可用
+   */
+  health(): Promise<boolean>;
+}
+
+/**
+ * 嵌入提供方类型，通过 EMBEDDING_PROVIDER 环境变量选择
+ */
+const EMBEDDING_PROVIDER = (process.env.EMBEDDING_PROVIDER || 'ollama').toLowerCase();
+
+/**
+ * 单次调用超时、重试和熔断配置
+ */
+const EMBEDDING_TIMEOUT = parseInt(process.env.EMBEDDING_TIMEOUT || '30000', 10);
+const EMBEDDING_RETRIES = parseInt(process.env.EMBEDDING_RETRIES || '2', 10);
+const EMBEDDING_RETRY_DELAY = parseInt(process.env.EMBEDDING_RETRY_DELAY || '500', 10);
+const CIRCUIT_BREAKER_THRESHOLD = parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '3', 10);
+const CIRCUIT_BREAKER_COOLDOWN = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN || '30000', 10);
+
+/**
+ * 批量生成向量时每次请求包含的文本数量
+ */
+const EMBEDDING_BATCH_SIZE = parseInt(process.env.EMBEDDING_BATCH_SIZE || '32', 10);
+
+/**
+ * 根据配置创建嵌入提供方
+ */
+function createProvider(): EmbeddingProvider {
+  switch (EMBEDDING_PROVIDER) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider();
+    case 'openai':
+      return new OpenAIEmbeddingProvider();
+    case 'hash':
+      return new HashEmbeddingProvider();
+    default:
+      throw new Error(`未知的嵌入提供方: ${EMBEDDING_PROVIDER}（可选: ollama、openai、hash）`);
+  }
+}
+
+/**
+ * 当前嵌入提供方实例
+ */
+const provider = createProvider();
+
+/**
+ * 嵌入服务熔断器（只有暂时性错误计入失败次数）
+ */
+const breaker = new CircuitBreaker(`嵌入服务 ${provider.name}`, CIRCUIT_BREAKER_THRESHOLD, CIRCUIT_BREAKER_COOLDOWN, isTransientError);
+
+/**
+ * 最近一次成功生成的向量维度（首次需要时探测）
+ */
+let embeddingDimension: number | undefined;
+
+/**
+ * 嵌入服务暂时不可用时抛出的错误（熔断中，或超时、网络错误、429、5xx 重试后仍失败）
+ * 调用方可据此将记忆标记为待生成向量，而不是直接失败
+ * 配置错误（模型不存在、密钥无效、请求被拒绝等）不会转换为此错误，原样抛给调用方
+ */
+export class EmbeddingUnavailableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'EmbeddingUnavailableError';
+  }
+}
+
+/**
+ * 暂时性错误转换为 EmbeddingUnavailableError，其他错误原样返回
+ */
+function classifyError(error: unknown): unknown {
+  return isTransientError(error) ? new EmbeddingUnavailableError((error as Error).message, { cause: error }) : error;
+}
+
+/**
+ * 生成文本的向量嵌入
+ * 每次调用带超时，暂时性错误按指数退避重试，连续失败后熔断
+ * @param text 要生成嵌入的文本
+ * @returns 向量数组
+ */
+export async function generateEmbedding(text: string): Promise<number[]> {
+  try {
+    const embedding = await breaker.execute(() =>
+      withRetry(
+        () => withTimeout(provider.embed(text), EMBEDDING_TIMEOUT, `${provider.name} embedding 请求超时`),
+        EMBEDDING_RETRIES,
+        EMBEDDING_RETRY_DELAY,
+        isTransientError
+      )
+    );
+    embeddingDimension = embedding.length;
+    return embedding;
+  } catch (error) {
+    throw classifyError(error);
+  }
+}
+
+/**
+ * 批量生成向量嵌入
+ * 按 EMBEDDING_BATCH_SIZE 分批请求，每批独立计算超时、重试和熔断
+ * @param texts 要生成嵌入的文本列表
+ * @returns 与输入顺序一致的向量数组
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+    try {
+      const vectors = await breaker.execute(() =>
+        withRetry(
+          () => withTimeout(provider.embedBatch(batch), EMBEDDING_TIMEOUT, `${provider.name} 批量 embedding 请求超时`),
+          EMBEDDING_RETRIES,
+          EMBEDDING_RETRY_DELAY,
+          isTransientError
+        )
+      );
+      if (vectors.length > 0) {
+        embeddingDimension = vectors[0].length;
+      }
+      embeddings.push(...vectors);
+    } catch (error) {
+      throw classifyError(error);
+    }
+  }
+
+  return embeddings;
+}
+
+/**
+ * 获取当前模型生成的向量维度
+ * 尚未生成过向量时生成一次探测向量
+ * @returns 向量维度，嵌入服务不可用时返回 undefined
+ */
+export async function getEmbeddingDimension(): Promise<number | undefined> {
+  if (embeddingDimension === undefined) {
+    try {
+      await generateEmbedding('dimension');
+    } catch (error) {
+      if (!(error instanceof EmbeddingUnavailableError)) throw error;
+      return undefined;
+    }
+  }
+  return embeddingDimension;
+}
+
+/**
+ * 获取嵌入服务熔断器状态
+ */
+export function getEmbeddingCircuitState(): CircuitState {
+  return breaker.getState();
+}
+
+/**
+ * 检查嵌入服务是否可用
+ * @returns 是否可用
+ */
+export async function checkEmbeddingHealth(): Promise<boolean> {
+  return provider.health();
+}
+
+/**
+ * 获取当前使用的模型名称
+ */
+export function getEmbeddingModel(): string {
+  return provider.model;
+}
+
+/**
+ * 获取当前嵌入提供方
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return provider;
+}
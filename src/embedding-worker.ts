@@ -0,0 +1,82 @@
+import { memoryStore } from './memory-store.js';
+import { generateEmbeddings, getEmbeddingModel, getEmbeddingCircuitState, EmbeddingUnavailableError } from './embedding-provider.js';
+import { getReindexJob } from './reindex.js';
+
+/**
+ * 后台补齐向量的检查间隔（毫秒）
+ */
+const EMBEDDING_WORKER_INTERVAL = parseInt(process.env.EMBEDDING_WORKER_INTERVAL || '15000', 10);
+
+/**
+ * 每批通过一次批量请求生成向量后写入一次
+ */
+const WORKER_BATCH_SIZE = 20;
+
+/** 是否正在处理 */
+let running = false;
+/** 定时器 */
+let timer: NodeJS.Timeout | undefined;
+
+/**
+ * 为等待补齐向量的记忆生成向量
+ * 嵌入服务仍不可用时本轮结束，等待下次检查
+ * @returns 本轮补齐的数量
+ */
+export async function processPendingEmbeddings(): Promise<number> {
+  // 熔断中或重新索引任务运行时（会一并处理缺失的向量）跳过本轮
+  if (running || getEmbeddingCircuitState() === 'open' || getReindexJob()?.status === 'running') {
+    return 0;
+  }
+
+  running = true;
+  let processed = 0;
+
+  try {
+    for (const userId of memoryStore.getUsers()) {
+      const pending = memoryStore.getPendingEmbeddings(userId);
+
+      for (let i = 0; i < pending.length; i += WORKER_BATCH_SIZE) {
+        const batch = pending.slice(i, i + WORKER_BATCH_SIZE);
+        const model = getEmbeddingModel();
+        const embeddings = await generateEmbeddings(batch.map(item => item.text));
+        processed += await memoryStore.applyEmbeddings(
+          userId,
+          batch.map((item, index) => ({ ...item, embedding: embeddings[index] })),
+          model
+        );
+      }
+    }
+  } catch (error) {
+    if (error instanceof EmbeddingUnavailableError) {
+      console.error(`[EmbeddingWorker] 嵌入服务仍不可用，稍后重试: ${error.message}`);
+    } else {
+      console.error(`[EmbeddingWorker] 嵌入服务返回错误，请检查模型和 API Key 配置，稍后重试: ${(error as Error).message}`);
+    }
+  } finally {
+    running = false;
+  }
+
+  if (processed > 0) {
+    console.error(`[EmbeddingWorker] 已补齐 ${processed} 条记忆的向量`);
+  }
+  return processed;
+}
+
+/**
+ * 启动后台补齐向量任务（重复调用无副作用）
+ */
+export function startEmbeddingWorker(): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    processPendingEmbeddings().catch(error => {
+      console.error('[EmbeddingWorker] 处理失败:', error);
+    });
+  }, EMBEDDING_WORKER_INTERVAL);
+  timer.unref();
+
+  // 启动时立即处理上次遗留的记忆
+  processPendingEmbeddings().catch(error => {
+    console.error('[EmbeddingWorker] 处理失败:', error);
+  });
+}
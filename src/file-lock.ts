@@ -0,0 +1,204 @@
+import { openSync, writeSync, closeSync, readFileSync, unlinkSync, statSync, utimesSync } from 'fs';
+import { hostname } from 'os';
+
+/**
+ * 等待文件锁的超时时间(ms)
+ */
+const FILE_LOCK_TIMEOUT = parseInt(process.env.FILE_LOCK_TIMEOUT || '10000', 10);
+
+/**
+ * 锁文件超过此时间(ms)未刷新修改时间视为持有者已失效（用于无法检查进程的其他主机）
+ * 持有者每隔三分之一的时间刷新一次修改时间（心跳）
+ */
+const FILE_LOCK_STALE = parseInt(process.env.FILE_LOCK_STALE || '30000', 10);
+
+/**
+ * 心跳间隔(ms)
+ */
+const HEARTBEAT_INTERVAL = Math.max(1000, Math.floor(FILE_LOCK_STALE / 3));
+
+/**
+ * 获取锁失败后的重试间隔(ms)
+ */
+const RETRY_INTERVAL = 20;
+
+/**
+ * 锁文件内容
+ */
+interface LockInfo {
+  pid: number;
+  host: string;
+  acquiredAt: number;
+}
+
+/**
+ * 获取文件锁超时
+ */
+export class FileLockTimeoutError extends Error {
+  constructor(lockPath: string, holder?: LockInfo) {
+    const detail = holder ? `（持有者: ${holder.host} 进程 ${holder.pid}）` : '';
+    super(`等待文件锁 ${lockPath} 超时${detail}`);
+    this.name = 'FileLockTimeoutError';
+  }
+}
+
+/**
+ * 读取锁文件，内容不完整（持有者正在写入）时返回 undefined
+ */
+function readLockInfo(lockPath: string): LockInfo | undefined {
+  try {
+    return JSON.parse(readFileSync(lockPath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 判断锁的持有者是否已失效
+ * 同一主机上只在持有进程已退出时失效（持有时间再长也不抢占）；
+ * 其他主机无法检查进程，按锁文件的修改时间判断持有者是否停止了心跳
+ */
+function isStale(lockPath: string, info: LockInfo): boolean {
+  if (info.host !== hostname()) {
+    return Date.now() - statSync(lockPath).mtimeMs > FILE_LOCK_STALE;
+  }
+  try {
+    process.kill(info.pid, 0);
+    return false;
+  } catch (error) {
+    // EPERM 表示进程存在但属于其他用户
+    return (error as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
+
+/**
+ * 锁文件是否仍由当前进程的这次加锁持有
+ */
+function isOwnLock(info: LockInfo | undefined, acquiredAt: number): boolean {
+  return info !== undefined && info.pid === process.pid && info.host === hostname() && info.acquiredAt === acquiredAt;
+}
+
+/**
+ * 尝试创建锁文件（O_EXCL，已存在时失败），清理已失效的锁
+ * @returns 获得锁时返回写入的加锁时间，否则返回 undefined
+ */
+function tryLock(lockPath: string): number | undefined {
+  try {
+    const fd = openSync(lockPath, 'wx');
+    const info: LockInfo = { pid: process.pid, host: hostname(), acquiredAt: Date.now() };
+    try {
+      writeSync(fd, JSON.stringify(info));
+    } finally {
+      closeSync(fd);
+    }
+    return info.acquiredAt;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+  }
+
+  try {
+    const info = readLockInfo(lockPath);
+    if (!info) {
+      // 持有者在写入内容前崩溃会留下空文件，按修改时间判断
+      if (Date.now() - statSync(lockPath).mtimeMs > FILE_LOCK_STALE) {
+        unlinkSync(lockPath);
+      }
+    } else if (isStale(lockPath, info)) {
+      // 删除前再确认一次，避免误删其他进程刚创建的新锁
+      const current = readLockInfo(lockPath);
+      if (current && current.pid === info.pid && current.acquiredAt === info.acquiredAt) {
+        console.error(`[FileLock] 清理失效的锁 ${lockPath}（${info.host} 进程 ${info.pid}）`);
+        unlinkSync(lockPath);
+      }
+    }
+  } catch {
+    // 锁文件已被释放或已被其他进程清理
+  }
+  return undefined;
+}
+
+/**
+ * 生成释放函数：只删除自己持有的锁文件
+ * @param acquiredAt 加锁时写入的时间，用于确认锁文件仍属于这次加锁
+ * @param heartbeat 心跳定时器，释放时停止
+ */
+function releaser(lockPath: string, acquiredAt: number, heartbeat?: NodeJS.Timeout): () => void {
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    clearInterval(heartbeat);
+    if (isOwnLock(readLockInfo(lockPath), acquiredAt)) {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // 锁文件已被当作失效锁清理
+      }
+    }
+  };
+}
+
+/**
+ * 持有锁期间定期刷新锁文件的修改时间，其他主机据此判断持有者仍然存活
+ */
+function startHeartbeat(lockPath: string, acquiredAt: number): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    try {
+      if (!isOwnLock(readLockInfo(lockPath), acquiredAt)) {
+        clearInterval(timer);
+        return;
+      }
+      const now = new Date();
+      utimesSync(lockPath, now, now);
+    } catch (error) {
+      console.error(`[FileLock] 刷新锁 ${lockPath} 失败:`, error);
+    }
+  }, HEARTBEAT_INTERVAL);
+  timer.unref();
+  return timer;
+}
+
+/**
+ * 获取跨进程的建议性文件锁（轮询等待，不阻塞事件循环）
+ * 只对同样使用此锁的进程有效，用于 STDIO 进程与 SSE 进程共用数据目录的场景
+ * @param lockPath 锁文件路径
+ * @param timeoutMs 最长等待时间
+ * @returns 释放函数
+ * @throws FileLockTimeoutError 超时仍未获得锁
+ */
+export async function acquireFileLock(lockPath: string, timeoutMs: number = FILE_LOCK_TIMEOUT): Promise<() => void> {
+  const deadline = Date.now() + timeoutMs;
+  let acquiredAt: number | undefined;
+  while ((acquiredAt = tryLock(lockPath)) === undefined) {
+    if (Date.now() >= deadline) {
+      throw new FileLockTimeoutError(lockPath, readLockInfo(lockPath));
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_INTERVAL));
+  }
+  return releaser(lockPath, acquiredAt, startHeartbeat(lockPath, acquiredAt));
+}
+
+/**
+ * 在文件锁内同步执行（等待时阻塞线程，只用于持有时间很短的锁，如注册表）
+ * 持有期间事件循环被阻塞，不发送心跳，fn 的执行时间应远小于 FILE_LOCK_STALE
+ * @param lockPath 锁文件路径
+ * @param fn 持有锁期间执行的函数
+ */
+export function withFileLockSync<T>(lockPath: string, fn: () => T): T {
+  const deadline = Date.now() + FILE_LOCK_TIMEOUT;
+  const sleeper = new Int32Array(new SharedArrayBuffer(4));
+  let acquiredAt: number | undefined;
+  while ((acquiredAt = tryLock(lockPath)) === undefined) {
+    if (Date.now() >= deadline) {
+      throw new FileLockTimeoutError(lockPath, readLockInfo(lockPath));
+    }
+    Atomics.wait(sleeper, 0, 0, RETRY_INTERVAL);
+  }
+
+  const release = releaser(lockPath, acquiredAt);
+  try {
+    return fn();
+  } finally {
+    release();
+  }
+}
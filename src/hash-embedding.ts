@@ -0,0 +1,54 @@
+import { createHash } from 'crypto';
+import type { EmbeddingProvider } from './embedding-provider.js';
+import { tokenize } from './keyword-search.js';
+
+/**
+ * 哈希向量维度，默认与 BGE-M3 一致
+ */
+const HASH_EMBEDDING_DIM = parseInt(process.env.HASH_EMBEDDING_DIM || '1024', 10);
+
+/**
+ * 确定性哈希嵌入提供方
+ * 使用特征哈希 (feature hashing) 将分词结果映射到固定维度的向量，无需任何模型或网络。
+ * 相同文本总是得到相同向量，词元重合越多的文本相似度越高，适用于测试和离线演示，
+ * 但不具备真正的语义理解能力。
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash';
+  readonly model = `hash-${HASH_EMBEDDING_DIM}`;
+
+  /**
+   * 生成文本的向量嵌入
+   * @param text 要生成嵌入的文本
+   * @returns L2 归一化后的向量
+   */
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(HASH_EMBEDDING_DIM).fill(0);
+
+    for (const token of tokenize(text)) {
+      // 取哈希的前 4 字节决定维度，第 5 字节决定符号，减少碰撞带来的偏差
+      const digest = createHash('md5').update(token).digest();
+      const index = digest.readUInt32LE(0) % HASH_EMBEDDING_DIM;
+      vector[index] += digest[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+
+  /**
+   * 批量生成向量嵌入
+   * @param texts 要生成嵌入的文本列表
+   * @returns 与输入顺序一致的向量数组
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+
+  /**
+   * 本地计算，始终可用
+   */
+  async health(): Promise<boolean> {
+    return true;
+  }
+}
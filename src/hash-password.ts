@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+
+/**
+ * 生成管理平台密码的加盐哈希，输出结果用作 ADMIN_PASSWORD_HASH
+ *
+ * 用法: node dist/hash-password.js [password]
+ * - 不传参数时从标准输入读取密码（避免密码留在命令历史中），如 echo -n 'secret' | node dist/hash-password.js
+ */
+import { readFileSync } from 'fs';
+import { hashPassword } from './admin-auth.js';
+
+function main(): void {
+  const password = process.argv[2] ?? readFileSync(0, 'utf-8').replace(/\r?\n$/, '');
+  if (!password) {
+    console.error('[HashPassword] 密码不能为空');
+    process.exit(1);
+  }
+  console.log(hashPassword(password));
+}
+
+main();
@@ -0,0 +1,521 @@
+/**
+ * HNSW 近似最近邻索引（余弦相似度）
+ * 参考 Malkov & Yashunin, "Efficient and robust approximate nearest neighbor search
+ * using Hierarchical Navigable Small World graphs"
+ *
+ * 向量在加入时归一化，相似度即点积。删除采用标记删除：节点仍参与图遍历以保持连通性，
+ * 但不会出现在结果中；标记删除比例过高时应由调用方重建索引。快照只包含有效节点，
+ * 有标记删除的索引需先通过 compact 重建再导出。
+ */
+
+/**
+ * 索引参数
+ */
+export interface HnswOptions {
+  /** 每层每个节点的最大邻居数（第 0 层为 2M） */
+  m?: number;
+  /** 构建时的候选集大小 */
+  efConstruction?: number;
+  /** 搜索时的默认候选集大小 */
+  efSearch?: number;
+}
+
+/**
+ * 近邻搜索结果
+ */
+export interface AnnHit {
+  /** 记忆ID */
+  id: string;
+  /** 余弦相似度 */
+  score: number;
+}
+
+/**
+ * 持久化快照（不含向量，向量从记忆数据中恢复）
+ */
+export interface HnswSnapshot {
+  version: number;
+  m: number;
+  efConstruction: number;
+  dimension: number;
+  entryPoint: number;
+  maxLevel: number;
+  /** 索引时的记忆签名（ID、模型和向量校验和），用于判断快照是否过期 */
+  signature: string;
+  ids: string[];
+  levels: number[];
+  neighbors: number[][][];
+}
+
+/**
+ * 快照版本
+ * - 1: 包含标记删除的节点（恢复为零向量后仍参与路由，影响召回率）
+ * - 2: 只包含有效节点，签名包含模型和向量校验和
+ */
+const SNAPSHOT_VERSION = 2;
+
+/**
+ * 参与签名计算的记忆字段
+ */
+export interface SignatureItem {
+  id: string;
+  embeddingModel?: string;
+  embedding: ArrayLike<number>;
+}
+
+/**
+ * 二叉堆
+ */
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  /**
+   * @param higher 返回 true 表示 a 应位于 b 之上
+   */
+  constructor(private readonly higher: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.higher(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.higher(items[left], items[best])) best = left;
+        if (right < items.length && this.higher(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+/**
+ * 候选节点: [节点下标, 与查询的相似度]
+ */
+type Candidate = [number, number];
+
+/**
+ * 归一化向量
+ */
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) return result;
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i] / norm;
+  }
+  return result;
+}
+
+/**
+ * 点积
+ */
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * FNV-1a 哈希，追加到已有的哈希值上
+ */
+function fnv1a(hash: number, value: string | Uint32Array): number {
+  if (typeof value === 'string') {
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+  } else {
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value[i];
+      hash = Math.imul(hash, 16777619);
+    }
+  }
+  return hash;
+}
+
+/**
+ * 计算记忆集合的签名
+ * 包含ID、嵌入模型和向量校验和，重新生成向量（如切换模型后重新索引）时签名随之变化；
+ * 与顺序无关，用于判断持久化的索引是否与当前数据一致
+ */
+export function computeSignature(items: Iterable<SignatureItem>): string {
+  let count = 0;
+  let hash = 0;
+  for (const item of items) {
+    const vector = item.embedding instanceof Float32Array ? item.embedding : Float32Array.from(item.embedding);
+    let h = fnv1a(2166136261, `${item.id}\0${item.embeddingModel ?? ''}\0`);
+    h = fnv1a(h, new Uint32Array(vector.buffer, vector.byteOffset, vector.length));
+    hash = (hash + (h >>> 0)) % 4294967296;
+    count++;
+  }
+  return `${count}:${hash.toString(16)}`;
+}
+
+/**
+ * HNSW 索引
+ */
+export class HnswIndex {
+  private readonly m: number;
+  private readonly mMax0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMult: number;
+
+  private ids: string[] = [];
+  private vectors: Float32Array[] = [];
+  private levels: number[] = [];
+  /** neighbors[节点][层] = 邻居节点下标 */
+  private neighbors: number[][][] = [];
+  private idToIndex: Map<string, number> = new Map();
+  private deleted: Set<number> = new Set();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private dim = 0;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? 16;
+    this.mMax0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMult = 1 / Math.log(this.m);
+  }
+
+  /**
+   * 有效（未删除）节点数量
+   */
+  get size(): number {
+    return this.idToIndex.size;
+  }
+
+  /**
+   * 向量维度（空索引为 0）
+   */
+  get dimension(): number {
+    return this.dim;
+  }
+
+  /**
+   * 标记删除节点占全部节点的比例
+   */
+  get deletedRatio(): number {
+    return this.ids.length === 0 ? 0 : this.deleted.size / this.ids.length;
+  }
+
+  /**
+   * 是否包含指定ID
+   */
+  has(id: string): boolean {
+    return this.idToIndex.has(id);
+  }
+
+  /**
+   * 添加向量，ID 已存在时替换
+   * @param id 记忆ID
+   * @param vector 向量
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    if (this.dim === 0) {
+      this.dim = vector.length;
+    } else if (vector.length !== this.dim) {
+      throw new Error(`向量维度不匹配: ${vector.length} vs ${this.dim}`);
+    }
+
+    this.remove(id);
+
+    const node = this.ids.length;
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMult);
+    const vec = normalize(vector);
+
+    this.ids.push(id);
+    this.vectors.push(vec);
+    this.levels.push(level);
+    this.neighbors.push(Array.from({ length: level + 1 }, () => []));
+    this.idToIndex.set(id, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let current = this.entryPoint;
+    let currentSim = dot(vec, this.vectors[current]);
+
+    // 高层贪心下降到新节点所在的最高层
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      [current, currentSim] = this.greedySearch(vec, current, currentSim, layer);
+    }
+
+    let entries: Candidate[] = [[current, currentSim]];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(vec, entries, this.efConstruction, layer);
+      const maxConn = layer === 0 ? this.mMax0 : this.m;
+      const selected = this.selectNeighbors(found, this.m);
+      this.neighbors[node][layer] = selected.map(([n]) => n);
+
+      // 建立双向连接，超出上限时对邻居重新裁剪
+      for (const [neighbor] of selected) {
+        const list = this.neighbors[neighbor][layer];
+        list.push(node);
+        if (list.length > maxConn) {
+          const base = this.vectors[neighbor];
+          const candidates: Candidate[] = list.map(n => [n, dot(base, this.vectors[n])]);
+          this.neighbors[neighbor][layer] = this.selectNeighbors(candidates, maxConn).map(([n]) => n);
+        }
+      }
+
+      entries = found;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = node;
+    }
+  }
+
+  /**
+   * 标记删除
+   * @param id 记忆ID
+   */
+  remove(id: string): void {
+    const node = this.idToIndex.get(id);
+    if (node === undefined) return;
+    this.idToIndex.delete(id);
+    this.deleted.add(node);
+  }
+
+  /**
+   * 搜索最相似的向量
+   * @param query 查询向量
+   * @param k 返回数量
+   * @param ef 候选集大小，越大召回率越高、速度越慢
+   * @returns 按相似度降序排列的结果
+   */
+  search(query: ArrayLike<number>, k: number, ef: number = this.efSearch): AnnHit[] {
+    if (this.entryPoint === -1 || this.idToIndex.size === 0) {
+      return [];
+    }
+    if (query.length !== this.dim) {
+      throw new Error(`向量维度不匹配: ${query.length} vs ${this.dim}`);
+    }
+
+    const vec = normalize(query);
+    let current = this.entryPoint;
+    let currentSim = dot(vec, this.vectors[current]);
+
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      [current, currentSim] = this.greedySearch(vec, current, currentSim, layer);
+    }
+
+    // 标记删除的节点会占用候选位置，按比例放大 ef
+    const effectiveEf = Math.ceil(Math.max(ef, k) / (1 - Math.min(this.deletedRatio, 0.9)));
+    const found = this.searchLayer(vec, [[current, currentSim]], effectiveEf, 0);
+
+    return found
+      .filter(([n]) => !this.deleted.has(n))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k)
+      .map(([n, score]) => ({ id: this.ids[n], score }));
+  }
+
+  /**
+   * 重建只包含有效节点的索引，清除标记删除的节点
+   * @returns 新索引（参数与原索引相同）
+   */
+  compact(): HnswIndex {
+    const index = new HnswIndex({ m: this.m, efConstruction: this.efConstruction, efSearch: this.efSearch });
+    for (const [id, node] of this.idToIndex) {
+      index.add(id, this.vectors[node]);
+    }
+    return index;
+  }
+
+  /**
+   * 导出快照
+   * @param signature 当前记忆签名
+   * @throws 存在标记删除的节点时抛出错误（先调用 compact）
+   */
+  toSnapshot(signature: string): HnswSnapshot {
+    if (this.deleted.size > 0) {
+      throw new Error(`索引中有 ${this.deleted.size} 个标记删除的节点，导出前需先重建`);
+    }
+    return {
+      version: SNAPSHOT_VERSION,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      dimension: this.dim,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      signature,
+      ids: this.ids,
+      levels: this.levels,
+      neighbors: this.neighbors
+    };
+  }
+
+  /**
+   * 从快照恢复索引
+   * @param snapshot 快照
+   * @param getVector 根据ID获取向量，返回 undefined 时视为快照不可用
+   * @param options 搜索参数
+   * @returns 恢复的索引，快照无效（包括旧版本）时返回 undefined
+   */
+  static fromSnapshot(
+    snapshot: HnswSnapshot,
+    getVector: (id: string) => ArrayLike<number> | undefined,
+    options: HnswOptions = {}
+  ): HnswIndex | undefined {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      return undefined;
+    }
+
+    const index = new HnswIndex({ ...options, m: snapshot.m, efConstruction: snapshot.efConstruction });
+
+    for (let node = 0; node < snapshot.ids.length; node++) {
+      const id = snapshot.ids[node];
+      const vector = getVector(id);
+      if (!vector || vector.length !== snapshot.dimension) {
+        return undefined;
+      }
+      index.vectors.push(normalize(vector));
+      index.idToIndex.set(id, node);
+    }
+
+    index.ids = snapshot.ids;
+    index.levels = snapshot.levels;
+    index.neighbors = snapshot.neighbors;
+    index.entryPoint = snapshot.entryPoint;
+    index.maxLevel = snapshot.maxLevel;
+    index.dim = snapshot.dimension;
+    return index;
+  }
+
+  /**
+   * 在单层内贪心移动到最相似的节点
+   */
+  private greedySearch(vec: Float32Array, start: number, startSim: number, layer: number): Candidate {
+    let current = start;
+    let currentSim = startSim;
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      for (const neighbor of this.neighbors[current][layer] || []) {
+        const sim = dot(vec, this.vectors[neighbor]);
+        if (sim > currentSim) {
+          current = neighbor;
+          currentSim = sim;
+          changed = true;
+        }
+      }
+    }
+
+    return [current, currentSim];
+  }
+
+  /**
+   * 单层束搜索
+   * @returns 最多 ef 个候选（无序）
+   */
+  private searchLayer(vec: Float32Array, entries: Candidate[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<number>(entries.map(([n]) => n));
+    // 待扩展队列：相似度高的先出
+    const candidates = new BinaryHeap<Candidate>((a, b) => a[1] > b[1]);
+    // 当前结果：相似度低的在堆顶，便于淘汰
+    const results = new BinaryHeap<Candidate>((a, b) => a[1] < b[1]);
+
+    for (const entry of entries) {
+      candidates.push(entry);
+      results.push(entry);
+    }
+    while (results.size > ef) results.pop();
+
+    while (candidates.size > 0) {
+      const [node, sim] = candidates.pop()!;
+      const worst = results.peek()!;
+      if (sim < worst[1] && results.size >= ef) break;
+
+      for (const neighbor of this.neighbors[node][layer] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const neighborSim = dot(vec, this.vectors[neighbor]);
+        if (results.size < ef || neighborSim > results.peek()![1]) {
+          candidates.push([neighbor, neighborSim]);
+          results.push([neighbor, neighborSim]);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray();
+  }
+
+  /**
+   * 启发式邻居选择
+   * 仅当候选与基准点的相似度高于其与所有已选邻居的相似度时才选入，
+   * 使邻居分布在不同方向上，提高聚簇数据上的召回率；不足时用剩余候选补齐
+   */
+  private selectNeighbors(candidates: Candidate[], max: number): Candidate[] {
+    const sorted = [...candidates].sort((a, b) => b[1] - a[1]);
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= max) break;
+      const vec = this.vectors[candidate[0]];
+      const diverse = selected.every(([s]) => dot(vec, this.vectors[s]) < candidate[1]);
+      if (diverse) {
+        selected.push(candidate);
+      } else {
+        pruned.push(candidate);
+      }
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+}
@@ -9,12 +9,25 @@ import {
   type CallToolRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import http from 'http';
+import { randomBytes } from 'crypto';
 
-import { memoryStore } from './memory-store.js';
-import { checkOllamaHealth, getOllamaHost, getEmbeddingModel } from './ollama-client.js';
+import { memoryStore, parseSearchMode, getDefaultSearchMode, isBlankText } from './memory-store.js';
+import { checkEmbeddingHealth, getEmbeddingProvider } from './embedding-provider.js';
 import { logCall, startTimer } from './logger.js';
 import { startAdminServer } from './admin.js';
-import type { AddMemoryParams, SearchMemoryParams, DeleteMemoryParams } from './types.js';
+import { startEmbeddingWorker } from './embedding-worker.js';
+import { startTrashPurger } from './trash-purger.js';
+import { apiTokens, type ApiToken, type ApiTokenScope } from './api-tokens.js';
+import { toolRateLimiter, RateLimitError } from './rate-limiter.js';
+import type {
+  AddMemoryParams,
+  AddMessagesParams,
+  SearchMemoryParams,
+  ListMemoryParams,
+  GetMemoryParams,
+  UpdateMemoryParams,
+  DeleteMemoryParams,
+} from './types.js';
 
 /**
  * 解析命令行参数
@@ -45,6 +58,25 @@ const parsedArgs = parseArgs();
  */
 const GLOBAL_DEFAULT_USER_ID = parsedArgs.userId || process.env.DEFAULT_USER_ID || '';
 
+/**
+ * SSE 连接是否必须携带 API 令牌（关闭后按旧方式从 URL 读取 userId，任何人都可访问任意用户）
+ */
+const SSE_AUTH_REQUIRED = process.env.SSE_AUTH_REQUIRED !== 'false';
+
+/**
+ * 各工具需要的令牌权限
+ */
+const TOOL_SCOPES: Record<string, ApiTokenScope> = {
+  add_message: 'write',
+  add_messages: 'write',
+  search_message: 'read',
+  list_messages: 'read',
+  get_message: 'read',
+  get_message_history: 'read',
+  update_message: 'write',
+  delete_message: 'delete',
+};
+
 /**
  * 创建获取有效用户ID的函数
  * @param sessionUserId 会话级别的用户ID（SSE 模式通过 URL 参数传入）
@@ -78,8 +110,10 @@ function getUserIdDescription(sessionUserId?: string): string {
 /**
  * 创建 MCP 服务器实例
  * @param sessionUserId 会话级别的用户ID
+ * @param actor 操作者标识（mcp:stdio 或 mcp:sse:{sessionId}），记录在删除的记忆上
+ * @param token 会话使用的 API 令牌，每次调用工具前检查用户和权限
  */
-function createServer(sessionUserId?: string): Server {
+function createServer(sessionUserId: string | undefined, actor: string, token?: ApiToken): Server {
   const server = new Server(
     {
       name: 'my-mem-mcp',
@@ -119,13 +153,65 @@ function createServer(sessionUserId?: string): Server {
                 type: 'string',
                 description: '答案内容',
               },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: '标签列表（可选），用于分类和过滤，如 ["project-a", "bug"]',
+              },
+              metadata: {
+                type: 'object',
+                additionalProperties: { type: ['string', 'number', 'boolean'] },
+                description: '元数据键值对（可选），如 {"source": "cursor", "project": "my-repo", "language": "zh"}',
+              },
             },
             required: ['question', 'answer'],
           },
         },
+        {
+          name: 'add_messages',
+          description: '批量添加问答记忆。一次请求生成所有向量并只写入一次，适合导入大量记忆。返回每条记忆的添加结果，单条无效不影响其他记忆。',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userId: {
+                type: 'string',
+                description: userIdDescription,
+              },
+              items: {
+                type: 'array',
+                description: '要添加的记忆列表',
+                items: {
+                  type: 'object',
+                  properties: {
+                    question: {
+                      type: 'string',
+                      description: '问题内容',
+                    },
+                    answer: {
+                      type: 'string',
+                      description: '答案内容',
+                    },
+                    tags: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: '标签列表（可选）',
+                    },
+                    metadata: {
+                      type: 'object',
+                      additionalProperties: { type: ['string', 'number', 'boolean'] },
+                      description: '元数据键值对（可选）',
+                    },
+                  },
+                  required: ['question', 'answer'],
+                },
+              },
+            },
+            required: ['items'],
+          },
+        },
         {
           name: 'search_message',
-          description: '搜索相关记忆。使用语义搜索找到与查询最相关的问答记录。只搜索指定用户的数据。',
+          description: '搜索相关记忆。支持语义向量搜索、关键词搜索（适合错误码、函数名、工单号等精确标识符）以及两者融合的混合搜索。只搜索指定用户的数据。',
           inputSchema: {
             type: 'object',
             properties: {
@@ -141,13 +227,157 @@ function createServer(sessionUserId?: string): Server {
                 type: 'number',
                 description: '返回结果数量限制，默认为 5',
               },
+              mode: {
+                type: 'string',
+                enum: ['vector', 'keyword', 'hybrid'],
+                description: `搜索模式: vector（语义向量）、keyword（BM25 关键词）、hybrid（倒数排名融合），默认为 ${getDefaultSearchMode()}`,
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: '仅搜索包含全部这些标签的记忆',
+              },
+              anyTags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: '仅搜索至少包含其中一个标签的记忆',
+              },
+              metadata: {
+                type: 'object',
+                description: '元数据过滤条件，所有字段需同时满足。取值可为具体值（相等）或谓词对象: eq / in / gt / gte / lt / lte，如 {"project": "my-repo", "language": {"in": ["zh", "en"]}, "priority": {"gte": 2}}',
+              },
             },
             required: ['query'],
           },
         },
+        {
+          name: 'list_messages',
+          description: '列出已保存的记忆。支持分页（offset 或 cursor）、按创建/更新时间排序和文本包含过滤，用于在写入新记忆前审阅已有内容。只列出指定用户的数据。',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userId: {
+                type: 'string',
+                description: userIdDescription,
+              },
+              limit: {
+                type: 'number',
+                description: '每页数量，默认为 20，最大 100',
+              },
+              offset: {
+                type: 'number',
+                description: '偏移量，默认为 0。与 cursor 同时传入时以 cursor 为准',
+              },
+              cursor: {
+                type: 'string',
+                description: '分页游标，取上一页返回的 nextCursor',
+              },
+              sortBy: {
+                type: 'string',
+                enum: ['createdAt', 'updatedAt'],
+                description: '排序字段，默认为 createdAt',
+              },
+              order: {
+                type: 'string',
+                enum: ['asc', 'desc'],
+                description: '排序方向，默认为 desc（最新在前）',
+              },
+              contains: {
+                type: 'string',
+                description: '仅返回问题或答案中包含该文本的记忆（不区分大小写）',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: '仅返回包含全部这些标签的记忆',
+              },
+              anyTags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: '仅返回至少包含其中一个标签的记忆',
+              },
+              metadata: {
+                type: 'object',
+                description: '元数据过滤条件，所有字段需同时满足。取值可为具体值（相等）或谓词对象: eq / in / gt / gte / lt / lte，如 {"project": "my-repo", "language": {"in": ["zh", "en"]}, "priority": {"gte": 2}}',
+              },
+            },
+          },
+        },
+        {
+          name: 'get_message',
+          description: '根据 ID 获取一条记忆的完整内容。只能获取自己的数据。',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userId: {
+                type: 'string',
+                description: userIdDescription,
+              },
+              id: {
+                type: 'string',
+                description: '记忆 ID',
+              },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'get_message_history',
+          description: '获取一条记忆的修订历史。每次修改都会保存修改前的问题、答案、标签和元数据，以及修改时间和来源（MCP 会话或管理平台）。只能获取自己的数据。',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userId: {
+                type: 'string',
+                description: userIdDescription,
+              },
+              id: {
+                type: 'string',
+                description: '记忆 ID',
+              },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'update_message',
+          description: '更新指定的记忆。通过 ID 修改问题、答案、标签和/或元数据，内容变化时重新生成向量。ID 和创建时间保持不变。只能更新自己的数据。',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              userId: {
+                type: 'string',
+                description: userIdDescription,
+              },
+              id: {
+                type: 'string',
+                description: '要更新的记忆 ID',
+              },
+              question: {
+                type: 'string',
+                description: '新的问题内容（可选，不传则保持不变）',
+              },
+              answer: {
+                type: 'string',
+                description: '新的答案内容（可选，不传则保持不变）',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: '新的标签列表（可选，传入后整体替换原有标签）',
+              },
+              metadata: {
+                type: 'object',
+                additionalProperties: { type: ['string', 'number', 'boolean'] },
+                description: '新的元数据（可选，传入后整体替换原有元数据）',
+              },
+            },
+            required: ['id'],
+          },
+        },
         {
           name: 'delete_message',
-          description: '删除指定的记忆。通过 ID 删除一条记忆记录。只能删除自己的数据。',
+          description: '删除指定的记忆。通过 ID 将一条记忆移入回收站，不再出现在搜索和列表中，可在管理平台恢复。只能删除自己的数据。',
           inputSchema: {
             type: 'object',
             properties: {
@@ -163,7 +393,8 @@ function createServer(sessionUserId?: string): Server {
             required: ['id'],
           },
         },
-      ],
+      // 令牌会话只列出令牌权限内的工具
+      ].filter(tool => !token || token.scopes.includes(TOOL_SCOPES[tool.name])),
     };
   });
 
@@ -175,6 +406,48 @@ function createServer(sessionUserId?: string): Server {
     const timer = startTimer();
 
     try {
+      // 令牌会话：每次调用前检查令牌仍然有效，且允许以该工具所需的权限访问目标用户
+      const scope = TOOL_SCOPES[name];
+      const targetUserId = getEffectiveUserId((args as { userId?: string } | undefined)?.userId);
+      if (token && scope && targetUserId) {
+        const denied = apiTokens.authorize(token.id, targetUserId, scope);
+        if (denied) {
+          const errorResponse = {
+            content: [
+              {
+                type: 'text',
+                text: `错误：${denied}`,
+              },
+            ],
+            isError: true,
+          };
+          logCall(name, { ...args, userId: targetUserId, token: token.name }, errorResponse, timer(), false, denied);
+          return errorResponse;
+        }
+      }
+
+      // 按用户和会话限流，批量添加按条数消耗令牌
+      if (scope && targetUserId) {
+        const items = (args as { items?: unknown } | undefined)?.items;
+        try {
+          toolRateLimiter.consume(targetUserId, actor, name === 'add_messages' && Array.isArray(items) ? items.length : 1);
+        } catch (error) {
+          if (!(error instanceof RateLimitError)) throw error;
+          const errorResponse = {
+            content: [
+              {
+                type: 'text',
+                text: `错误：${error.message}`,
+              },
+            ],
+            isError: true,
+          };
+          // 被限流的调用只记录用户，避免频繁调用的内容撑大日志文件
+          logCall(name, { userId: targetUserId }, errorResponse, timer(), false, error.message);
+          return errorResponse;
+        }
+      }
+
       let result;
 
       switch (name) {
@@ -199,16 +472,20 @@ function createServer(sessionUserId?: string): Server {
           const memory = await memoryStore.add(
             userId,
             params.question,
-            params.answer
+            params.answer,
+            { tags: params.tags, metadata: params.metadata }
           );
 
           result = {
             success: true,
-            message: '记忆已添加',
+            message: memory.pendingEmbedding ? '记忆已保存，嵌入服务暂不可用，向量将在后台补齐' : '记忆已添加',
             id: memory.id,
             userId: memory.userId,
             question: memory.question,
             answer: memory.answer,
+            tags: memory.tags,
+            metadata: memory.metadata,
+            pendingEmbedding: memory.pendingEmbedding,
             createdAt: memory.createdAt,
           };
 
@@ -221,7 +498,54 @@ function createServer(sessionUserId?: string): Server {
             ],
           };
 
-          logCall(name, { userId, question: params.question, answer: params.answer }, result, timer(), true);
+          logCall(name, { userId, question: params.question, answer: params.answer, tags: params.tags, metadata: params.metadata }, result, timer(), true);
+          return response;
+        }
+
+        case 'add_messages': {
+          const params = args as unknown as AddMessagesParams;
+          const userId = getEffectiveUserId(params.userId);
+
+          if (!userId || !Array.isArray(params.items) || params.items.length === 0) {
+            const errorResponse = {
+              content: [
+                {
+                  type: 'text',
+                  text: '错误：userId 和 items 是必填参数，items 不能为空（userId 可通过 URL 参数或环境变量配置）',
+                },
+              ],
+              isError: true,
+            };
+            logCall(name, { userId, count: Array.isArray(params.items) ? params.items.length : 0 }, errorResponse, timer(), false, '缺少必填参数');
+            return errorResponse;
+          }
+
+          const results = await memoryStore.addMany(userId, params.items);
+          const added = results.filter(r => r.success);
+          const pending = added.filter(r => r.memory?.pendingEmbedding).length;
+
+          result = {
+            success: added.length > 0,
+            message: `已添加 ${added.length}/${results.length} 条记忆${pending > 0 ? `，其中 ${pending} 条等待后台补齐向量` : ''}`,
+            userId,
+            added: added.length,
+            failed: results.length - added.length,
+            results: results.map(r => r.memory
+              ? { index: r.index, success: true, id: r.memory.id, pendingEmbedding: r.memory.pendingEmbedding }
+              : { index: r.index, success: false, error: r.error }),
+          };
+
+          const response = {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+
+          // 日志只记录数量，避免批量内容撑大日志文件
+          logCall(name, { userId, count: params.items.length }, result, timer(), added.length > 0);
           return response;
         }
 
@@ -246,7 +570,11 @@ function createServer(sessionUserId?: string): Server {
           const results = await memoryStore.search(
             userId,
             params.query,
-            params.limit || 5
+            params.limit || 5,
+            {
+              filter: { tags: params.tags, anyTags: params.anyTags, metadata: params.metadata },
+              mode: parseSearchMode(params.mode),
+            }
           );
 
           // 格式化搜索结果（不返回 embedding）
@@ -255,18 +583,287 @@ function createServer(sessionUserId?: string): Server {
             userId: r.memory.userId,
             question: r.memory.question,
             answer: r.memory.answer,
+            tags: r.memory.tags,
+            metadata: r.memory.metadata,
             score: Math.round(r.score * 100) / 100,
+            vectorScore: r.vectorScore === undefined ? undefined : Math.round(r.vectorScore * 100) / 100,
+            keywordScore: r.keywordScore === undefined ? undefined : Math.round(r.keywordScore * 100) / 100,
             createdAt: r.memory.createdAt,
           }));
 
+          // 其他模型生成、缺少向量或等待补齐向量的记忆不参与向量搜索，提示调用方
+          const embeddingStats = memoryStore.getEmbeddingStats(userId);
+          const unindexed = embeddingStats.mismatched + embeddingStats.missing + embeddingStats.pending;
+
           result = {
             success: true,
             userId: userId,
             query: params.query,
+            mode: parseSearchMode(params.mode) || getDefaultSearchMode(),
             count: formattedResults.length,
             results: formattedResults,
+            ...(unindexed > 0 && {
+              unindexed,
+              pending: embeddingStats.pending,
+              warning: embeddingStats.pending === unindexed
+                ? `有 ${unindexed} 条记忆正在等待后台生成向量，暂未参与向量搜索`
+                : `有 ${unindexed} 条记忆的向量与当前模型不一致或缺失，未参与向量搜索，请在管理平台执行重新索引`,
+            }),
+          };
+
+          const response = {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+
+          logCall(
+            name,
+            {
+              userId,
+              query: params.query,
+              limit: params.limit,
+              mode: params.mode,
+              tags: params.tags,
+              anyTags: params.anyTags,
+              metadata: params.metadata,
+            },
+            result,
+            timer(),
+            true
+          );
+          return response;
+        }
+
+        case 'list_messages': {
+          const params = (args || {}) as unknown as ListMemoryParams;
+          const userId = getEffectiveUserId(params.userId);
+          
+          if (!userId) {
+            const errorResponse = {
+              content: [
+                {
+                  type: 'text',
+                  text: '错误：userId 是必填参数（userId 可通过 URL 参数或环境变量配置）',
+                },
+              ],
+              isError: true,
+            };
+            logCall(name, { ...params, userId }, errorResponse, timer(), false, '缺少必填参数');
+            return errorResponse;
+          }
+
+          const limit = Math.min(Math.max(params.limit || 20, 1), 100);
+          const listResult = memoryStore.query(userId, {
+            limit,
+            offset: Math.max(params.offset || 0, 0),
+            cursor: params.cursor,
+            sortBy: params.sortBy === 'updatedAt' ? 'updatedAt' : 'createdAt',
+            order: params.order === 'asc' ? 'asc' : 'desc',
+            contains: params.contains,
+            tags: params.tags,
+            anyTags: params.anyTags,
+            metadata: params.metadata,
+          });
+
+          result = {
+            success: true,
+            userId: userId,
+            total: listResult.total,
+            count: listResult.memories.length,
+            nextCursor: listResult.nextCursor,
+            memories: listResult.memories,
+          };
+
+          const response = {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+
+          // 日志中只记录数量，避免列表内容撑大日志文件
+          logCall(name, { ...params, userId }, { total: listResult.total, count: listResult.memories.length }, timer(), true);
+          return response;
+        }
+
+        case 'get_message': {
+          const params = args as unknown as GetMemoryParams;
+          const userId = getEffectiveUserId(params.userId);
+          
+          if (!userId || !params.id) {
+            const errorResponse = {
+              content: [
+                {
+                  type: 'text',
+                  text: '错误：userId 和 id 是必填参数（userId 可通过 URL 参数或环境变量配置）',
+                },
+              ],
+              isError: true,
+            };
+            logCall(name, { ...params, userId }, errorResponse, timer(), false, '缺少必填参数');
+            return errorResponse;
+          }
+
+          const memory = memoryStore.get(userId, params.id);
+
+          result = memory
+            ? {
+                success: true,
+                id: memory.id,
+                userId: memory.userId,
+                question: memory.question,
+                answer: memory.answer,
+                tags: memory.tags,
+                metadata: memory.metadata,
+                pendingEmbedding: memory.pendingEmbedding,
+                createdAt: memory.createdAt,
+                updatedAt: memory.updatedAt,
+              }
+            : {
+                success: false,
+                message: '未找到该记忆或无权访问',
+                userId: userId,
+                id: params.id,
+              };
+
+          const response = {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
           };
 
+          logCall(name, { userId, id: params.id }, result, timer(), !!memory, memory ? undefined : '记忆不存在或无权限');
+          return response;
+        }
+
+        case 'get_message_history': {
+          const params = args as unknown as GetMemoryParams;
+          const userId = getEffectiveUserId(params.userId);
+
+          if (!userId || !params.id) {
+            const errorResponse = {
+              content: [
+                {
+                  type: 'text',
+                  text: '错误：userId 和 id 是必填参数（userId 可通过 URL 参数或环境变量配置）',
+                },
+              ],
+              isError: true,
+            };
+            logCall(name, { ...params, userId }, errorResponse, timer(), false, '缺少必填参数');
+            return errorResponse;
+          }
+
+          const revisions = memoryStore.getHistory(userId, params.id);
+          const memory = memoryStore.get(userId, params.id);
+
+          result = revisions
+            ? {
+                success: true,
+                id: params.id,
+                userId: userId,
+                current: memory
+                  ? {
+                      question: memory.question,
+                      answer: memory.answer,
+                      tags: memory.tags,
+                      metadata: memory.metadata,
+                      updatedAt: memory.updatedAt,
+                    }
+                  : undefined,
+                deleted: !memory,
+                total: revisions.length,
+                revisions,
+              }
+            : {
+                success: false,
+                message: '未找到该记忆或无权访问',
+                userId: userId,
+                id: params.id,
+              };
+
+          const response = {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+
+          logCall(name, { userId, id: params.id }, result, timer(), !!revisions, revisions ? undefined : '记忆不存在或无权限');
+          return response;
+        }
+
+        case 'update_message': {
+          const params = args as unknown as UpdateMemoryParams;
+          const userId = getEffectiveUserId(params.userId);
+          
+          if (!userId || !params.id || (params.question === undefined && params.answer === undefined && !params.tags && !params.metadata)) {
+            const errorResponse = {
+              content: [
+                {
+                  type: 'text',
+                  text: '错误：userId 和 id 是必填参数，且 question、answer、tags 和 metadata 至少需要提供一个（userId 可通过 URL 参数或环境变量配置）',
+                },
+              ],
+              isError: true,
+            };
+            logCall(name, { ...params, userId }, errorResponse, timer(), false, '缺少必填参数');
+            return errorResponse;
+          }
+
+          if (isBlankText(params.question) || isBlankText(params.answer)) {
+            const errorResponse = {
+              content: [
+                {
+                  type: 'text',
+                  text: '错误：question 和 answer 提供时不能为空',
+                },
+              ],
+              isError: true,
+            };
+            logCall(name, { ...params, userId }, errorResponse, timer(), false, '问题或答案为空');
+            return errorResponse;
+          }
+
+          const memory = await memoryStore.update(userId, params.id, {
+            question: params.question,
+            answer: params.answer,
+            tags: params.tags,
+            metadata: params.metadata,
+          }, actor);
+
+          result = memory
+            ? {
+                success: true,
+                message: memory.pendingEmbedding ? '记忆已更新，嵌入服务暂不可用，向量将在后台补齐' : '记忆已更新',
+                id: memory.id,
+                userId: memory.userId,
+                question: memory.question,
+                answer: memory.answer,
+                tags: memory.tags,
+                metadata: memory.metadata,
+                pendingEmbedding: memory.pendingEmbedding,
+                createdAt: memory.createdAt,
+                updatedAt: memory.updatedAt,
+              }
+            : {
+                success: false,
+                message: '未找到该记忆或无权更新',
+                userId: userId,
+                id: params.id,
+              };
+
           const response = {
             content: [
               {
@@ -276,7 +873,21 @@ function createServer(sessionUserId?: string): Server {
             ],
           };
 
-          logCall(name, { userId, query: params.query, limit: params.limit }, result, timer(), true);
+          logCall(
+            name,
+            {
+              userId,
+              id: params.id,
+              question: params.question,
+              answer: params.answer,
+              tags: params.tags,
+              metadata: params.metadata,
+            },
+            result,
+            timer(),
+            !!memory,
+            memory ? undefined : '记忆不存在或无权限'
+          );
           return response;
         }
 
@@ -298,11 +909,11 @@ function createServer(sessionUserId?: string): Server {
             return errorResponse;
           }
 
-          const success = await memoryStore.delete(userId, params.id);
+          const success = await memoryStore.delete(userId, params.id, actor);
 
           result = {
             success,
-            message: success ? '记忆已删除' : '未找到该记忆或无权删除',
+            message: success ? '记忆已移入回收站' : '未找到该记忆或无权删除',
             userId: userId,
             id: params.id,
           };
@@ -378,14 +989,16 @@ async function printStartupInfo() {
   console.error('My-Mem-MCP 服务启动中...');
   console.error('='.repeat(60));
   
-  // 检查 Ollama 服务
-  const ollamaHealthy = await checkOllamaHealth();
-  if (ollamaHealthy) {
-    console.error(`[Ollama] 服务正常: ${getOllamaHost()}`);
-    console.error(`[Ollama] 嵌入模型: ${getEmbeddingModel()}`);
+  // 检查嵌入服务
+  const provider = getEmbeddingProvider();
+  const location = provider.host || '本地计算';
+  const embeddingHealthy = await checkEmbeddingHealth();
+  if (embeddingHealthy) {
+    console.error(`[Embedding] 提供方: ${provider.name}, 服务正常: ${location}`);
+    console.error(`[Embedding] 嵌入模型: ${provider.model}`);
   } else {
-    console.error(`[Ollama] 警告: 无法连接到 ${getOllamaHost()}`);
-    console.error('[Ollama] 请确保 Ollama 服务正在运行');
+    console.error(`[Embedding] 警告: 无法连接到 ${provider.name} 服务 ${location}`);
+    console.error('[Embedding] 请确保嵌入服务正在运行');
   }
 
   console.error(`[Memory] 当前记忆总数: ${memoryStore.count()}`);
@@ -407,7 +1020,7 @@ async function startStdioServer() {
   await printStartupInfo();
   
   // STDIO 模式使用全局默认用户ID或命令行参数
-  const server = createServer(GLOBAL_DEFAULT_USER_ID || undefined);
+  const server = createServer(GLOBAL_DEFAULT_USER_ID || undefined, 'mcp:stdio');
   const transport = new StdioServerTransport();
   await server.connect(transport);
   
@@ -421,6 +1034,19 @@ interface SSESession {
   transport: SSEServerTransport;
   server: Server;
   userId?: string;
+  /** 会话使用的 API 令牌 */
+  token?: ApiToken;
+}
+
+/**
+ * 从请求中读取 API 令牌：Authorization: Bearer 或查询参数 token
+ */
+function readApiToken(req: http.IncomingMessage, url: URL): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice(7).trim() || undefined;
+  }
+  return url.searchParams.get('token') || undefined;
 }
 
 /**
@@ -438,7 +1064,7 @@ async function startSSEServer() {
     // 设置 CORS 头
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
     
     if (req.method === 'OPTIONS') {
       res.writeHead(204);
@@ -477,21 +1103,47 @@ async function startSSEServer() {
         userId = url.searchParams.get('userId') || undefined;
       }
       
-      // 生成唯一的 sessionId
-      const sessionId = Date.now().toString(36) + Math.random().toString(36).substring(2, 11);
+      // 令牌决定会话可访问的用户：URL 中的 userId 必须在令牌范围内，未指定时令牌只绑定一个用户则使用该用户
+      const tokenValue = readApiToken(req, url);
+      let token: ApiToken | undefined;
+      if (tokenValue) {
+        token = apiTokens.verify(tokenValue);
+        if (!token) {
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Invalid or revoked API token' }));
+          return;
+        }
+        if (userId && !token.userIds.includes(userId)) {
+          res.writeHead(403, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: `API token is not allowed to access user ${userId}` }));
+          return;
+        }
+        if (!userId && token.userIds.length === 1) {
+          userId = token.userIds[0];
+        }
+        apiTokens.touch(token.id);
+      } else if (SSE_AUTH_REQUIRED) {
+        res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+        res.end(JSON.stringify({ error: 'API token required' }));
+        return;
+      }
       
-      console.error(`[SSE] 新客户端连接, sessionId: ${sessionId}${userId ? `, userId: ${userId}` : ''}`);
+      // 生成唯一的 sessionId（消息端点只凭 sessionId 路由，必须不可猜测）
+      const sessionId = randomBytes(16).toString('hex');
+      
+      console.error(`[SSE] 新客户端连接, sessionId: ${sessionId}${userId ? `, userId: ${userId}` : ''}${token ? `, 令牌: ${token.name}` : ''}`);
       
       // 为每个会话创建独立的 Server 实例
-      const server = createServer(userId);
+      const server = createServer(userId, `mcp:sse:${sessionId}`, token);
       // 使用带 sessionId 的消息端点，确保消息路由正确
       const transport = new SSEServerTransport(`/messages/${sessionId}`, res);
       
-      sessions.set(sessionId, { transport, server, userId });
+      sessions.set(sessionId, { transport, server, userId, token });
       
       res.on('close', () => {
         console.error(`[SSE] 客户端断开连接, sessionId: ${sessionId}${userId ? `, userId: ${userId}` : ''}`);
         sessions.delete(sessionId);
+        toolRateLimiter.releaseSession(`mcp:sse:${sessionId}`);
       });
       
       await server.connect(transport);
@@ -536,6 +1188,11 @@ async function startSSEServer() {
     console.error(`[MCP] SSE 模式服务已启动`);
     console.error(`[MCP] 监听地址: http://0.0.0.0:${port}`);
     console.error(`[MCP] SSE 端点: http://0.0.0.0:${port}/sse/{userId} 或 http://0.0.0.0:${port}/sse?userId=xxx`);
+    if (SSE_AUTH_REQUIRED) {
+      console.error('[MCP] SSE 连接需要 API 令牌（Authorization: Bearer <token> 或 ?token=<token>），可在管理平台创建');
+    } else {
+      console.error('[MCP] 警告: SSE_AUTH_REQUIRED=false，未携带令牌的连接可访问任意用户');
+    }
     console.error(`[MCP] 消息端点: http://0.0.0.0:${port}/messages/{sessionId}`);
     console.error(`[MCP] 健康检查: http://0.0.0.0:${port}/health`);
   });
@@ -553,6 +1210,12 @@ function isAdminEnabled(): boolean {
  */
 async function main() {
   const mode = getTransportMode();
+
+  // 后台为嵌入服务不可用期间保存的记忆补齐向量
+  startEmbeddingWorker();
+
+  // 定期清除回收站中超过保留期限的记忆
+  startTrashPurger();
   
   // 启动管理平台（SSE 模式下默认启动）
   if (mode === 'sse' && isAdminEnabled()) {
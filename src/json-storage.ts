@@ -0,0 +1,672 @@
+import { readFileSync, existsSync, readdirSync, copyFileSync, unlinkSync, mkdirSync, renameSync, statSync } from 'fs';
+import { join } from 'path';
+import type { Memory, MemoryData, MemoryRevision, StoredMemory, UserSummary } from './types.js';
+import { summarizeMemories, type StorageBackend, type StorageChanges } from './storage-backend.js';
+import { readVectorFile, writeVectorFile, type VectorFormat } from './vector-storage.js';
+import { writeFileAtomic, appendFileDurable, quarantineFile } from './atomic-file.js';
+import { UserRegistry, REGISTRY_FILE, storageKeyFor } from './user-registry.js';
+import { MEMORY_DATA_VERSION, getDataVersion, migrateMemoryData } from './schema-migrations.js';
+import { API_TOKENS_FILE } from './api-tokens.js';
+import { ADMIN_ACCOUNTS_FILE } from './admin-accounts.js';
+
+/**
+ * 日志累计多少条变更后压缩为快照
+ */
+const JOURNAL_COMPACT_THRESHOLD = parseInt(process.env.JOURNAL_COMPACT_THRESHOLD || '200', 10);
+
+/**
+ * 旧版文件迁移报告
+ */
+const MIGRATION_REPORT_FILE = 'users.migration-report.json';
+
+/**
+ * 用户索引文件：各用户的记忆数量和向量状态摘要，统计时无需读取数据文件
+ */
+const USER_INDEX_FILE = 'users.index.json';
+
+/**
+ * 用户索引版本，摘要字段变化时提高（旧版本的索引丢弃后重新统计）
+ */
+const USER_INDEX_VERSION = 2;
+
+/**
+ * 用户索引的延迟写入时间(ms)，合并短时间内的连续变更
+ */
+const USER_INDEX_SAVE_DELAY = 1000;
+
+/**
+ * 用户索引文件结构
+ */
+interface UserIndexData {
+  version: number;
+  users: Record<string, UserSummary>;
+}
+
+/**
+ * 日志条目（每行一个 JSON）
+ * upsert 携带完整记忆，向量以 base64 编码的 float32 存储；重放时按顺序覆盖，可重复执行
+ */
+type JournalEntry =
+  | { op: 'upsert'; memory: StoredMemory; vector?: string }
+  | { op: 'delete'; id: string };
+
+/**
+ * 向量 -> base64（float32 小端）
+ */
+function encodeJournalVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+/**
+ * base64 -> 向量
+ */
+function decodeJournalVector(value: string): Float32Array {
+  const buffer = Buffer.from(value, 'base64');
+  const vector = new Float32Array(buffer.length / 4);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] = buffer.readFloatLE(i * 4);
+  }
+  return vector;
+}
+
+/**
+ * JSON 文件存储后端
+ * 文件名使用存储键（见 storageKeyFor），原始 userId 记录在注册表和数据文件中
+ * 快照: data/{key}.json（记忆）+ data/{key}.vec（向量），通过临时文件 + fsync + rename 原子写入
+ * 日志: data/{key}.journal，每次修改只追加变更，累计到阈值后压缩为新快照
+ * 修订记录: data/{key}.history，每行一条，只追加；彻底删除记忆时一并移除
+ * 读取时在快照上重放日志恢复最新状态；损坏的文件会被隔离而不是当作空数据
+ * 所有写入（包括压缩）只在 saveUser 中进行，由调用方持有该用户的文件锁
+ */
+export class JsonStorageBackend implements StorageBackend {
+  readonly name = 'json';
+
+  /** 各用户日志中尚未压缩的条目数 */
+  private journalSizes: Map<string, number> = new Map();
+
+  /** 读取时发现需要压缩（旧格式或日志中有变更）的用户，下次保存时压缩 */
+  private pendingCompaction: Set<string> = new Set();
+
+  /** 用户注册表 */
+  private registry: UserRegistry;
+
+  /** 用户摘要，首次统计时从索引文件加载 */
+  private summaries?: Map<string, UserSummary>;
+
+  /** 用户索引的延迟写入定时器 */
+  private indexSaveTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly dataDir: string,
+    private readonly vectorFormat: VectorFormat
+  ) {
+    if (!existsSync(dataDir)) {
+      mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.registry = new UserRegistry(dataDir);
+    if (!this.registry.exists()) {
+      // 多个进程同时首次启动时只由一个进程迁移
+      this.registry.withLock(() => {
+        if (!this.registry.exists()) {
+          this.migrateLegacyFiles();
+        }
+      });
+    }
+  }
+
+  /**
+   * 获取数据文件路径
+   * @param key 存储键
+   * @param extension 扩展名: json / vec / journal / history
+   */
+  private getFilePath(key: string, extension: 'json' | 'vec' | 'journal' | 'history'): string {
+    return join(this.dataDir, `${key}.${extension}`);
+  }
+
+  /**
+   * 列出注册表中的所有用户（原始 userId）
+   */
+  listUsers(): string[] {
+    return this.registry.list();
+  }
+
+  /**
+   * 读取用户数据：加载快照后重放日志
+   * 旧格式文件（向量内嵌在 JSON 中）或存在日志时，在下次保存时压缩为新快照
+   * （读取时可能未持有文件锁，不能写入）
+   */
+  loadUser(userId: string): Memory[] {
+    const key = storageKeyFor(userId);
+    const { memories, needsMigration } = this.readSnapshot(key, userId);
+    const replayed = this.replayJournal(key, userId, memories);
+
+    this.journalSizes.set(userId, replayed);
+    // 日志末尾可能有崩溃留下的半行，继续追加会与其粘连，先压缩
+    if (needsMigration || existsSync(this.getFilePath(key, 'journal'))) {
+      this.pendingCompaction.add(userId);
+    }
+    if (needsMigration) {
+      console.error(`[JsonStorage] 用户 ${userId} 的数据文件将在下次保存时升级到版本 ${MEMORY_DATA_VERSION} (向量格式: ${this.vectorFormat})`);
+    }
+    this.updateSummary(userId, memories);
+    return memories;
+  }
+
+  /**
+   * 数据文件的修改时间和大小，日志追加和快照替换都会改变
+   */
+  getVersion(userId: string): string | undefined {
+    if (!this.registry.has(userId)) {
+      return undefined;
+    }
+    const key = storageKeyFor(userId);
+    return (['json', 'journal'] as const).map(extension => {
+      const filePath = this.getFilePath(key, extension);
+      if (!existsSync(filePath)) return '-';
+      const stat = statSync(filePath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    }).join('/');
+  }
+
+  /**
+   * 获取用户数据摘要
+   */
+  getSummary(userId: string): UserSummary | undefined {
+    if (!this.registry.has(userId)) {
+      return undefined;
+    }
+    return this.freshSummary(userId, this.loadSummaries());
+  }
+
+  /**
+   * 获取所有用户的数据摘要
+   */
+  getSummaries(): Map<string, UserSummary> {
+    const summaries = this.loadSummaries();
+    const result = new Map<string, UserSummary>();
+    for (const userId of this.registry.list()) {
+      const summary = this.freshSummary(userId, summaries);
+      if (summary) {
+        result.set(userId, summary);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 返回最新的用户摘要
+   * 摘要缺失，或数据文件比摘要新（其他进程写入、进程退出前索引未写入）时从数据文件重新统计
+   */
+  private freshSummary(userId: string, summaries: Map<string, UserSummary>): UserSummary | undefined {
+    const summary = summaries.get(userId);
+    if (summary && !this.isSummaryStale(userId, summary)) {
+      return summary;
+    }
+
+    try {
+      const key = storageKeyFor(userId);
+      const { memories } = this.readSnapshot(key, userId);
+      this.replayJournal(key, userId, memories);
+      const rebuilt = summarizeMemories(memories);
+      summaries.set(userId, rebuilt);
+      this.scheduleIndexSave();
+      return rebuilt;
+    } catch (error) {
+      console.error(`[JsonStorage] 统计用户 ${userId} 的数据失败:`, error);
+      return summary;
+    }
+  }
+
+  /**
+   * 加载用户索引（索引损坏时隔离后从空索引开始，各用户在首次统计时重新生成）
+   */
+  private loadSummaries(): Map<string, UserSummary> {
+    if (this.summaries) return this.summaries;
+
+    const indexPath = join(this.dataDir, USER_INDEX_FILE);
+    let stored: Record<string, UserSummary> = {};
+    try {
+      if (existsSync(indexPath)) {
+        const data: UserIndexData = JSON.parse(readFileSync(indexPath, 'utf-8'));
+        if (data.version === USER_INDEX_VERSION) {
+          stored = data.users || {};
+        }
+      }
+    } catch (error) {
+      const target = quarantineFile(indexPath);
+      console.error(`[JsonStorage] 用户索引已损坏 (${(error as Error).message})，已隔离到 ${target}，将重新统计`);
+    }
+
+    this.summaries = new Map(Object.entries(stored));
+    return this.summaries;
+  }
+
+  /**
+   * 数据文件是否在摘要生成之后被修改过
+   */
+  private isSummaryStale(userId: string, summary: UserSummary): boolean {
+    const key = storageKeyFor(userId);
+    const since = Date.parse(summary.updatedAt);
+    return (['json', 'journal'] as const).some(extension => {
+      const filePath = this.getFilePath(key, extension);
+      return existsSync(filePath) && Math.floor(statSync(filePath).mtimeMs) > since;
+    });
+  }
+
+  /**
+   * 更新用户摘要（索引尚未加载时跳过，加载时会根据文件修改时间重新统计）
+   */
+  private updateSummary(userId: string, memories: Memory[]): void {
+    if (!this.summaries) return;
+    this.summaries.set(userId, summarizeMemories(memories));
+    this.scheduleIndexSave();
+  }
+
+  /**
+   * 延迟写入用户索引
+   */
+  private scheduleIndexSave(): void {
+    if (this.indexSaveTimer) return;
+    this.indexSaveTimer = setTimeout(() => {
+      this.indexSaveTimer = undefined;
+      this.saveIndex();
+    }, USER_INDEX_SAVE_DELAY);
+    this.indexSaveTimer.unref();
+  }
+
+  /**
+   * 原子写入用户索引（索引只是缓存，写入失败不影响数据）
+   */
+  private saveIndex(): void {
+    if (!this.summaries) return;
+    try {
+      const data: UserIndexData = { version: USER_INDEX_VERSION, users: Object.fromEntries(this.summaries) };
+      writeFileAtomic(join(this.dataDir, USER_INDEX_FILE), JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('[JsonStorage] 保存用户索引失败:', error);
+    }
+  }
+
+  /**
+   * 读取快照
+   * 用户的记忆文件损坏时保留原文件并抛出错误，该用户在文件修复前拒绝读写，避免之后的写入以空数据覆盖；
+   * 迁移旧文件时无法解析的文件被隔离后跳过。向量文件损坏时隔离，记忆保留并标记为待补齐向量
+   * 旧版本的文件先备份再在内存中逐步升级，新版本的文件拒绝加载
+   * @param key 存储键
+   * @param userId 原始用户ID，提供时校验文件中记录的用户；迁移旧文件时为 undefined
+   * @returns needsMigration 为 true 时文件需要以当前格式重写
+   */
+  private readSnapshot(key: string, userId?: string): { memories: Memory[]; needsMigration: boolean } {
+    const label = userId ?? key;
+    const filePath = this.getFilePath(key, 'json');
+    if (!existsSync(filePath)) {
+      return { memories: [], needsMigration: false };
+    }
+
+    let data: MemoryData;
+    try {
+      data = JSON.parse(readFileSync(filePath, 'utf-8'));
+      if (!Array.isArray(data.memories)) {
+        throw new Error('缺少 memories 数组');
+      }
+    } catch (error) {
+      if (userId !== undefined) {
+        console.error(`[JsonStorage] 用户 ${label} 的数据文件 ${filePath} 已损坏 (${(error as Error).message})，修复或从备份恢复前拒绝读写该用户`);
+        throw new Error(`数据文件 ${filePath} 已损坏: ${(error as Error).message}`);
+      }
+      const target = quarantineFile(filePath);
+      console.error(`[JsonStorage] 旧版数据文件 ${label}.json 已损坏 (${(error as Error).message})，已隔离到 ${target}`);
+      return { memories: [], needsMigration: false };
+    }
+
+    const version = getDataVersion(data);
+    const migrated = migrateMemoryData(data, filePath);
+    if (migrated.applied.length > 0) {
+      // 旧版文件迁移会把原文件整体移动到 legacy 目录，无需单独备份
+      if (userId !== undefined) {
+        this.backupBeforeMigration(filePath, version, migrated.applied);
+      }
+      data = migrated.data;
+    }
+
+    if (userId !== undefined && data.userId !== undefined && data.userId !== userId) {
+      throw new Error(`数据文件 ${filePath} 属于用户 ${data.userId}，而不是 ${userId}`);
+    }
+    const stored = data.memories;
+
+    const vectorPath = this.getFilePath(key, 'vec');
+    let vectors = new Map<string, Float32Array>();
+    try {
+      if (existsSync(vectorPath)) {
+        vectors = readVectorFile(vectorPath);
+      }
+    } catch (error) {
+      const target = quarantineFile(vectorPath);
+      console.error(`[JsonStorage] 用户 ${label} 的向量文件已损坏 (${(error as Error).message})，已隔离到 ${target}，向量将在后台重新生成`);
+    }
+
+    let needsMigration = migrated.applied.length > 0;
+    const memories: Memory[] = stored.map(({ embedding, ...rest }: StoredMemory) => {
+      if (Array.isArray(embedding)) {
+        needsMigration = true;
+        return { ...rest, embedding: Float32Array.from(embedding) };
+      }
+      const vector = vectors.get(rest.id);
+      if (!vector && !rest.pendingEmbedding) {
+        console.error(`[JsonStorage] 记忆 ${rest.id} 缺少向量数据，标记为待补齐 (用户: ${label})`);
+        return { ...rest, embedding: new Float32Array(0), pendingEmbedding: true };
+      }
+      return { ...rest, embedding: vector || new Float32Array(0) };
+    });
+
+    return { memories, needsMigration };
+  }
+
+  /**
+   * 升级前备份原文件到 {文件名}.v{版本}.bak（已有备份时跳过，升级写入前多次加载只备份一次）
+   */
+  private backupBeforeMigration(filePath: string, version: number, applied: string[]): void {
+    const backup = `${filePath}.v${version}.bak`;
+    if (existsSync(backup)) return;
+
+    copyFileSync(filePath, backup);
+    console.error(`[JsonStorage] 数据文件 ${filePath} 为旧版本 ${version}，已备份到 ${backup}，升级步骤:`);
+    applied.forEach(step => console.error(`[JsonStorage]   ${step}`));
+  }
+
+  /**
+   * 在记忆列表上重放日志
+   * 末尾不完整的行（写入中途崩溃）会被忽略；中间出现损坏行时先备份日志再继续
+   * @param key 存储键
+   * @param label 日志中显示的用户
+   * @returns 重放的条目数
+   */
+  private replayJournal(key: string, label: string, memories: Memory[]): number {
+    const journalPath = this.getFilePath(key, 'journal');
+    if (!existsSync(journalPath)) {
+      return 0;
+    }
+
+    const lines = readFileSync(journalPath, 'utf-8').split('\n');
+    const byId = new Map(memories.map((m, i) => [m.id, i]));
+    let replayed = 0;
+    let corrupt = 0;
+
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // 最后一行是写入中断留下的半行，属于正常情况
+        if (i < lines.length - 1) corrupt++;
+        return;
+      }
+
+      if (entry.op === 'upsert') {
+        const { embedding, ...rest } = entry.memory;
+        const memory: Memory = {
+          ...rest,
+          embedding: entry.vector ? decodeJournalVector(entry.vector) : new Float32Array(0),
+        };
+        const index = byId.get(memory.id);
+        if (index === undefined) {
+          byId.set(memory.id, memories.length);
+          memories.push(memory);
+        } else {
+          memories[index] = memory;
+        }
+      } else if (entry.op === 'delete') {
+        const index = byId.get(entry.id);
+        if (index !== undefined) {
+          memories.splice(index, 1);
+          byId.clear();
+          memories.forEach((m, j) => byId.set(m.id, j));
+        }
+      }
+      replayed++;
+    });
+
+    if (corrupt > 0) {
+      const backup = `${journalPath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+      copyFileSync(journalPath, backup);
+      console.error(`[JsonStorage] 用户 ${label} 的日志中有 ${corrupt} 行损坏已跳过，原日志备份到 ${backup}`);
+    }
+
+    return replayed;
+  }
+
+  /**
+   * 保存用户数据和本次修改产生的修订记录
+   */
+  saveUser(userId: string, memories: Memory[], changes?: StorageChanges): void {
+    const key = this.registry.register(userId);
+
+    // 修订记录先于数据写入：中途崩溃最多多出一条与当前内容相同的记录，不会丢失修改前的内容
+    if (changes?.revisions && changes.revisions.length > 0) {
+      appendFileDurable(
+        this.getFilePath(key, 'history'),
+        changes.revisions.map(r => JSON.stringify(r)).join('\n') + '\n'
+      );
+    }
+
+    this.writeChanges(userId, key, memories, changes);
+
+    if (changes && changes.deleted.length > 0) {
+      this.removeRevisions(key, new Set(changes.deleted));
+    }
+  }
+
+  /**
+   * 写入记忆变更：有变更信息且快照已存在时只追加日志，日志达到阈值后压缩；否则直接写入新快照
+   */
+  private writeChanges(userId: string, key: string, memories: Memory[], changes?: StorageChanges): void {
+    if (!changes || !existsSync(this.getFilePath(key, 'json')) || this.pendingCompaction.has(userId)) {
+      this.compact(userId, memories);
+      this.updateSummary(userId, memories);
+      return;
+    }
+
+    const entries: JournalEntry[] = [
+      ...changes.deleted.map((id): JournalEntry => ({ op: 'delete', id })),
+      ...changes.upserted.map(({ embedding, ...rest }): JournalEntry => ({
+        op: 'upsert',
+        memory: rest,
+        vector: embedding.length > 0 ? encodeJournalVector(embedding) : undefined,
+      })),
+    ];
+    if (entries.length === 0) return;
+
+    appendFileDurable(this.getFilePath(key, 'journal'), entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+    this.updateSummary(userId, memories);
+
+    const size = (this.journalSizes.get(userId) || 0) + entries.length;
+    this.journalSizes.set(userId, size);
+
+    if (size >= JOURNAL_COMPACT_THRESHOLD) {
+      this.compact(userId, memories);
+    }
+  }
+
+  /**
+   * 读取修订记录（按写入顺序）
+   */
+  loadRevisions(userId: string, memoryId?: string): MemoryRevision[] {
+    if (!this.registry.has(userId)) {
+      return [];
+    }
+    const revisions = this.readRevisions(storageKeyFor(userId));
+    return memoryId ? revisions.filter(r => r.memoryId === memoryId) : revisions;
+  }
+
+  /**
+   * 读取修订记录文件，忽略无法解析的行（写入中途崩溃留下的半行）
+   */
+  private readRevisions(key: string): MemoryRevision[] {
+    const historyPath = this.getFilePath(key, 'history');
+    if (!existsSync(historyPath)) {
+      return [];
+    }
+
+    const revisions: MemoryRevision[] = [];
+    for (const line of readFileSync(historyPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        revisions.push(JSON.parse(line));
+      } catch {
+        // 跳过损坏的行
+      }
+    }
+    return revisions;
+  }
+
+  /**
+   * 移除已彻底删除的记忆的修订记录（原子重写）
+   */
+  private removeRevisions(key: string, memoryIds: Set<string>): void {
+    const revisions = this.readRevisions(key);
+    const kept = revisions.filter(r => !memoryIds.has(r.memoryId));
+    if (kept.length === revisions.length) return;
+
+    const historyPath = this.getFilePath(key, 'history');
+    if (kept.length === 0) {
+      unlinkSync(historyPath);
+    } else {
+      writeFileAtomic(historyPath, kept.map(r => JSON.stringify(r)).join('\n') + '\n');
+    }
+  }
+
+  /**
+   * 压缩：原子写入新快照后清空日志
+   * 先写向量文件再写 JSON；清空日志前崩溃时，重放日志的结果与快照一致
+   * @param persistRegistry 是否立即保存注册表（迁移时最后统一保存）
+   */
+  private compact(userId: string, memories: Memory[], persistRegistry: boolean = true): void {
+    const key = this.registry.register(userId, persistRegistry);
+
+    writeVectorFile(
+      this.getFilePath(key, 'vec'),
+      memories.filter(m => m.embedding.length > 0).map(m => ({ id: m.id, vector: m.embedding })),
+      this.vectorFormat
+    );
+
+    const data: MemoryData = {
+      userId,
+      memories: memories.map(({ embedding, ...rest }) => rest),
+      version: MEMORY_DATA_VERSION,
+      lastUpdated: new Date().toISOString()
+    };
+
+    writeFileAtomic(this.getFilePath(key, 'json'), JSON.stringify(data, null, 2));
+
+    const journalPath = this.getFilePath(key, 'journal');
+    if (existsSync(journalPath)) {
+      unlinkSync(journalPath);
+    }
+    this.journalSizes.set(userId, 0);
+    this.pendingCompaction.delete(userId);
+  }
+
+  /**
+   * 数据目录中的 JSON 文件是否为旧版记忆数据
+   * 其他模块的文件（令牌、账号等）不参与迁移；无法解析的文件仍视为记忆数据，由 readSnapshot 隔离
+   */
+  private isLegacyDataFile(file: string): boolean {
+    if (!file.endsWith('.json') || [REGISTRY_FILE, MIGRATION_REPORT_FILE, USER_INDEX_FILE, API_TOKENS_FILE, ADMIN_ACCOUNTS_FILE].includes(file)) {
+      return false;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(join(this.dataDir, file), 'utf-8'));
+    } catch {
+      return true;
+    }
+    if (data && typeof data === 'object' && Array.isArray((data as MemoryData).memories)) {
+      return true;
+    }
+    console.error(`[JsonStorage] ${file} 不是记忆数据文件，跳过迁移`);
+    return false;
+  }
+
+  /**
+   * 一次性迁移旧版文件（按清理后的 userId 命名，不同用户可能共用一个文件）
+   * 按每条记忆记录的 userId 拆分到各自的存储键，报告发生冲突的文件，
+   * 旧文件移动到 data/legacy-{时间戳}/ 备份，最后写入注册表
+   * 中途崩溃时重新执行即可：记忆按 ID 去重，结果相同
+   */
+  private migrateLegacyFiles(): void {
+    const legacyKeys = readdirSync(this.dataDir)
+      .filter(f => this.isLegacyDataFile(f))
+      .map(f => f.replace(/\.json$/, ''));
+
+    if (legacyKeys.length === 0) {
+      this.registry.save();
+      return;
+    }
+
+    console.error(`[JsonStorage] 检测到 ${legacyKeys.length} 个旧版数据文件，开始迁移到用户注册表`);
+
+    const byUser = new Map<string, Map<string, Memory>>();
+    const collisions: Array<{ file: string; users: Record<string, number> }> = [];
+
+    for (const key of legacyKeys) {
+      const { memories } = this.readSnapshot(key);
+      this.replayJournal(key, key, memories);
+
+      const counts: Record<string, number> = {};
+      for (const memory of memories) {
+        // 旧数据缺少 userId 时只能以文件名作为用户ID
+        const userId = memory.userId || key;
+        counts[userId] = (counts[userId] || 0) + 1;
+        const userMemories = byUser.get(userId) || new Map<string, Memory>();
+        userMemories.set(memory.id, { ...memory, userId });
+        byUser.set(userId, userMemories);
+      }
+
+      if (Object.keys(counts).length > 1) {
+        collisions.push({ file: `${key}.json`, users: counts });
+        const detail = Object.entries(counts).map(([id, n]) => `${id} (${n} 条)`).join(', ');
+        console.error(`[JsonStorage] 冲突: ${key}.json 包含多个用户的数据: ${detail}，已按用户拆分`);
+      }
+    }
+
+    for (const [userId, memories] of byUser) {
+      this.compact(userId, Array.from(memories.values()), false);
+    }
+
+    // 新文件写入完成后再移走旧文件
+    const legacyDir = join(this.dataDir, `legacy-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+    mkdirSync(legacyDir, { recursive: true });
+    const newKeys = new Set(Array.from(byUser.keys()).map(storageKeyFor));
+    for (const key of legacyKeys) {
+      if (newKeys.has(key)) continue;
+      for (const extension of ['json', 'vec', 'journal', 'hnsw']) {
+        const file = join(this.dataDir, `${key}.${extension}`);
+        if (existsSync(file)) {
+          renameSync(file, join(legacyDir, `${key}.${extension}`));
+        }
+      }
+    }
+
+    writeFileAtomic(
+      join(this.dataDir, MIGRATION_REPORT_FILE),
+      JSON.stringify({ migratedAt: new Date().toISOString(), users: byUser.size, legacyDir, collisions }, null, 2)
+    );
+    this.registry.save();
+
+    console.error(`[JsonStorage] 迁移完成: ${legacyKeys.length} 个旧文件 -> ${byUser.size} 个用户，发现 ${collisions.length} 个冲突文件，旧文件备份在 ${legacyDir}`);
+  }
+
+  /**
+   * 写入尚未保存的用户索引（数据本身每次写入都已 fsync）
+   */
+  close(): void {
+    if (this.indexSaveTimer) {
+      clearTimeout(this.indexSaveTimer);
+      this.indexSaveTimer = undefined;
+      this.saveIndex();
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * 按键区分的互斥锁
+ * 每个键维护一条等待队列（Promise 链），按调用顺序依次获得锁，
+ * 任意时刻同一个键最多只有一个持有者
+ */
+export class KeyedMutex {
+  /** 键 -> 队尾（最后一个等待者释放时完成） */
+  private tails: Map<string, Promise<void>> = new Map();
+
+  /**
+   * 获取锁，按先来后到的顺序等待前面的持有者释放
+   * @param key 锁的键（如用户ID）
+   * @returns 释放函数，重复调用无副作用
+   */
+  async acquire(key: string): Promise<() => void> {
+    const previous = this.tails.get(key) || Promise.resolve();
+
+    let resolve: () => void;
+    const current = new Promise<void>(r => {
+      resolve = r;
+    });
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      // 没有后续等待者时移除队列
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+      resolve();
+    };
+  }
+
+  /**
+   * 持有锁执行 fn，完成或抛出错误后释放
+   * @param key 锁的键
+   * @param fn 持有锁期间执行的函数
+   */
+  async runExclusive<T>(key: string, fn: () => Promise<T> | T): Promise<T> {
+    const release = await this.acquire(key);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 键是否被持有或有等待者
+   */
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+}
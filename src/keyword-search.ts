@@ -0,0 +1,185 @@
+/**
+ * BM25 参数
+ * k1 控制词频饱和速度，b 控制文档长度归一化强度
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * CJK 字符（中日韩）
+ */
+const CJK_CHAR = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+
+/**
+ * 完整的 CJK 连续片段
+ */
+const CJK_RUN = new RegExp(`^[${CJK_CHAR}]+$`, 'u');
+
+/**
+ * 分词匹配：CJK 连续片段，或由字母数字下划线组成、可用 . - : / # 连接的标识符
+ * 标识符不含 CJK 字符，中英混排（如 "报错ERR_CONN_REFUSED了"）在边界处拆开
+ * 例如: "ERR_CONN_REFUSED"、"JIRA-1234"、"memoryStore.search"、"v1.2.3"
+ */
+const IDENTIFIER_CHAR = `(?:(?![${CJK_CHAR}])\\p{L}|[\\p{N}_])`;
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHAR}]+|${IDENTIFIER_CHAR}+(?:[.\\-:/#]${IDENTIFIER_CHAR}+)*`, 'gu');
+
+/**
+ * 文本分词
+ * - CJK 文本切分为字符二元组（单字时保留单字），无需词典即可匹配中文片段
+ * - 其他文本按标识符切分并转为小写，复合标识符同时保留整体和各组成部分，
+ *   使错误码、函数名、工单号等既能整体精确匹配，也能按片段匹配
+ * @param text 原始文本
+ * @returns 词元列表（可能重复，用于统计词频）
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const segment = match[0];
+
+    const lower = segment.toLowerCase();
+
+    if (CJK_RUN.test(segment)) {
+      const chars = Array.from(lower);
+      if (chars.length === 1) {
+        tokens.push(chars[0]);
+      } else {
+        for (let i = 0; i < chars.length - 1; i++) {
+          tokens.push(chars[i] + chars[i + 1]);
+        }
+      }
+      continue;
+    }
+
+    tokens.push(lower);
+
+    const parts = lower.split(/[.\-:/#]/).filter(Boolean);
+    if (parts.length > 1) {
+      tokens.push(...parts);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 关键词搜索结果
+ */
+export interface KeywordHit {
+  /** 记忆ID */
+  id: string;
+  /** BM25 分数 */
+  score: number;
+}
+
+/**
+ * BM25 倒排索引
+ * 每个用户一个实例，随记忆的增删改增量维护
+ */
+export class KeywordIndex {
+  /** 倒排表: 词元 -> (文档ID -> 词频) */
+  private postings: Map<string, Map<string, number>> = new Map();
+  /** 文档词频: 文档ID -> (词元 -> 词频)，用于删除时清理倒排表 */
+  private documents: Map<string, Map<string, number>> = new Map();
+  /** 文档长度: 文档ID -> 词元数 */
+  private lengths: Map<string, number> = new Map();
+  /** 所有文档的词元总数 */
+  private totalLength = 0;
+
+  /**
+   * 添加或替换文档
+   * @param id 文档ID
+   * @param text 文档文本
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const termFreqs = new Map<string, number>();
+    for (const token of tokens) {
+      termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+    }
+
+    for (const [term, freq] of termFreqs) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, freq);
+    }
+
+    this.documents.set(id, termFreqs);
+    this.lengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * 移除文档
+   * @param id 文档ID
+   */
+  remove(id: string): void {
+    const termFreqs = this.documents.get(id);
+    if (!termFreqs) {
+      return;
+    }
+
+    for (const term of termFreqs.keys()) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.lengths.get(id) || 0;
+    this.documents.delete(id);
+    this.lengths.delete(id);
+  }
+
+  /**
+   * 文档数量
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * BM25 搜索
+   * @param query 查询文本
+   * @param limit 返回数量限制
+   * @param candidates 可选，仅在这些文档ID中搜索
+   * @returns 按分数降序排列的命中结果（只包含至少匹配一个词元的文档）
+   */
+  search(query: string, limit: number = 10, candidates?: Set<string>): KeywordHit[] {
+    const docCount = this.documents.size;
+    if (docCount === 0) {
+      return [];
+    }
+
+    const avgLength = this.totalLength / docCount || 1;
+    const queryTerms = new Set(tokenize(query));
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const df = posting.size;
+      const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+
+      for (const [id, freq] of posting) {
+        if (candidates && !candidates.has(id)) continue;
+        const length = this.lengths.get(id) || 0;
+        const norm = freq + BM25_K1 * (1 - BM25_B + BM25_B * (length / avgLength));
+        const score = idf * (freq * (BM25_K1 + 1)) / norm;
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,252 @@
+import type { Memory, MemoryFilter, Metadata, MetadataPredicate, MetadataValue } from './types.js';
+
+/**
+ * 元数据谓词支持的操作符
+ */
+const PREDICATE_OPERATORS = ['eq', 'in', 'gt', 'gte', 'lt', 'lte'];
+
+/**
+ * 过滤条件无效（如未知的元数据操作符）
+ */
+export class InvalidFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFilterError';
+  }
+}
+
+/**
+ * 规范化标签列表
+ * 去除首尾空白、空标签和重复标签，保持原有顺序
+ * @param tags 原始标签
+ * @returns 规范化后的标签
+ */
+export function normalizeTags(tags?: unknown): string[] {
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue;
+    const trimmed = tag.trim();
+    if (trimmed) {
+      seen.add(trimmed);
+    }
+  }
+  return Array.from(seen);
+}
+
+/**
+ * 规范化元数据
+ * 仅保留取值为字符串、有限数字或布尔值的字段
+ * @param metadata 原始元数据
+ * @returns 规范化后的元数据
+ */
+export function normalizeMetadata(metadata?: unknown): Metadata {
+  const result: Metadata = {};
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(metadata)) {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) continue;
+    if (typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))) {
+      result[trimmedKey] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * 范围比较，仅在两侧类型相同（数字或字符串）时有效
+ * @returns 比较结果，类型不一致时返回 undefined
+ */
+function compareValues(value: MetadataValue, target: string | number): number | undefined {
+  if (typeof value === 'number' && typeof target === 'number') {
+    return value - target;
+  }
+  if (typeof value === 'string' && typeof target === 'string') {
+    return value.localeCompare(target);
+  }
+  return undefined;
+}
+
+/**
+ * 判断单个元数据字段是否满足谓词
+ * @param value 字段值（字段不存在时为 undefined）
+ * @param predicate 谓词
+ * @returns 是否匹配
+ */
+function matchesPredicate(value: MetadataValue | undefined, predicate: MetadataPredicate): boolean {
+  if (typeof predicate !== 'object' || predicate === null) {
+    return value === predicate;
+  }
+
+  if (value === undefined) {
+    return false;
+  }
+
+  if (predicate.eq !== undefined && value !== predicate.eq) {
+    return false;
+  }
+  if (predicate.in !== undefined && !predicate.in.includes(value)) {
+    return false;
+  }
+
+  const ranges: Array<[string | number | undefined, (cmp: number) => boolean]> = [
+    [predicate.gt, cmp => cmp > 0],
+    [predicate.gte, cmp => cmp >= 0],
+    [predicate.lt, cmp => cmp < 0],
+    [predicate.lte, cmp => cmp <= 0],
+  ];
+  for (const [target, check] of ranges) {
+    if (target === undefined) continue;
+    const cmp = compareValues(value, target);
+    if (cmp === undefined || !check(cmp)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 判断记忆是否满足过滤条件
+ * @param memory 记忆
+ * @param filter 过滤条件
+ * @returns 是否匹配
+ */
+export function matchesFilter(memory: Pick<Memory, 'tags' | 'metadata'>, filter: MemoryFilter): boolean {
+  const memoryTags = memory.tags || [];
+
+  // tags: 必须包含全部标签
+  if (filter.tags && filter.tags.length > 0) {
+    if (!filter.tags.every(tag => memoryTags.includes(tag))) {
+      return false;
+    }
+  }
+
+  // anyTags: 至少包含其中一个标签
+  if (filter.anyTags && filter.anyTags.length > 0) {
+    if (!filter.anyTags.some(tag => memoryTags.includes(tag))) {
+      return false;
+    }
+  }
+
+  // metadata: 所有字段谓词需同时满足
+  if (filter.metadata) {
+    const memoryMetadata = memory.metadata || {};
+    for (const [key, predicate] of Object.entries(filter.metadata)) {
+      if (!matchesPredicate(memoryMetadata[key], predicate)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 按过滤条件筛选记忆
+ * @param memories 记忆列表
+ * @param filter 过滤条件，为空时原样返回
+ * @returns 筛选后的记忆列表
+ */
+export function filterMemories<T extends Pick<Memory, 'tags' | 'metadata'>>(memories: T[], filter?: MemoryFilter): T[] {
+  if (!filter) {
+    return memories;
+  }
+  const normalized = normalizeFilter(filter);
+  if (isEmptyFilter(normalized)) {
+    return memories;
+  }
+  return memories.filter(m => matchesFilter(m, normalized));
+}
+
+/**
+ * 规范化过滤条件
+ * 标签与保存时一样经过 normalizeTags，保证 " foo" 能匹配保存为 "foo" 的标签；
+ * 元数据字段名去除首尾空白，谓词逐个校验
+ * @param filter 原始过滤条件
+ * @returns 规范化后的过滤条件
+ * @throws {InvalidFilterError} 元数据过滤条件不是对象、使用了未知操作符或操作数类型不正确
+ */
+export function normalizeFilter(filter: MemoryFilter): MemoryFilter {
+  return {
+    tags: normalizeTags(filter.tags),
+    anyTags: normalizeTags(filter.anyTags),
+    metadata: normalizeMetadataFilter(filter.metadata),
+  };
+}
+
+/**
+ * 判断是否为元数据取值（字符串、有限数字或布尔值）
+ */
+function isMetadataValue(value: unknown): value is MetadataValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * 校验元数据过滤条件
+ */
+function normalizeMetadataFilter(metadata: unknown): Record<string, MetadataPredicate> | undefined {
+  if (metadata === undefined || metadata === null) {
+    return undefined;
+  }
+  if (typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new InvalidFilterError('元数据过滤条件必须是对象');
+  }
+
+  const result: Record<string, MetadataPredicate> = {};
+  for (const [key, predicate] of Object.entries(metadata)) {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) continue;
+    result[trimmedKey] = validatePredicate(trimmedKey, predicate);
+  }
+  return result;
+}
+
+/**
+ * 校验单个字段的谓词
+ * @param key 字段名（用于错误信息）
+ * @param predicate 谓词
+ */
+function validatePredicate(key: string, predicate: unknown): MetadataPredicate {
+  if (isMetadataValue(predicate)) {
+    return predicate;
+  }
+  if (typeof predicate !== 'object' || predicate === null || Array.isArray(predicate)) {
+    throw new InvalidFilterError(`元数据字段 ${key} 的过滤条件必须是字符串、数字、布尔值或谓词对象`);
+  }
+
+  for (const [operator, operand] of Object.entries(predicate)) {
+    if (!PREDICATE_OPERATORS.includes(operator)) {
+      throw new InvalidFilterError(`元数据字段 ${key} 使用了未知操作符 ${operator}，支持: ${PREDICATE_OPERATORS.join(', ')}`);
+    }
+    const valid = operator === 'eq'
+      ? isMetadataValue(operand)
+      : operator === 'in'
+        ? Array.isArray(operand) && operand.every(isMetadataValue)
+        : typeof operand === 'string' || (typeof operand === 'number' && Number.isFinite(operand));
+    if (!valid) {
+      throw new InvalidFilterError(`元数据字段 ${key} 的操作符 ${operator} 取值无效`);
+    }
+  }
+  return predicate as MetadataPredicate;
+}
+
+/**
+ * 判断过滤条件是否为空
+ */
+function isEmptyFilter(filter: MemoryFilter): boolean {
+  return !filter.tags?.length && !filter.anyTags?.length && !hasKeys(filter.metadata);
+}
+
+/**
+ * 判断对象是否包含字段
+ */
+function hasKeys(obj?: object): boolean {
+  return !!obj && Object.keys(obj).length > 0;
+}
@@ -1,9 +1,37 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
-import { dirname, join } from 'path';
+import { readFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { Memory, MemoryData, SearchResult } from './types.js';
-import { generateEmbedding } from './ollama-client.js';
-import { searchSimilar, filterByThreshold } from './vector-search.js';
+import type {
+  Memory,
+  EmbeddingStats,
+  MemoryFilter,
+  Metadata,
+  SearchMode,
+  SearchResult,
+  ListMemoryParams,
+  AddMemoryItem,
+  BatchAddResult,
+  ListResult,
+  UserSummary,
+  TransferFormat,
+  ImportSummary,
+  ImportItemResult,
+  MemoryRevision,
+  QuotaUsage
+} from './types.js';
+import { generateEmbedding, generateEmbeddings, getEmbeddingModel, getEmbeddingDimension, EmbeddingUnavailableError } from './embedding-provider.js';
+import { searchSimilar, filterByThreshold, cosineSimilarity } from './vector-search.js';
+import { filterMemories, normalizeFilter, normalizeTags, normalizeMetadata } from './memory-filter.js';
+import { KeywordIndex } from './keyword-search.js';
+import { reciprocalRankFusion } from './rank-fusion.js';
+import { HnswIndex, computeSignature, type HnswSnapshot } from './hnsw-index.js';
+import { writeFileAtomic } from './atomic-file.js';
+import { KeyedMutex } from './keyed-mutex.js';
+import { exportMemories, type ParsedRecord } from './memory-transfer.js';
+import { acquireFileLock } from './file-lock.js';
+import { storageKeyFor } from './user-registry.js';
+import { createStorageBackend, summarizeMemories, type StorageBackend, type StorageChanges } from './storage-backend.js';
+import { assertCapacity, assertTextLength, checkTextLength, memoryBytes } from './quota.js';
 
 /**
  * 数据目录路径
@@ -15,44 +43,225 @@ const DATA_DIR = process.env.DATA_DIR || './data';
  */
 const SIMILARITY_THRESHOLD = 0.5;
 
+/**
+ * 默认搜索模式
+ */
+const DEFAULT_SEARCH_MODE: SearchMode = parseSearchMode(process.env.SEARCH_MODE) || 'hybrid';
+
+/**
+ * 混合搜索时每路召回数量相对 limit 的倍数
+ */
+const HYBRID_CANDIDATE_FACTOR = 4;
+
+/**
+ * 启用近似最近邻索引的最小记忆数量，低于此值时使用暴力扫描
+ */
+const ANN_MIN_SIZE = parseInt(process.env.ANN_MIN_SIZE || '2000', 10);
+
+/**
+ * 是否将近似最近邻索引持久化到 data/{userId}.hnsw
+ */
+const ANN_PERSIST = process.env.ANN_PERSIST === 'true';
+
+/**
+ * 近似最近邻搜索的候选集大小
+ */
+const ANN_EF_SEARCH = parseInt(process.env.ANN_EF_SEARCH || '64', 10);
+
+/**
+ * 标记删除比例超过此值时丢弃索引，下次搜索时重建
+ */
+const ANN_MAX_DELETED_RATIO = 0.3;
+
+/**
+ * 索引变更后延迟持久化的时间(ms)，合并连续写入
+ */
+const ANN_SAVE_DELAY = 5000;
+
+/**
+ * 单次批量添加的最大记忆数量
+ */
+const MAX_BATCH_SIZE = parseInt(process.env.MAX_BATCH_SIZE || '1000', 10);
+
+/**
+ * 单次导入的最大记录数
+ */
+const MAX_IMPORT_SIZE = parseInt(process.env.MAX_IMPORT_SIZE || '10000', 10);
+
+/**
+ * 用户数据缓存的内存上限(MB)，超出时淘汰最久未访问的用户，0 表示不限制
+ */
+const CACHE_MAX_MB = parseFloat(process.env.CACHE_MAX_MB || '512');
+
+/**
+ * 每条记忆除向量和文本外的估算开销(字节)
+ */
+const MEMORY_OVERHEAD_BYTES = 256;
+
+/**
+ * 近似最近邻召回率检查结果
+ */
+export interface AnnRecallReport {
+  /** 用户记忆数量 */
+  size: number;
+  /** 是否启用了近似最近邻索引 */
+  enabled: boolean;
+  /** 抽样查询数量 */
+  sampleSize: number;
+  /** 每次查询比较的前 K 个结果 */
+  k: number;
+  /** 平均召回率 (0-1)，未启用时为 1 */
+  recall: number;
+}
+
+/**
+ * 用户数据缓存状态
+ */
+export interface CacheStats {
+  /** 已缓存的用户，按访问顺序排列（最久未访问的在前） */
+  users: string[];
+  /** 估算占用(字节) */
+  bytes: number;
+  /** 上限(字节)，0 表示不限制 */
+  maxBytes: number;
+}
+
+/**
+ * 解析搜索模式，无效值返回 undefined
+ */
+export function parseSearchMode(value: unknown): SearchMode | undefined {
+  return value === 'vector' || value === 'keyword' || value === 'hybrid' ? value : undefined;
+}
+
+/**
+ * 获取默认搜索模式
+ */
+export function getDefaultSearchMode(): SearchMode {
+  return DEFAULT_SEARCH_MODE;
+}
+
+/**
+ * 生成用于向量化和关键词索引的文本
+ */
+export function memoryText(question: string, answer: string): string {
+  return `问题: ${question}\n答案: ${answer}`;
+}
+
+/**
+ * 修改时提供的问题或答案是否无效（不是字符串，或为空 / 只有空白）；未提供（undefined）时视为有效
+ */
+export function isBlankText(value: unknown): boolean {
+  return value !== undefined && (typeof value !== 'string' || !value.trim());
+}
+
+/**
+ * 判断记忆的向量是否由当前模型生成
+ * 未记录模型的旧数据无法判断，视为兼容，由维度检查兜底
+ */
+function isCurrentModel(memory: Memory): boolean {
+  return memory.embedding.length > 0 && (!memory.embeddingModel || memory.embeddingModel === getEmbeddingModel());
+}
+
+/**
+ * 判断记忆是否需要重新生成向量
+ * @param force 为 true 时所有记忆都需要重新生成
+ */
+function needsReembedding(memory: Memory, force: boolean): boolean {
+  return force || memory.embedding.length === 0 || memory.embeddingModel !== getEmbeddingModel();
+}
+
+/**
+ * 估算用户数据在缓存中占用的内存（向量 + 文本，字符串按 UTF-16 计算）
+ */
+function estimateCacheSize(memories: Memory[]): number {
+  let bytes = 0;
+  for (const memory of memories) {
+    bytes += memory.embedding.byteLength + (memory.question.length + memory.answer.length) * 2 + MEMORY_OVERHEAD_BYTES;
+  }
+  return bytes;
+}
+
+/**
+ * 生成向量，嵌入服务不可用时返回 undefined（由调用方标记为待补齐）
+ */
+async function tryGenerateEmbedding(text: string): Promise<Float32Array | undefined> {
+  try {
+    return Float32Array.from(await generateEmbedding(text));
+  } catch (error) {
+    if (error instanceof EmbeddingUnavailableError) {
+      console.error(`[MemoryStore] 嵌入服务不可用，记忆将等待后台补齐向量: ${error.message}`);
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 /**
  * 记忆存储管理类
- * 每个用户的数据存储在独立的 JSON 文件中: data/{userId}.json
- * 支持并发访问，通过写入锁保证数据一致性
+ * 数据通过存储后端持久化（JSON 文件或 SQLite），由 STORAGE_BACKEND 选择
+ * 用户数据在首次访问时加载，缓存超出 CACHE_MAX_MB 时淘汰最久未访问的用户
+ * 同一用户的写入在进程内按顺序排队，并通过文件锁与共用数据目录的其他进程互斥；
+ * 其他进程写入后（数据版本变化）缓存自动重新加载
  */
 class MemoryStore {
-  /** 内存缓存: userId -> Memory[] */
+  /** 内存缓存: userId -> Memory[]，按访问顺序排列（最近访问的在末尾），不含回收站中的记忆 */
   private cache: Map<string, Memory[]> = new Map();
+
+  /** 回收站: userId -> 已删除的记忆，与 cache 一同加载和淘汰 */
+  private trash: Map<string, Memory[]> = new Map();
   private dataDir: string;
+
+  /** 各用户缓存的估算大小(字节) */
+  private cacheSizes: Map<string, number> = new Map();
+
+  /** 缓存的估算总大小(字节) */
+  private cacheBytes = 0;
+
+  /** 缓存数据对应的存储版本: userId -> 版本标识 */
+  private cacheVersions: Map<string, string | undefined> = new Map();
+
+  /** 持久化后端 */
+  private backend: StorageBackend;
   
-  /** 写入锁: userId -> Promise，用于防止并发写入冲突 */
-  private writeLocks: Map<string, Promise<void>> = new Map();
+  /** 进程内写入锁，同一用户的写入按先来后到的顺序执行 */
+  private writeLocks = new KeyedMutex();
+
+  /** 关键词索引: userId -> KeywordIndex，首次搜索时按需构建 */
+  private keywordIndexes: Map<string, KeywordIndex> = new Map();
+
+  /** 近似最近邻索引: userId -> HnswIndex，仅记忆数量达到 ANN_MIN_SIZE 的用户才会构建 */
+  private annIndexes: Map<string, HnswIndex> = new Map();
+
+  /** 近似最近邻索引的延迟持久化定时器: userId -> Timer */
+  private annSaveTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(dataDir: string = DATA_DIR) {
     this.dataDir = dataDir;
     this.ensureDataDir();
-    this.loadAllUsers();
+    this.backend = createStorageBackend(dataDir);
+    const limit = CACHE_MAX_MB > 0 ? `${CACHE_MAX_MB} MB` : '不限制';
+    console.error(`[MemoryStore] 存储后端: ${this.backend.name}，用户数据按需加载 (缓存上限: ${limit})`);
   }
   
   /**
    * 获取用户写入锁
-   * 确保同一用户的写入操作串行执行
+   * 先在进程内排队，再获取跨进程的文件锁，确保同一用户的写入串行执行
    */
   private async acquireWriteLock(userId: string): Promise<() => void> {
-    // 等待当前锁释放
-    const currentLock = this.writeLocks.get(userId);
-    if (currentLock) {
-      await currentLock;
+    const releaseMutex = await this.writeLocks.acquire(userId);
+
+    let releaseFile: () => void;
+    try {
+      releaseFile = await acquireFileLock(join(this.dataDir, `${storageKeyFor(userId)}.lock`));
+    } catch (error) {
+      releaseMutex();
+      throw error;
     }
-    
-    // 创建新的锁
-    let releaseLock: () => void;
-    const newLock = new Promise<void>((resolve) => {
-      releaseLock = resolve;
-    });
-    this.writeLocks.set(userId, newLock);
-    
-    return releaseLock!;
+
+    return () => {
+      releaseFile();
+      releaseMutex();
+    };
   }
 
   /**
@@ -65,84 +274,402 @@ class MemoryStore {
   }
 
   /**
-   * 获取用户数据文件路径
+   * 获取用户近似最近邻索引文件路径（与用户数据同目录）
    */
-  private getUserFilePath(userId: string): string {
-    // 清理 userId，避免路径注入
-    const safeUserId = userId.replace(/[^a-zA-Z0-9_-]/g, '_');
-    return join(this.dataDir, `${safeUserId}.json`);
+  private getAnnFilePath(userId: string): string {
+    return join(this.dataDir, `${storageKeyFor(userId)}.hnsw`);
   }
 
   /**
-   * 加载所有用户数据到缓存
+   * 加载单个用户数据
+   * 读取失败时抛出错误而不是返回空列表，避免后续写入覆盖无法读取的数据
    */
-  private loadAllUsers(): void {
+  private loadUser(userId: string): Memory[] {
     try {
-      const files = readdirSync(this.dataDir).filter(f => f.endsWith('.json') && f !== 'calls.log');
-      let totalMemories = 0;
+      // 先取版本再读取，读取期间发生的写入会在下次访问时触发重新加载
+      const version = this.backend.getVersion(userId);
+      const stored = this.backend.loadUser(userId);
+      const memories = stored.filter(m => !m.deletedAt);
+      const trashed = stored.filter(m => m.deletedAt);
+      this.keywordIndexes.delete(userId);
+      this.annIndexes.delete(userId);
+      if (stored.length > 0) {
+        this.trash.set(userId, trashed);
+        this.cacheUser(userId, memories);
+        this.cacheVersions.set(userId, version);
+      } else {
+        this.uncacheUser(userId);
+      }
+      return memories;
+    } catch (error) {
+      console.error(`[MemoryStore] 加载用户 ${userId} 数据失败:`, error);
+      throw new Error(`用户 ${userId} 的数据无法读取: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 获取用户的记忆列表（如果未缓存则加载）
+   */
+  private getUserMemories(userId: string): Memory[] {
+    const cached = this.cache.get(userId);
+    if (cached && this.isCacheFresh(userId)) {
+      // 移到末尾，标记为最近访问
+      this.cache.delete(userId);
+      this.cache.set(userId, cached);
+      return cached;
+    }
+    if (cached) {
+      console.error(`[MemoryStore] 用户 ${userId} 的数据已被其他进程修改，重新加载`);
+    }
+    return this.loadUser(userId);
+  }
+
+  /**
+   * 获取用户回收站中的记忆（如果未缓存则加载）
+   */
+  private getTrashedMemories(userId: string): Memory[] {
+    this.getUserMemories(userId);
+    let trashed = this.trash.get(userId);
+    if (!trashed) {
+      trashed = [];
+      // 只为已缓存的用户创建回收站，避免为不存在的用户留下空条目
+      if (this.cache.has(userId)) {
+        this.trash.set(userId, trashed);
+      }
+    }
+    return trashed;
+  }
+
+  /**
+   * 缓存是否与存储中的数据版本一致
+   */
+  private isCacheFresh(userId: string): boolean {
+    return this.backend.getVersion(userId) === this.cacheVersions.get(userId);
+  }
+
+  /**
+   * 放入缓存并重新估算大小，超出上限时淘汰其他用户
+   */
+  private cacheUser(userId: string, memories: Memory[]): void {
+    this.cache.delete(userId);
+    this.cache.set(userId, memories);
+
+    const size = estimateCacheSize(memories) + estimateCacheSize(this.trash.get(userId) || []);
+    this.cacheBytes += size - (this.cacheSizes.get(userId) || 0);
+    this.cacheSizes.set(userId, size);
 
-      for (const file of files) {
-        const userId = file.replace('.json', '');
-        const memories = this.loadUser(userId);
-        totalMemories += memories.length;
+    this.evictIdleUsers(userId);
+  }
+
+  /**
+   * 按最久未访问的顺序淘汰用户，直到缓存回到上限以内
+   * 正在写入的用户和当前用户不会被淘汰
+   */
+  private evictIdleUsers(keep: string): void {
+    const maxBytes = CACHE_MAX_MB * 1024 * 1024;
+    if (maxBytes <= 0) return;
+
+    for (const userId of this.cache.keys()) {
+      if (this.cacheBytes <= maxBytes) break;
+      if (userId === keep || this.writeLocks.isLocked(userId)) continue;
+      this.evictUser(userId);
+    }
+  }
+
+  /**
+   * 从缓存中移除用户及其索引（待持久化的近似最近邻索引先写入文件）
+   */
+  private evictUser(userId: string): void {
+    const timer = this.annSaveTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      this.annSaveTimers.delete(userId);
+      this.saveAnnIndex(userId);
+    }
+
+    const size = this.cacheSizes.get(userId) || 0;
+    this.uncacheUser(userId);
+    this.keywordIndexes.delete(userId);
+    this.annIndexes.delete(userId);
+
+    console.error(`[MemoryStore] 已将空闲用户 ${userId} 移出缓存 (释放约 ${(size / 1024 / 1024).toFixed(1)} MB)`);
+  }
+
+  /**
+   * 从缓存中移除用户数据
+   */
+  private uncacheUser(userId: string): void {
+    this.cacheBytes -= this.cacheSizes.get(userId) || 0;
+    this.cache.delete(userId);
+    this.trash.delete(userId);
+    this.cacheSizes.delete(userId);
+    this.cacheVersions.delete(userId);
+  }
+
+  /**
+   * 获取用户数据摘要：缓存有效时直接统计，否则由存储后端提供（不加载向量）
+   */
+  private getSummary(userId: string): UserSummary | undefined {
+    const cached = this.cache.get(userId);
+    return cached && this.isCacheFresh(userId)
+      ? summarizeMemories([...cached, ...(this.trash.get(userId) || [])])
+      : this.backend.getSummary(userId);
+  }
+
+  /**
+   * 获取用户的关键词索引（如果未构建则从缓存构建）
+   */
+  private getKeywordIndex(userId: string): KeywordIndex {
+    let index = this.keywordIndexes.get(userId);
+    if (!index) {
+      index = new KeywordIndex();
+      for (const memory of this.getUserMemories(userId)) {
+        index.add(memory.id, memoryText(memory.question, memory.answer));
       }
+      this.keywordIndexes.set(userId, index);
+    }
+    return index;
+  }
 
-      console.error(`[MemoryStore] 已加载 ${this.cache.size} 个用户，共 ${totalMemories} 条记忆`);
+  /**
+   * 同步更新已构建的关键词索引（未构建时跳过，等待首次搜索时构建）
+   */
+  private updateKeywordIndex(userId: string, memory: Memory, removed: boolean = false): void {
+    const index = this.keywordIndexes.get(userId);
+    if (!index) return;
+    if (removed) {
+      index.remove(memory.id);
+    } else {
+      index.add(memory.id, memoryText(memory.question, memory.answer));
+    }
+  }
+
+  /**
+   * 获取用户的近似最近邻索引
+   * 记忆数量低于 ANN_MIN_SIZE 时返回 undefined（使用暴力扫描）；
+   * 否则依次尝试内存缓存、持久化文件，最后从记忆数据构建
+   */
+  private getAnnIndex(userId: string): HnswIndex | undefined {
+    // 只索引当前模型生成的向量
+    const memories = this.getUserMemories(userId).filter(isCurrentModel);
+    if (memories.length < ANN_MIN_SIZE) {
+      return undefined;
+    }
+
+    let index = this.annIndexes.get(userId);
+    if (index) {
+      return index;
+    }
+
+    index = this.loadAnnIndex(userId, memories);
+    if (!index) {
+      const start = Date.now();
+      index = new HnswIndex({ efSearch: ANN_EF_SEARCH });
+      for (const memory of memories) {
+        if (index.dimension === 0 || memory.embedding.length === index.dimension) {
+          index.add(memory.id, memory.embedding);
+        }
+      }
+      console.error(`[MemoryStore] 已构建用户 ${userId} 的 HNSW 索引: ${index.size} 条向量, 耗时 ${Date.now() - start}ms`);
+      this.annIndexes.set(userId, index);
+      this.saveAnnIndex(userId);
+    } else {
+      this.annIndexes.set(userId, index);
+    }
+
+    return index;
+  }
+
+  /**
+   * 从持久化文件加载近似最近邻索引，文件不存在或与当前数据不一致时返回 undefined
+   */
+  private loadAnnIndex(userId: string, memories: Memory[]): HnswIndex | undefined {
+    if (!ANN_PERSIST) return undefined;
+
+    const filePath = this.getAnnFilePath(userId);
+    if (!existsSync(filePath)) return undefined;
+
+    try {
+      const snapshot: HnswSnapshot = JSON.parse(readFileSync(filePath, 'utf-8'));
+      if (snapshot.signature !== computeSignature(memories)) {
+        console.error(`[MemoryStore] 用户 ${userId} 的 HNSW 索引已过期，将重新构建`);
+        return undefined;
+      }
+      const byId = new Map(memories.map(m => [m.id, m.embedding]));
+      const index = HnswIndex.fromSnapshot(snapshot, id => byId.get(id), { efSearch: ANN_EF_SEARCH });
+      if (index) {
+        console.error(`[MemoryStore] 已加载用户 ${userId} 的 HNSW 索引: ${index.size} 条向量`);
+      }
+      return index;
     } catch (error) {
-      console.error('[MemoryStore] 加载用户数据失败:', error);
+      console.error(`[MemoryStore] 加载用户 ${userId} 的 HNSW 索引失败:`, error);
+      return undefined;
     }
   }
 
   /**
-   * 加载单个用户数据
+   * 持久化近似最近邻索引（未启用持久化或索引不存在时跳过）
    */
-  private loadUser(userId: string): Memory[] {
-    const filePath = this.getUserFilePath(userId);
-    
+  private saveAnnIndex(userId: string): void {
+    if (!ANN_PERSIST) return;
+
+    const filePath = this.getAnnFilePath(userId);
+    let index = this.annIndexes.get(userId);
+
     try {
-      if (existsSync(filePath)) {
-        const raw = readFileSync(filePath, 'utf-8');
-        const data: MemoryData = JSON.parse(raw);
-        const memories = data.memories || [];
-        this.cache.set(userId, memories);
-        return memories;
+      if (!index) {
+        if (existsSync(filePath)) unlinkSync(filePath);
+        return;
+      }
+      // 标记删除的节点恢复后没有向量，仍参与路由会降低召回率，保存前重建
+      if (index.deletedRatio > 0) {
+        index = index.compact();
+        this.annIndexes.set(userId, index);
       }
+      const signature = computeSignature((this.cache.get(userId) || []).filter(isCurrentModel));
+      writeFileAtomic(filePath, JSON.stringify(index.toSnapshot(signature)));
     } catch (error) {
-      console.error(`[MemoryStore] 加载用户 ${userId} 数据失败:`, error);
+      // 索引文件只是缓存，写入失败不影响数据
+      console.error(`[MemoryStore] 保存用户 ${userId} 的 HNSW 索引失败:`, error);
     }
-    
-    return [];
   }
 
   /**
-   * 获取用户的记忆列表（如果未缓存则加载）
+   * 延迟持久化近似最近邻索引，合并短时间内的连续变更
    */
-  private getUserMemories(userId: string): Memory[] {
-    if (!this.cache.has(userId)) {
-      this.loadUser(userId);
+  private scheduleAnnSave(userId: string): void {
+    if (!ANN_PERSIST || this.annSaveTimers.has(userId)) return;
+
+    const timer = setTimeout(() => {
+      this.annSaveTimers.delete(userId);
+      this.saveAnnIndex(userId);
+    }, ANN_SAVE_DELAY);
+    timer.unref();
+    this.annSaveTimers.set(userId, timer);
+  }
+
+  /**
+   * 同步更新已构建的近似最近邻索引
+   * 标记删除过多时丢弃索引，下次搜索时重建
+   */
+  private updateAnnIndex(userId: string, memory: Memory, removed: boolean = false): void {
+    const index = this.annIndexes.get(userId);
+    if (!index) return;
+
+    if (removed) {
+      index.remove(memory.id);
+    } else if (isCurrentModel(memory) && memory.embedding.length === index.dimension) {
+      index.add(memory.id, memory.embedding);
+    } else {
+      index.remove(memory.id);
+    }
+
+    if (index.deletedRatio > ANN_MAX_DELETED_RATIO || index.size < ANN_MIN_SIZE) {
+      this.annIndexes.delete(userId);
     }
-    return this.cache.get(userId) || [];
+    this.scheduleAnnSave(userId);
   }
 
   /**
-   * 保存用户数据到文件
+   * 向量召回
+   * 候选集较大时使用 HNSW 索引，结果不足时（如过滤条件较严格）回退到暴力扫描
+   * @param userId 用户ID
+   * @param queryEmbedding 查询向量
+   * @param candidates 候选记忆（已应用过滤条件，且向量与查询兼容）
+   * @param limit 返回数量
    */
-  private saveUser(userId: string): void {
-    try {
-      const filePath = this.getUserFilePath(userId);
-      const memories = this.cache.get(userId) || [];
+  private vectorSearch(
+    userId: string,
+    queryEmbedding: ArrayLike<number>,
+    candidates: Memory[],
+    limit: number
+  ): SearchResult[] {
+    const index = candidates.length >= ANN_MIN_SIZE ? this.getAnnIndex(userId) : undefined;
 
-      const data: MemoryData = {
-        memories,
-        version: 1,
-        lastUpdated: new Date().toISOString()
-      };
+    if (index && queryEmbedding.length === index.dimension) {
+      const total = index.size;
+      const filtered = candidates.length < total;
+      const byId = new Map(candidates.map(m => [m.id, m]));
+
+      // 有过滤条件时按候选集占比放大召回数量
+      const k = filtered ? Math.ceil(limit * total / candidates.length) : limit;
+      const hits = index.search(queryEmbedding, k, Math.max(ANN_EF_SEARCH, k));
+      const results: SearchResult[] = [];
+      for (const hit of hits) {
+        const memory = byId.get(hit.id);
+        if (memory) {
+          results.push({ memory, score: hit.score });
+        }
+      }
 
-      writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+      if (results.length >= Math.min(limit, candidates.length)) {
+        return results.slice(0, limit);
+      }
+    }
+
+    return searchSimilar(queryEmbedding, candidates, limit);
+  }
+
+  /**
+   * 检查近似最近邻索引相对暴力扫描的召回率
+   * 随机抽取记忆自身的向量作为查询，比较两种方式前 K 个结果的重合比例
+   * @param userId 用户ID
+   * @param sampleSize 抽样查询数量
+   * @param k 比较的前 K 个结果
+   */
+  checkAnnRecall(userId: string, sampleSize: number = 20, k: number = 10): AnnRecallReport {
+    const memories = this.getUserMemories(userId).filter(isCurrentModel);
+    const index = this.getAnnIndex(userId);
+
+    if (!index) {
+      return { size: memories.length, enabled: false, sampleSize: 0, k, recall: 1 };
+    }
+
+    const samples = memories.length <= sampleSize
+      ? memories
+      : Array.from({ length: sampleSize }, () => memories[Math.floor(Math.random() * memories.length)]);
+
+    let total = 0;
+    for (const sample of samples) {
+      const exact = memories
+        .filter(m => m.embedding.length === sample.embedding.length)
+        .map(m => ({ id: m.id, score: cosineSimilarity(sample.embedding, m.embedding) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+      const approx = new Set(index.search(sample.embedding, k).map(h => h.id));
+      const overlap = exact.filter(e => approx.has(e.id)).length;
+      total += exact.length > 0 ? overlap / exact.length : 1;
+    }
+
+    const recall = samples.length > 0 ? total / samples.length : 1;
+    console.error(`[MemoryStore] 用户 ${userId} HNSW 召回率@${k}: ${(recall * 100).toFixed(1)}% (抽样 ${samples.length} 次)`);
+    return { size: memories.length, enabled: true, sampleSize: samples.length, k, recall };
+  }
+
+  /**
+   * 通过存储后端保存用户数据
+   * 调用方已在缓存中修改了数据，保存失败时丢弃该用户的缓存和索引，下次访问时从存储重新加载
+   * @param changes 本次变更，SQLite 后端据此只写入变化的记忆
+   */
+  private saveUser(userId: string, changes?: StorageChanges): void {
+    const memories = this.cache.get(userId) || [];
+    try {
+      this.backend.saveUser(userId, [...memories, ...(this.trash.get(userId) || [])], changes);
     } catch (error) {
-      console.error(`[MemoryStore] 保存用户 ${userId} 数据失败:`, error);
+      console.error(`[MemoryStore] 保存用户 ${userId} 数据失败，已丢弃缓存:`, error);
+      const timer = this.annSaveTimers.get(userId);
+      if (timer) {
+        clearTimeout(timer);
+        this.annSaveTimers.delete(userId);
+      }
+      this.uncacheUser(userId);
+      this.keywordIndexes.delete(userId);
+      this.annIndexes.delete(userId);
       throw error;
     }
+    // 调用方持有文件锁，此时的版本就是本次写入的结果
+    this.cacheVersions.set(userId, this.backend.getVersion(userId));
+    this.cacheUser(userId, memories);
   }
 
   /**
@@ -150,12 +677,25 @@ class MemoryStore {
    * @param userId 用户ID
    * @param question 问题
    * @param answer 答案
+   * @param options 可选属性（标签、元数据）
    * @returns 新创建的记忆
    */
-  async add(userId: string, question: string, answer: string): Promise<Memory> {
+  async add(
+    userId: string,
+    question: string,
+    answer: string,
+    options: { tags?: string[]; metadata?: Metadata } = {}
+  ): Promise<Memory> {
+    const tags = normalizeTags(options.tags);
+    const metadata = normalizeMetadata(options.metadata);
+    const bytes = memoryBytes({ question, answer, tags, metadata });
+    // 超出配额时不必生成向量
+    assertTextLength(question, answer);
+    assertCapacity(userId, this.getUsage(userId), { memories: 1, bytes });
+
     // 组合问题和答案生成向量（在获取锁之前完成，避免长时间持有锁）
-    const text = `问题: ${question}\n答案: ${answer}`;
-    const embedding = await generateEmbedding(text);
+    // 嵌入服务不可用时仍然保存记忆，标记为待补齐向量
+    const embedding = await tryGenerateEmbedding(memoryText(question, answer));
 
     const now = new Date().toISOString();
     const memory: Memory = {
@@ -163,7 +703,12 @@ class MemoryStore {
       userId,
       question,
       answer,
-      embedding,
+      tags,
+      metadata,
+      embedding: embedding || new Float32Array(0),
+      embeddingModel: embedding ? getEmbeddingModel() : undefined,
+      embeddingDim: embedding?.length,
+      pendingEmbedding: embedding ? undefined : true,
       createdAt: now,
       updatedAt: now
     };
@@ -172,55 +717,398 @@ class MemoryStore {
     const releaseLock = await this.acquireWriteLock(userId);
     
     try {
+      // 等待期间可能有其他写入，在锁内重新检查配额
+      assertCapacity(userId, this.getUsage(userId), { memories: 1, bytes });
+
       // 获取用户记忆列表并添加
       const userMemories = this.getUserMemories(userId);
       userMemories.push(memory);
       this.cache.set(userId, userMemories);
-      this.saveUser(userId);
+      this.saveUser(userId, { upserted: [memory], deleted: [] });
+      this.updateKeywordIndex(userId, memory);
+      this.updateAnnIndex(userId, memory);
 
-      console.error(`[MemoryStore] 已添加记忆: ${memory.id} (用户: ${userId}, 文件: ${userId}.json)`);
+      console.error(`[MemoryStore] 已添加记忆: ${memory.id} (用户: ${userId})${memory.pendingEmbedding ? '，等待补齐向量' : ''}`);
       return memory;
     } finally {
       releaseLock();
     }
   }
 
+  /**
+   * 批量添加记忆
+   * 批量生成向量后只获取一次写入锁、只保存一次；单条数据无效时不影响其他记忆
+   * 嵌入服务不可用时全部记忆标记为待补齐向量
+   * @param userId 用户ID
+   * @param items 要添加的记忆
+   * @returns 与输入顺序一致的逐条结果
+   */
+  async addMany(userId: string, items: AddMemoryItem[]): Promise<BatchAddResult[]> {
+    if (items.length > MAX_BATCH_SIZE) {
+      throw new Error(`单次最多添加 ${MAX_BATCH_SIZE} 条记忆，当前 ${items.length} 条`);
+    }
+
+    const results: BatchAddResult[] = items.map((item, index) => {
+      if (!item || typeof item.question !== 'string' || !item.question.trim()
+        || typeof item.answer !== 'string' || !item.answer.trim()) {
+        return { index, success: false, error: 'question 和 answer 是必填参数' };
+      }
+      const lengthError = checkTextLength(item.question, item.answer);
+      if (lengthError) {
+        return { index, success: false, error: `超出配额：${lengthError}` };
+      }
+      return { index, success: true };
+    });
+
+    const valid = results.filter(r => r.success).map(r => ({ index: r.index, item: items[r.index] }));
+    if (valid.length === 0) {
+      return results;
+    }
+
+    // 数量或容量超出配额时整批拒绝，避免只保存一部分
+    const batchBytes = valid.reduce((sum, v) => sum + memoryBytes({
+      question: v.item.question,
+      answer: v.item.answer,
+      tags: normalizeTags(v.item.tags),
+      metadata: normalizeMetadata(v.item.metadata)
+    }), 0);
+    assertCapacity(userId, this.getUsage(userId), { memories: valid.length, bytes: batchBytes });
+
+    // 批量生成向量（在获取锁之前完成，避免长时间持有锁）
+    let embeddings: number[][] | undefined;
+    try {
+      embeddings = await generateEmbeddings(valid.map(v => memoryText(v.item.question, v.item.answer)));
+    } catch (error) {
+      if (!(error instanceof EmbeddingUnavailableError)) throw error;
+      console.error(`[MemoryStore] 嵌入服务不可用，${valid.length} 条记忆将等待后台补齐向量: ${error.message}`);
+    }
+
+    const embeddingModel = getEmbeddingModel();
+    const now = new Date().toISOString();
+    const memories: Memory[] = valid.map((v, i) => {
+      const embedding = embeddings ? Float32Array.from(embeddings[i]) : undefined;
+      return {
+        id: uuidv4(),
+        userId,
+        question: v.item.question,
+        answer: v.item.answer,
+        tags: normalizeTags(v.item.tags),
+        metadata: normalizeMetadata(v.item.metadata),
+        embedding: embedding || new Float32Array(0),
+        embeddingModel: embedding ? embeddingModel : undefined,
+        embeddingDim: embedding?.length,
+        pendingEmbedding: embedding ? undefined : true,
+        createdAt: now,
+        updatedAt: now
+      };
+    });
+
+    // 获取写入锁，确保并发安全
+    const releaseLock = await this.acquireWriteLock(userId);
+
+    try {
+      assertCapacity(userId, this.getUsage(userId), { memories: valid.length, bytes: batchBytes });
+
+      const userMemories = this.getUserMemories(userId);
+      userMemories.push(...memories);
+      this.cache.set(userId, userMemories);
+      this.saveUser(userId, { upserted: memories, deleted: [] });
+      for (const memory of memories) {
+        this.updateKeywordIndex(userId, memory);
+        this.updateAnnIndex(userId, memory);
+      }
+
+      valid.forEach((v, i) => {
+        results[v.index].memory = memories[i];
+      });
+
+      console.error(`[MemoryStore] 已批量添加 ${memories.length}/${items.length} 条记忆 (用户: ${userId})${embeddings ? '' : '，等待补齐向量'}`);
+      return results;
+    } finally {
+      releaseLock();
+    }
+  }
+
+  /**
+   * 导出用户的全部记忆
+   * @param userId 用户ID
+   * @param format 导出格式
+   * @param includeVectors 是否附带向量
+   */
+  export(userId: string, format: TransferFormat, includeVectors: boolean = false): string {
+    return exportMemories(this.getUserMemories(userId), format, { includeVectors, title: userId });
+  }
+
+  /**
+   * 获取导入时可直接使用的向量维度
+   * 优先使用用户已有的当前模型向量，否则询问嵌入服务；没有记录附带当前模型的向量时无需确定
+   * @returns 向量维度，无法确定时返回 undefined（附带的向量全部重新生成）
+   */
+  private async getImportDimension(existing: Memory[], parsed: ParsedRecord[]): Promise<number | undefined> {
+    const model = getEmbeddingModel();
+    if (!parsed.some(({ record }) => record?.embedding && record.embeddingModel === model)) {
+      return undefined;
+    }
+    return existing.find(isCurrentModel)?.embedding.length ?? await getEmbeddingDimension();
+  }
+
+  /**
+   * 规划导入：校验记录并与已有记忆去重（ID 相同，或问题和答案都相同视为重复）
+   * @param existing 用户当前的记忆
+   * @param parsed 解析后的记录
+   * @param dimension 当前模型的向量维度，附带的向量维度不一致时重新生成
+   */
+  private planImport(existing: Memory[], parsed: ParsedRecord[], dimension: number | undefined): ImportItemResult[] {
+    const ids = new Set(existing.map(m => m.id));
+    const texts = new Map<string, string>(existing.map(m => [memoryText(m.question.trim(), m.answer.trim()), '已有记忆']));
+    const model = getEmbeddingModel();
+
+    return parsed.map(({ record, error }, index): ImportItemResult => {
+      if (!record) {
+        return { index, action: 'invalid', reason: error };
+      }
+      const question = record.question.trim();
+      const answer = record.answer.trim();
+      if (!question || !answer) {
+        return { index, action: 'invalid', question, reason: 'question 和 answer 是必填参数' };
+      }
+      const lengthError = checkTextLength(question, answer);
+      if (lengthError) {
+        return { index, action: 'invalid', question, reason: `超出配额：${lengthError}` };
+      }
+
+      const text = memoryText(question, answer);
+      const duplicateOf = record.id && ids.has(record.id) ? '已有记忆（ID 相同）' : texts.get(text);
+      if (duplicateOf) {
+        return { index, action: 'duplicate', question, reason: `与${duplicateOf}重复` };
+      }
+
+      texts.set(text, `导入文件第 ${index + 1} 条`);
+      const reusable = record.embedding !== undefined && record.embeddingModel === model
+        && record.embedding.length === dimension;
+      return { index, action: 'create', question, reembed: !reusable };
+    });
+  }
+
+  /**
+   * 导入记忆
+   * 向量缺失、由其他模型生成或维度与当前模型不一致的记录重新生成向量；ID 重新生成，保留原有的标签、元数据和时间
+   * @param userId 用户ID
+   * @param parsed 解析后的记录（见 parseImport）
+   * @param dryRun 为 true 时只返回预览，不写入数据
+   */
+  async importMemories(userId: string, parsed: ParsedRecord[], dryRun: boolean = false): Promise<ImportSummary> {
+    if (parsed.length > MAX_IMPORT_SIZE) {
+      throw new Error(`单次最多导入 ${MAX_IMPORT_SIZE} 条记忆，当前 ${parsed.length} 条`);
+    }
+
+    const dimension = await this.getImportDimension(this.getUserMemories(userId), parsed);
+    let items = this.planImport(this.getUserMemories(userId), parsed, dimension);
+    const summarize = (): ImportSummary => ({
+      dryRun,
+      total: items.length,
+      created: items.filter(i => i.action === 'create').length,
+      duplicates: items.filter(i => i.action === 'duplicate').length,
+      invalid: items.filter(i => i.action === 'invalid').length,
+      reembed: items.filter(i => i.action === 'create' && i.reembed).length,
+      items
+    });
+    // 预览时同样检查配额，便于提前发现导入后会超出
+    const checkCapacity = (): void => {
+      const created = items.filter(i => i.action === 'create');
+      const bytes = created.reduce((sum, i) => {
+        const record = parsed[i.index].record!;
+        return sum + memoryBytes({
+          question: record.question.trim(),
+          answer: record.answer.trim(),
+          tags: normalizeTags(record.tags),
+          metadata: normalizeMetadata(record.metadata)
+        });
+      }, 0);
+      assertCapacity(userId, this.getUsage(userId), { memories: created.length, bytes });
+    };
+    checkCapacity();
+    if (dryRun) {
+      return summarize();
+    }
+
+    // 批量生成向量（在获取锁之前完成，避免长时间持有锁）
+    const toEmbed = items.filter(i => i.action === 'create' && i.reembed);
+    const embeddings = new Map<number, number[]>();
+    if (toEmbed.length > 0) {
+      try {
+        const vectors = await generateEmbeddings(toEmbed.map(i => {
+          const record = parsed[i.index].record!;
+          return memoryText(record.question.trim(), record.answer.trim());
+        }));
+        toEmbed.forEach((item, i) => embeddings.set(item.index, vectors[i]));
+      } catch (error) {
+        if (!(error instanceof EmbeddingUnavailableError)) throw error;
+        console.error(`[MemoryStore] 嵌入服务不可用，${toEmbed.length} 条导入的记忆将等待后台补齐向量: ${error.message}`);
+      }
+    }
+
+    const releaseLock = await this.acquireWriteLock(userId);
+
+    try {
+      // 生成向量期间可能有新的写入，重新去重
+      const userMemories = this.getUserMemories(userId);
+      items = this.planImport(userMemories, parsed, dimension);
+      checkCapacity();
+
+      const model = getEmbeddingModel();
+      const now = new Date().toISOString();
+      const memories: Memory[] = [];
+      for (const item of items) {
+        if (item.action !== 'create') continue;
+        const record = parsed[item.index].record!;
+        const vector = item.reembed ? embeddings.get(item.index) : record.embedding;
+        const embedding = vector ? Float32Array.from(vector) : undefined;
+        const memory: Memory = {
+          id: uuidv4(),
+          userId,
+          question: record.question.trim(),
+          answer: record.answer.trim(),
+          tags: normalizeTags(record.tags),
+          metadata: normalizeMetadata(record.metadata),
+          embedding: embedding || new Float32Array(0),
+          embeddingModel: embedding ? model : undefined,
+          embeddingDim: embedding?.length,
+          pendingEmbedding: embedding ? undefined : true,
+          createdAt: record.createdAt || now,
+          updatedAt: record.updatedAt || record.createdAt || now
+        };
+        item.id = memory.id;
+        item.pendingEmbedding = memory.pendingEmbedding;
+        memories.push(memory);
+      }
+
+      if (memories.length > 0) {
+        userMemories.push(...memories);
+        this.cache.set(userId, userMemories);
+        this.saveUser(userId, { upserted: memories, deleted: [] });
+        for (const memory of memories) {
+          this.updateKeywordIndex(userId, memory);
+          this.updateAnnIndex(userId, memory);
+        }
+      }
+
+      const result = summarize();
+      console.error(`[MemoryStore] 已导入 ${result.created}/${result.total} 条记忆 (用户: ${userId})，重复 ${result.duplicates} 条，无效 ${result.invalid} 条`);
+      return result;
+    } finally {
+      releaseLock();
+    }
+  }
+
   /**
    * 搜索相关记忆（按用户隔离）
    * @param userId 用户ID
    * @param query 查询文本
    * @param limit 返回数量限制
+   * @param options 过滤条件（在排序之前应用）和搜索模式
    * @returns 搜索结果列表
+   * @throws {InvalidFilterError} 元数据过滤条件无效
    */
-  async search(userId: string, query: string, limit: number = 5): Promise<SearchResult[]> {
+  async search(
+    userId: string,
+    query: string,
+    limit: number = 5,
+    options: { filter?: MemoryFilter; mode?: SearchMode } = {}
+  ): Promise<SearchResult[]> {
+    const mode = options.mode || DEFAULT_SEARCH_MODE;
+    // 没有记忆时同样拒绝无效的过滤条件
+    const filter = options.filter && normalizeFilter(options.filter);
+
     // 获取该用户的记忆
-    const userMemories = this.getUserMemories(userId);
+    const allMemories = this.getUserMemories(userId);
     
-    if (userMemories.length === 0) {
+    if (allMemories.length === 0) {
       console.error(`[MemoryStore] 用户 ${userId} 没有记忆数据`);
       return [];
     }
 
-    // 生成查询向量
-    const queryEmbedding = await generateEmbedding(query);
+    // 先按过滤条件缩小候选范围，再进行排序
+    const userMemories = filterMemories(allMemories, filter);
+    if (userMemories.length === 0) {
+      console.error(`[MemoryStore] 用户 ${userId} 没有符合过滤条件的记忆`);
+      return [];
+    }
+
+    const depth = mode === 'hybrid' ? limit * HYBRID_CANDIDATE_FACTOR : limit * 2;
+
+    // 向量召回（跳过其他模型或维度不一致的向量，避免混用不同向量空间）
+    let vectorResults: SearchResult[] = [];
+    const queryEmbedding = mode === 'keyword'
+      ? undefined
+      : mode === 'vector'
+        ? await generateEmbedding(query)
+        : await generateEmbedding(query).catch((error: Error) => {
+          // 混合模式下嵌入服务暂时不可用时退化为关键词搜索，配置错误仍然返回给调用方
+          if (!(error instanceof EmbeddingUnavailableError)) throw error;
+          console.error(`[MemoryStore] 嵌入服务不可用，混合搜索退化为关键词搜索: ${error.message}`);
+          return undefined;
+        });
+    if (queryEmbedding) {
+      const vectorCandidates = userMemories.filter(
+        m => isCurrentModel(m) && m.embedding.length === queryEmbedding.length
+      );
+      if (vectorCandidates.length < userMemories.length) {
+        console.error(`[MemoryStore] 用户 ${userId} 有 ${userMemories.length - vectorCandidates.length} 条记忆的向量与当前模型不一致，已跳过向量搜索`);
+      }
+      const results = this.vectorSearch(userId, queryEmbedding, vectorCandidates, depth);
+      vectorResults = filterByThreshold(results, SIMILARITY_THRESHOLD)
+        .map(r => ({ ...r, vectorScore: r.score }));
+    }
+
+    let final: SearchResult[];
 
-    // 搜索相似记忆
-    const results = searchSimilar(queryEmbedding, userMemories, limit * 2);
+    if (mode === 'vector') {
+      final = vectorResults;
+    } else {
+      // 关键词召回（有过滤条件时只在候选集中搜索）
+      const candidates = userMemories.length === allMemories.length
+        ? undefined
+        : new Set(userMemories.map(m => m.id));
+      const hits = this.getKeywordIndex(userId).search(query, depth, candidates);
+      const byId = new Map(userMemories.map(m => [m.id, m]));
 
-    // 过滤低相似度结果
-    const filtered = filterByThreshold(results, SIMILARITY_THRESHOLD);
+      if (mode === 'keyword') {
+        const maxScore = hits.length > 0 ? hits[0].score : 1;
+        final = hits.map(h => ({
+          memory: byId.get(h.id)!,
+          score: h.score / maxScore,
+          keywordScore: h.score
+        }));
+      } else {
+        const vectorScores = new Map(vectorResults.map(r => [r.memory.id, r.score]));
+        const keywordScores = new Map(hits.map(h => [h.id, h.score]));
+        const fused = reciprocalRankFusion([
+          vectorResults.map(r => r.memory.id),
+          hits.map(h => h.id)
+        ]);
+        final = fused.map(f => ({
+          memory: byId.get(f.id)!,
+          score: f.score,
+          vectorScore: vectorScores.get(f.id),
+          keywordScore: keywordScores.get(f.id)
+        }));
+      }
+    }
 
-    console.error(`[MemoryStore] 搜索 "${query}" (用户: ${userId}) 找到 ${filtered.length} 条相关记忆`);
-    return filtered.slice(0, limit);
+    console.error(`[MemoryStore] 搜索 "${query}" (用户: ${userId}, 模式: ${mode}) 找到 ${final.length} 条相关记忆`);
+    return final.slice(0, limit);
   }
 
   /**
    * 删除指定记忆（需验证用户归属）
+   * 记忆移入回收站，不再出现在搜索和列表中，可恢复；超过保留期限后自动清除
    * @param userId 用户ID
    * @param id 记忆ID
+   * @param actor 操作者（mcp:stdio、mcp:sse:{sessionId} 或 admin）
    * @returns 是否删除成功
    */
-  async delete(userId: string, id: string): Promise<boolean> {
+  async delete(userId: string, id: string, actor: string): Promise<boolean> {
     // 获取写入锁，确保并发安全
     const releaseLock = await this.acquireWriteLock(userId);
     
@@ -233,17 +1121,379 @@ class MemoryStore {
         return false;
       }
 
-      userMemories.splice(index, 1);
+      const [removed] = userMemories.splice(index, 1);
+      removed.deletedAt = new Date().toISOString();
+      removed.deletedBy = actor;
+      this.getTrashedMemories(userId).push(removed);
       this.cache.set(userId, userMemories);
-      this.saveUser(userId);
+      this.saveUser(userId, { upserted: [removed], deleted: [] });
+      this.updateKeywordIndex(userId, removed, true);
+      this.updateAnnIndex(userId, removed, true);
 
-      console.error(`[MemoryStore] 已删除记忆: ${id} (用户: ${userId})`);
+      console.error(`[MemoryStore] 已将记忆移入回收站: ${id} (用户: ${userId}, 操作者: ${actor})`);
       return true;
     } finally {
       releaseLock();
     }
   }
 
+  /**
+   * 获取用户回收站中的记忆（不含向量，最近删除的在前）
+   * @param userId 用户ID
+   */
+  listTrash(userId: string): Omit<Memory, 'embedding'>[] {
+    return [...this.getTrashedMemories(userId)]
+      .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!) || a.id.localeCompare(b.id))
+      .map(({ embedding, ...rest }) => rest);
+  }
+
+  /**
+   * 从回收站恢复记忆
+   * @param userId 用户ID
+   * @param id 记忆ID
+   * @returns 恢复后的记忆，回收站中没有时返回 undefined
+   */
+  async restore(userId: string, id: string): Promise<Memory | undefined> {
+    const releaseLock = await this.acquireWriteLock(userId);
+
+    try {
+      const trashed = this.getTrashedMemories(userId);
+      const index = trashed.findIndex(m => m.id === id);
+      if (index === -1) {
+        console.error(`[MemoryStore] 回收站中未找到记忆: ${id} (用户: ${userId})`);
+        return undefined;
+      }
+
+      const [memory] = trashed.splice(index, 1);
+      memory.deletedAt = undefined;
+      memory.deletedBy = undefined;
+      const userMemories = this.getUserMemories(userId);
+      userMemories.push(memory);
+      this.cache.set(userId, userMemories);
+      this.saveUser(userId, { upserted: [memory], deleted: [] });
+      this.updateKeywordIndex(userId, memory);
+      this.updateAnnIndex(userId, memory);
+
+      console.error(`[MemoryStore] 已从回收站恢复记忆: ${id} (用户: ${userId})`);
+      return memory;
+    } finally {
+      releaseLock();
+    }
+  }
+
+  /**
+   * 从回收站彻底删除记忆
+   * @param userId 用户ID
+   * @param ids 要删除的记忆ID，不指定时清空回收站
+   * @returns 实际删除的数量
+   */
+  async purge(userId: string, ids?: string[]): Promise<number> {
+    const releaseLock = await this.acquireWriteLock(userId);
+
+    try {
+      return this.purgeLocked(userId, m => !ids || ids.includes(m.id));
+    } finally {
+      releaseLock();
+    }
+  }
+
+  /**
+   * 彻底删除回收站中满足条件的记忆（调用方持有写入锁）
+   */
+  private purgeLocked(userId: string, predicate: (memory: Memory) => boolean): number {
+    const trashed = this.getTrashedMemories(userId);
+    const purged = trashed.filter(predicate);
+    if (purged.length === 0) {
+      return 0;
+    }
+
+    this.trash.set(userId, trashed.filter(m => !predicate(m)));
+    this.saveUser(userId, { upserted: [], deleted: purged.map(m => m.id) });
+
+    console.error(`[MemoryStore] 已从回收站彻底删除 ${purged.length} 条记忆 (用户: ${userId})`);
+    return purged.length;
+  }
+
+  /**
+   * 清除所有用户回收站中超过保留期限的记忆
+   * 根据摘要跳过回收站为空的用户，不加载其数据
+   * @param retentionDays 保留天数
+   * @returns 清除的数量
+   */
+  async purgeExpiredTrash(retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    let total = 0;
+
+    for (const userId of this.getUsers()) {
+      if (!this.getSummary(userId)?.trashed) continue;
+
+      const releaseLock = await this.acquireWriteLock(userId);
+      try {
+        total += this.purgeLocked(userId, m => m.deletedAt! < cutoff);
+      } finally {
+        releaseLock();
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * 更新指定记忆（需验证用户归属）
+   * 修改问题和/或答案后重新生成向量，ID 和创建时间保持不变
+   * 仅修改标签或元数据时不会重新生成向量；内容有变化时保存修改前的版本作为修订记录
+   * @param userId 用户ID
+   * @param id 记忆ID
+   * @param changes 需要修改的问题、答案、标签和/或元数据
+   * @param source 修改来源（mcp:stdio、mcp:sse:{sessionId} 或 admin）
+   * @param action 修改方式，回退到历史版本时为 revert
+   * @returns 更新后的记忆，未找到时返回 undefined
+   * @throws 提供了问题或答案但为空（或只有空白）时抛出错误
+   */
+  async update(
+    userId: string,
+    id: string,
+    changes: { question?: string; answer?: string; tags?: string[]; metadata?: Metadata },
+    source: string,
+    action: MemoryRevision['action'] = 'update'
+  ): Promise<Memory | undefined> {
+    if (isBlankText(changes.question) || isBlankText(changes.answer)) {
+      throw new Error('question 和 answer 不能为空');
+    }
+
+    const existing = this.get(userId, id);
+    if (!existing) {
+      console.error(`[MemoryStore] 未找到记忆: ${id} (用户: ${userId})`);
+      return undefined;
+    }
+
+    // 内容变化时重新生成向量（在获取锁之前完成，避免长时间持有锁）
+    // 嵌入服务不可用时同样保存修改，标记为待补齐向量
+    let embedded: { text: string; embedding?: Float32Array; model: string } | undefined;
+    const newQuestion = changes.question ?? existing.question;
+    const newAnswer = changes.answer ?? existing.answer;
+    if (newQuestion !== existing.question || newAnswer !== existing.answer) {
+      assertTextLength(newQuestion, newAnswer);
+      const text = memoryText(newQuestion, newAnswer);
+      embedded = { text, embedding: await tryGenerateEmbedding(text), model: getEmbeddingModel() };
+    }
+
+    // 获取写入锁，确保并发安全
+    const releaseLock = await this.acquireWriteLock(userId);
+
+    try {
+      // 等待期间记忆可能已被删除或修改（包括后台补齐、重新索引写入的向量），需重新查找并以最新内容为准
+      const userMemories = this.getUserMemories(userId);
+      const memory = userMemories.find(m => m.id === id);
+
+      if (!memory) {
+        console.error(`[MemoryStore] 未找到记忆: ${id} (用户: ${userId})`);
+        return undefined;
+      }
+
+      const question = changes.question ?? memory.question;
+      const answer = changes.answer ?? memory.answer;
+      const textChanged = question !== memory.question || answer !== memory.answer;
+      if (textChanged) {
+        assertTextLength(question, answer);
+      }
+
+      const revision: MemoryRevision = {
+        id: uuidv4(),
+        memoryId: memory.id,
+        question: memory.question,
+        answer: memory.answer,
+        tags: memory.tags || [],
+        metadata: memory.metadata || {},
+        changedAt: new Date().toISOString(),
+        source,
+        action
+      };
+
+      const tags = changes.tags !== undefined ? normalizeTags(changes.tags) : memory.tags;
+      const metadata = changes.metadata !== undefined ? normalizeMetadata(changes.metadata) : memory.metadata;
+      assertCapacity(userId, this.getUsage(userId), {
+        memories: 0,
+        bytes: memoryBytes({ question, answer, tags, metadata }) - memoryBytes(memory)
+      });
+
+      // 只在问题或答案变化时替换向量；生成向量后内容又被其他写入修改时，向量已不对应，标记为待补齐
+      if (textChanged) {
+        const fresh = embedded?.text === memoryText(question, answer) ? embedded : undefined;
+        const embedding = fresh?.embedding;
+        memory.question = question;
+        memory.answer = answer;
+        memory.embedding = embedding || new Float32Array(0);
+        memory.embeddingModel = embedding ? fresh?.model : undefined;
+        memory.embeddingDim = embedding?.length;
+        memory.pendingEmbedding = embedding ? undefined : true;
+      }
+      memory.tags = tags;
+      memory.metadata = metadata;
+      memory.updatedAt = revision.changedAt;
+      const changed = memory.question !== revision.question || memory.answer !== revision.answer
+        || JSON.stringify(memory.tags) !== JSON.stringify(revision.tags)
+        || JSON.stringify(memory.metadata) !== JSON.stringify(revision.metadata);
+      this.saveUser(userId, { upserted: [memory], deleted: [], revisions: changed ? [revision] : [] });
+      this.updateKeywordIndex(userId, memory);
+      if (textChanged) {
+        this.updateAnnIndex(userId, memory);
+      }
+
+      console.error(`[MemoryStore] 已更新记忆: ${id} (用户: ${userId}, 来源: ${source})`);
+      return memory;
+    } finally {
+      releaseLock();
+    }
+  }
+
+  /**
+   * 获取记忆的修订记录（需验证用户归属，回收站中的记忆同样可以查看）
+   * @param userId 用户ID
+   * @param id 记忆ID
+   * @returns 修订记录（最近的在前），记忆不存在时返回 undefined
+   */
+  getHistory(userId: string, id: string): MemoryRevision[] | undefined {
+    if (!this.get(userId, id) && !this.getTrashedMemories(userId).some(m => m.id === id)) {
+      return undefined;
+    }
+    return this.backend.loadRevisions(userId, id).reverse();
+  }
+
+  /**
+   * 将记忆回退到某个修订版本（回退本身也会产生一条修订记录，可以再次撤销）
+   * @param userId 用户ID
+   * @param id 记忆ID
+   * @param revisionId 修订ID
+   * @param source 修改来源
+   * @returns 回退后的记忆，记忆或修订记录不存在时返回 undefined
+   */
+  async revert(userId: string, id: string, revisionId: string, source: string): Promise<Memory | undefined> {
+    const revision = this.getHistory(userId, id)?.find(r => r.id === revisionId);
+    if (!revision) {
+      console.error(`[MemoryStore] 未找到修订记录: ${revisionId} (记忆: ${id}, 用户: ${userId})`);
+      return undefined;
+    }
+
+    return this.update(
+      userId,
+      id,
+      { question: revision.question, answer: revision.answer, tags: revision.tags, metadata: revision.metadata },
+      source,
+      'revert'
+    );
+  }
+
+  /**
+   * 统计向量状态
+   * @param userId 可选，指定用户；不指定时统计所有用户
+   */
+  getEmbeddingStats(userId?: string): EmbeddingStats {
+    const stats: EmbeddingStats = { total: 0, current: 0, mismatched: 0, missing: 0, pending: 0, untracked: 0 };
+    const model = getEmbeddingModel();
+    const summaries = userId ? [this.getSummary(userId)] : this.getSummaries();
+
+    for (const summary of summaries) {
+      if (!summary) continue;
+      stats.total += summary.count;
+      stats.pending += summary.pending;
+      stats.missing += summary.missing;
+      for (const [name, count] of Object.entries(summary.models)) {
+        if (!name) {
+          stats.untracked += count;
+        } else if (name === model) {
+          stats.current += count;
+        } else {
+          stats.mismatched += count;
+        }
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * 获取需要重新生成向量的记忆
+   * @param userId 用户ID
+   * @param force 为 true 时返回所有记忆
+   * @returns 记忆ID和用于生成向量的文本
+   */
+  getReembedCandidates(userId: string, force: boolean = false): Array<{ id: string; text: string }> {
+    // 未缓存的用户先查看摘要，向量都已是当前模型时无需加载
+    if (!force && !this.cache.has(userId)) {
+      const summary = this.backend.getSummary(userId);
+      if (!summary || summary.count === (summary.models[getEmbeddingModel()] || 0)) {
+        return [];
+      }
+    }
+    return this.getUserMemories(userId)
+      .filter(m => needsReembedding(m, force))
+      .map(m => ({ id: m.id, text: memoryText(m.question, m.answer) }));
+  }
+
+  /**
+   * 获取等待补齐向量的记忆
+   * @param userId 用户ID
+   * @returns 记忆ID和用于生成向量的文本
+   */
+  getPendingEmbeddings(userId: string): Array<{ id: string; text: string }> {
+    if (!this.cache.has(userId) && !this.backend.getSummary(userId)?.pending) {
+      return [];
+    }
+    return this.getUserMemories(userId)
+      .filter(m => m.pendingEmbedding)
+      .map(m => ({ id: m.id, text: memoryText(m.question, m.answer) }));
+  }
+
+  /**
+   * 批量替换记忆的向量（用于重新索引和补齐待生成的向量）
+   * 在一次写入锁内完成并只保存一次；期间已被删除或内容已修改的记忆会被跳过
+   * @param userId 用户ID
+   * @param updates 记忆ID、生成向量时使用的文本和新向量
+   * @param model 生成向量所用的模型
+   * @returns 实际更新的数量
+   */
+  async applyEmbeddings(
+    userId: string,
+    updates: Array<{ id: string; text: string; embedding: number[] }>,
+    model: string
+  ): Promise<number> {
+    const releaseLock = await this.acquireWriteLock(userId);
+
+    try {
+      const byId = new Map(this.getUserMemories(userId).map(m => [m.id, m]));
+      const applied: Memory[] = [];
+      let replaced = false;
+
+      for (const update of updates) {
+        const memory = byId.get(update.id);
+        if (!memory || memoryText(memory.question, memory.answer) !== update.text) continue;
+        replaced = replaced || memory.embedding.length > 0;
+        memory.embedding = Float32Array.from(update.embedding);
+        memory.embeddingModel = model;
+        memory.embeddingDim = memory.embedding.length;
+        memory.pendingEmbedding = undefined;
+        applied.push(memory);
+      }
+
+      if (applied.length > 0) {
+        this.saveUser(userId, { upserted: applied, deleted: [] });
+        if (replaced) {
+          // 已有向量被替换（如切换模型），丢弃近似最近邻索引，下次搜索时重建
+          this.annIndexes.delete(userId);
+          this.scheduleAnnSave(userId);
+        } else {
+          // 仅补齐缺失的向量，增量加入索引
+          applied.forEach(memory => this.updateAnnIndex(userId, memory));
+        }
+      }
+
+      return applied.length;
+    } finally {
+      releaseLock();
+    }
+  }
+
   /**
    * 获取用户的所有记忆（不含向量，用于列表展示）
    * @param userId 用户ID
@@ -254,22 +1504,80 @@ class MemoryStore {
     return userMemories.map(({ embedding, ...rest }) => rest);
   }
 
+  /**
+   * 分页查询用户的记忆（不含向量）
+   * 支持 offset 或 cursor 两种分页方式，cursor 为上一页最后一条记忆的 ID
+   * @param userId 用户ID
+   * @param options 分页、排序和过滤选项
+   * @returns 当前页数据、总数和下一页游标
+   * @throws {InvalidFilterError} 元数据过滤条件无效
+   */
+  query(userId: string, options: Omit<ListMemoryParams, 'userId'> = {}): ListResult {
+    const { limit = 20, offset = 0, cursor, sortBy = 'createdAt', order = 'desc', contains, ...filter } = options;
+    let memories = filterMemories(this.getUserMemories(userId), filter);
+
+    if (contains) {
+      const keyword = contains.toLowerCase();
+      memories = memories.filter(m =>
+        m.question.toLowerCase().includes(keyword) || m.answer.toLowerCase().includes(keyword)
+      );
+    }
+
+    // ISO 时间字符串可直接按字典序比较，相同时间按 ID 排序保证游标稳定
+    const direction = order === 'asc' ? 1 : -1;
+    const sorted = [...memories].sort((a, b) => {
+      const cmp = a[sortBy].localeCompare(b[sortBy]) || a.id.localeCompare(b.id);
+      return cmp * direction;
+    });
+
+    let start = offset;
+    if (cursor) {
+      const index = sorted.findIndex(m => m.id === cursor);
+      if (index === -1) {
+        throw new Error(`无效的游标: ${cursor}`);
+      }
+      start = index + 1;
+    }
+
+    const page = sorted.slice(start, start + limit);
+    const hasMore = start + limit < sorted.length;
+
+    return {
+      memories: page.map(({ embedding, ...rest }) => rest),
+      total: sorted.length,
+      nextCursor: hasMore && page.length > 0 ? page[page.length - 1].id : undefined
+    };
+  }
+
   /**
    * 获取记忆总数
    * @param userId 可选，指定用户
    */
   count(userId?: string): number {
     if (userId) {
-      return this.getUserMemories(userId).length;
+      return this.getSummary(userId)?.count || 0;
     }
     // 统计所有用户的记忆总数
     let total = 0;
-    for (const memories of this.cache.values()) {
-      total += memories.length;
+    for (const summary of this.getSummaries()) {
+      total += summary.count;
     }
     return total;
   }
 
+  /**
+   * 获取用户的配额用量（记忆数量和文本字节数，回收站中的记忆同样计入）
+   * @param userId 用户ID
+   */
+  getUsage(userId: string): QuotaUsage {
+    const memories = this.getUserMemories(userId);
+    const trashed = this.getTrashedMemories(userId);
+    let bytes = 0;
+    for (const memory of memories) bytes += memoryBytes(memory);
+    for (const memory of trashed) bytes += memoryBytes(memory);
+    return { memories: memories.length, trashed: trashed.length, bytes };
+  }
+
   /**
    * 根据ID获取记忆（需验证用户归属）
    * @param userId 用户ID
@@ -281,11 +1589,35 @@ class MemoryStore {
     return userMemories.find(m => m.id === id);
   }
 
+  /**
+   * 获取用户数据缓存状态
+   */
+  getCacheStats(): CacheStats {
+    return {
+      users: Array.from(this.cache.keys()),
+      bytes: this.cacheBytes,
+      maxBytes: Math.max(0, CACHE_MAX_MB * 1024 * 1024)
+    };
+  }
+
   /**
    * 获取所有用户ID列表
    */
   getUsers(): string[] {
-    return Array.from(this.cache.keys());
+    return this.backend.listUsers();
+  }
+
+  /**
+   * 获取所有用户的数据摘要（已缓存的用户使用缓存中的最新数据）
+   */
+  private getSummaries(): UserSummary[] {
+    const summaries = this.backend.getSummaries();
+    for (const [userId, memories] of this.cache) {
+      if (this.isCacheFresh(userId)) {
+        summaries.set(userId, summarizeMemories([...memories, ...(this.trash.get(userId) || [])]));
+      }
+    }
+    return Array.from(summaries.values());
   }
 }
 
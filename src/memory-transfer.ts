@@ -0,0 +1,336 @@
+import type { Memory, Metadata, ImportRecord, TransferFormat } from './types.js';
+
+/**
+ * 各格式的文件扩展名和 Content-Type
+ */
+export const TRANSFER_FILE_TYPES: Record<TransferFormat, { extension: string; contentType: string }> = {
+  jsonl: { extension: 'jsonl', contentType: 'application/x-ndjson; charset=utf-8' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+};
+
+/**
+ * CSV 列（向量列仅在导出向量时存在）
+ */
+const CSV_COLUMNS = ['id', 'question', 'answer', 'tags', 'metadata', 'createdAt', 'updatedAt', 'embeddingModel', 'embedding'] as const;
+
+/**
+ * Markdown 中记录字段的注释行
+ */
+const MARKDOWN_META_PATTERN = /^<!-- memory (.*) -->$/;
+
+/**
+ * Markdown 中需要转义的答案行（会被误认为新记忆的开头），已有的反斜杠前缀同样多转义一层
+ */
+const MARKDOWN_ESCAPE_PATTERN = /^(\\*)(## |<!-- memory )/;
+
+/**
+ * 解析后的一条记录，无法解析时只有错误信息
+ */
+export interface ParsedRecord {
+  record?: ImportRecord;
+  error?: string;
+}
+
+/**
+ * 校验导出/导入格式参数
+ */
+export function parseTransferFormat(value: unknown): TransferFormat | undefined {
+  return value === 'jsonl' || value === 'csv' || value === 'markdown' ? value : undefined;
+}
+
+/**
+ * 记忆 -> 导出结构
+ */
+function toExportRecord(memory: Memory, includeVectors: boolean): ImportRecord {
+  const record: ImportRecord = {
+    id: memory.id,
+    question: memory.question,
+    answer: memory.answer,
+    tags: memory.tags || [],
+    metadata: memory.metadata || {},
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+  };
+  if (includeVectors && memory.embedding.length > 0) {
+    record.embeddingModel = memory.embeddingModel;
+    record.embedding = Array.from(memory.embedding);
+  }
+  return record;
+}
+
+/**
+ * 导出记忆
+ * @param memories 用户的记忆
+ * @param format 导出格式
+ * @param options includeVectors 是否附带向量；title 为 Markdown 标题中的用户
+ */
+export function exportMemories(
+  memories: Memory[],
+  format: TransferFormat,
+  options: { includeVectors?: boolean; title?: string } = {}
+): string {
+  const records = memories.map(m => toExportRecord(m, options.includeVectors === true));
+
+  switch (format) {
+    case 'jsonl':
+      return records.map(r => JSON.stringify(r)).join('\n') + (records.length > 0 ? '\n' : '');
+    case 'csv':
+      return exportCsv(records, options.includeVectors === true);
+    case 'markdown':
+      return exportMarkdown(records, options.title);
+  }
+}
+
+/**
+ * CSV 字段转义：包含逗号、引号或换行时加引号
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 导出为 CSV（带 BOM，方便表格软件识别 UTF-8）
+ */
+function exportCsv(records: ImportRecord[], includeVectors: boolean): string {
+  const columns = includeVectors ? CSV_COLUMNS : CSV_COLUMNS.filter(c => c !== 'embedding');
+  const rows = records.map(record => columns.map(column => {
+    switch (column) {
+      case 'tags':
+        return (record.tags || []).join(',');
+      case 'metadata':
+        return JSON.stringify(record.metadata || {});
+      case 'embedding':
+        return record.embedding ? JSON.stringify(record.embedding) : '';
+      default:
+        return record[column] ?? '';
+    }
+  }));
+  return '\uFEFF' + [columns as readonly string[], ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * 导出为 Markdown
+ * 每条记忆以二级标题（问题）开头，正文为答案；完整字段记录在标题前的 HTML 注释中，渲染时不可见
+ */
+function exportMarkdown(records: ImportRecord[], title?: string): string {
+  const parts = [`# 记忆导出${title ? `: ${title}` : ''}`, `> 导出时间: ${new Date().toISOString()} · 共 ${records.length} 条`];
+
+  for (const record of records) {
+    const { answer, ...meta } = record;
+    // JSON 中只有字符串里可能出现 "--"，替换为 unicode 转义避免提前结束注释
+    const json = JSON.stringify(meta).replace(/--/g, '-\\u002d');
+    const body = answer.split('\n').map(line => line.replace(MARKDOWN_ESCAPE_PATTERN, '\\$1$2')).join('\n');
+    parts.push(`<!-- memory ${json} -->\n## ${record.question.replace(/\s*\n\s*/g, ' ')}\n\n${body}`);
+  }
+
+  return parts.join('\n\n') + '\n';
+}
+
+/**
+ * 解析导入内容
+ * @param content 文件内容
+ * @param format 文件格式
+ * @returns 按顺序排列的记录，无法解析的记录带错误信息
+ */
+export function parseImport(content: string, format: TransferFormat): ParsedRecord[] {
+  const text = content.replace(/^\uFEFF/, '');
+  switch (format) {
+    case 'jsonl':
+      return parseJsonl(text);
+    case 'csv':
+      return parseCsv(text);
+    case 'markdown':
+      return parseMarkdown(text);
+  }
+}
+
+/**
+ * 将解析出的对象校验并转换为导入记录
+ */
+function toImportRecord(raw: unknown): ParsedRecord {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: '记录必须是对象' };
+  }
+  const value = raw as Record<string, unknown>;
+  const optionalString = (key: string): string | undefined =>
+    typeof value[key] === 'string' && value[key] ? value[key] as string : undefined;
+  // 时间统一为 ISO 格式（排序依赖字典序），无法解析时使用导入时间
+  const optionalDate = (key: string): string | undefined => {
+    const time = Date.parse(optionalString(key) ?? '');
+    return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+  };
+
+  let tags: string[] | undefined;
+  if (Array.isArray(value.tags)) {
+    tags = value.tags.filter((t): t is string => typeof t === 'string');
+  } else if (typeof value.tags === 'string') {
+    tags = value.tags.split(/[,，]/).map(t => t.trim()).filter(Boolean);
+  }
+
+  let metadata: Metadata | undefined;
+  if (value.metadata && typeof value.metadata === 'object' && !Array.isArray(value.metadata)) {
+    metadata = value.metadata as Metadata;
+  } else if (value.metadata !== undefined && value.metadata !== null) {
+    return { error: 'metadata 必须是对象' };
+  }
+
+  let embedding: number[] | undefined;
+  if (Array.isArray(value.embedding) && value.embedding.length > 0) {
+    if (!value.embedding.every(n => typeof n === 'number' && Number.isFinite(n))) {
+      return { error: 'embedding 必须是数字数组' };
+    }
+    embedding = value.embedding as number[];
+  }
+
+  return {
+    record: {
+      id: optionalString('id'),
+      question: typeof value.question === 'string' ? value.question : '',
+      answer: typeof value.answer === 'string' ? value.answer : '',
+      tags,
+      metadata,
+      embedding,
+      embeddingModel: optionalString('embeddingModel'),
+      createdAt: optionalDate('createdAt'),
+      updatedAt: optionalDate('updatedAt'),
+    },
+  };
+}
+
+/**
+ * 解析 JSONL：每个非空行一条记录
+ */
+function parseJsonl(text: string): ParsedRecord[] {
+  const records: ParsedRecord[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      records.push(toImportRecord(JSON.parse(line)));
+    } catch (error) {
+      records.push({ error: `第 ${i + 1} 行不是有效的 JSON: ${(error as Error).message}` });
+    }
+  });
+  return records;
+}
+
+/**
+ * 将 CSV 拆分为行和字段（支持引号内的逗号、换行和转义引号）
+ */
+function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+/**
+ * 解析 CSV：第一行为列名，至少包含 question 和 answer
+ */
+function parseCsv(text: string): ParsedRecord[] {
+  const [header, ...rows] = splitCsv(text);
+  if (!header) return [];
+
+  const columns = header.map(c => c.trim());
+  if (!columns.includes('question') || !columns.includes('answer')) {
+    return [{ error: 'CSV 缺少 question 或 answer 列' }];
+  }
+
+  return rows.map((row, i) => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((column, j) => {
+      raw[column] = row[j] ?? '';
+    });
+    try {
+      raw.metadata = raw.metadata ? JSON.parse(raw.metadata as string) : undefined;
+      raw.embedding = raw.embedding ? JSON.parse(raw.embedding as string) : undefined;
+    } catch (error) {
+      return { error: `第 ${i + 2} 行的 metadata 或 embedding 不是有效的 JSON: ${(error as Error).message}` };
+    }
+    return toImportRecord(raw);
+  });
+}
+
+/**
+ * 解析 Markdown：每个二级标题开始一条记忆，标题为问题，正文为答案
+ * 标题前的 memory 注释（本程序导出时生成）提供完整字段；手写的文件没有注释时只导入问题和答案
+ */
+function parseMarkdown(text: string): ParsedRecord[] {
+  const records: ParsedRecord[] = [];
+  let meta: { value?: Record<string, unknown>; error?: string } | undefined;
+  let current: { meta?: typeof meta; heading: string; lines: string[] } | undefined;
+
+  const finish = () => {
+    if (!current) return;
+    if (current.meta?.error) {
+      records.push({ error: current.meta.error });
+    } else {
+      const value = current.meta?.value || {};
+      records.push(toImportRecord({
+        ...value,
+        question: typeof value.question === 'string' ? value.question : current.heading,
+        answer: current.lines.join('\n').trim(),
+      }));
+    }
+    current = undefined;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const metaMatch = MARKDOWN_META_PATTERN.exec(line);
+    if (metaMatch) {
+      finish();
+      try {
+        meta = { value: JSON.parse(metaMatch[1]) };
+      } catch (error) {
+        meta = { error: `memory 注释不是有效的 JSON: ${(error as Error).message}` };
+      }
+      continue;
+    }
+
+    if (line.startsWith('## ')) {
+      finish();
+      current = { meta, heading: line.slice(3).trim(), lines: [] };
+      meta = undefined;
+      continue;
+    }
+
+    // 标题之前的内容（文档标题、说明）忽略
+    current?.lines.push(line.replace(/^\\(\\*)(## |<!-- memory )/, '$1$2'));
+  }
+  finish();
+
+  return records;
+}
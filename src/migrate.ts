@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+
+/**
+ * 存储迁移命令：将 data/*.json 中的用户数据导入 SQLite 数据库
+ *
+ * 用法: node dist/migrate.js [--overwrite]
+ * - 数据目录由 DATA_DIR 指定，数据库路径由 SQLITE_PATH 指定（默认 {DATA_DIR}/memories.db）
+ * - 数据库中已有记忆的用户默认跳过，--overwrite 时以 JSON 数据为准整体覆盖
+ * - 修订记录（data/{key}.history）一并迁移
+ * - JSON 文件不会被删除，可在确认迁移结果后手动清理
+ */
+import { createStorageBackend, getSqlitePath } from './storage-backend.js';
+
+const DATA_DIR = process.env.DATA_DIR || './data';
+
+function main(): void {
+  const overwrite = process.argv.includes('--overwrite');
+  const source = createStorageBackend(DATA_DIR, 'json');
+  const target = createStorageBackend(DATA_DIR, 'sqlite');
+
+  console.error(`[Migrate] 源: ${DATA_DIR}/*.json`);
+  console.error(`[Migrate] 目标: ${getSqlitePath(DATA_DIR)}`);
+
+  const existing = new Set(target.listUsers());
+  let migratedUsers = 0;
+  let migratedMemories = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  try {
+    for (const userId of source.listUsers()) {
+      if (existing.has(userId) && !overwrite) {
+        console.error(`[Migrate] 跳过用户 ${userId}: 数据库中已有数据（使用 --overwrite 覆盖）`);
+        skipped++;
+        continue;
+      }
+
+      try {
+        const memories = source.loadUser(userId);
+        target.saveUser(userId, memories);
+
+        // 修订记录随后单独写入（已存在的记录按 ID 跳过）
+        const revisions = source.loadRevisions(userId);
+        if (revisions.length > 0) {
+          target.saveUser(userId, memories, { upserted: [], deleted: [], revisions });
+        }
+
+        // 回读校验，确保数量一致
+        const count = target.loadUser(userId).length;
+        if (count !== memories.length) {
+          throw new Error(`写入 ${memories.length} 条，回读 ${count} 条`);
+        }
+
+        migratedUsers++;
+        migratedMemories += memories.length;
+        console.error(`[Migrate] 已迁移用户 ${userId}: ${memories.length} 条记忆，${revisions.length} 条修订记录`);
+      } catch (error) {
+        failed++;
+        console.error(`[Migrate] 迁移用户 ${userId} 失败:`, error);
+      }
+    }
+  } finally {
+    source.close();
+    target.close();
+  }
+
+  console.error(`[Migrate] 完成: ${migratedUsers} 个用户，${migratedMemories} 条记忆；跳过 ${skipped} 个，失败 ${failed} 个`);
+  if (migratedUsers > 0) {
+    console.error('[Migrate] 设置 STORAGE_BACKEND=sqlite 后重启服务即可使用数据库存储');
+  }
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main();
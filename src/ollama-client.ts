@@ -1,4 +1,5 @@
 import { Ollama } from 'ollama';
+import type { EmbeddingProvider } from './embedding-provider.js';
 
 /**
  * Ollama 客户端配置
@@ -7,51 +8,65 @@ const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
 const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || 'bge-m3';
 
 /**
- * Ollama 客户端实例
+ * Ollama 嵌入提供方
  */
-const ollama = new Ollama({ host: OLLAMA_HOST });
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama';
+  readonly model = EMBEDDING_MODEL;
+  readonly host = OLLAMA_HOST;
 
-/**
- * 生成文本的向量嵌入
- * @param text 要生成嵌入的文本
- * @returns 向量数组
- */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await ollama.embeddings({
-      model: EMBEDDING_MODEL,
-      prompt: text,
-    });
-    return response.embedding;
-  } catch (error) {
-    const err = error as Error;
-    throw new Error(`Ollama embedding 生成失败: ${err.message}`);
-  }
-}
+  /** Ollama 客户端实例 */
+  private ollama = new Ollama({ host: OLLAMA_HOST });
 
-/**
- * 检查 Ollama 服务是否可用
- * @returns 是否可用
- */
-export async function checkOllamaHealth(): Promise<boolean> {
-  try {
-    await ollama.list();
-    return true;
-  } catch {
-    return false;
+  /**
+   * 生成文本的向量嵌入
+   * @param text 要生成嵌入的文本
+   * @returns 向量数组
+   */
+  async embed(text: string): Promise<number[]> {
+    try {
+      const response = await this.ollama.embeddings({
+        model: this.model,
+        prompt: text,
+      });
+      return response.embedding;
+    } catch (error) {
+      const err = error as Error;
+      throw new Error(`Ollama embedding 生成失败: ${err.message}`, { cause: error });
+    }
   }
-}
 
-/**
- * 获取当前使用的模型名称
- */
-export function getEmbeddingModel(): string {
-  return EMBEDDING_MODEL;
-}
+  /**
+   * 批量生成向量嵌入（使用 /api/embed 多输入接口）
+   * @param texts 要生成嵌入的文本列表
+   * @returns 与输入顺序一致的向量数组
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await this.ollama.embed({
+        model: this.model,
+        input: texts,
+      });
+      if (response.embeddings.length !== texts.length) {
+        throw new Error(`返回 ${response.embeddings.length} 条向量，期望 ${texts.length} 条`);
+      }
+      return response.embeddings;
+    } catch (error) {
+      const err = error as Error;
+      throw new Error(`Ollama 批量 embedding 生成失败: ${err.message}`, { cause: error });
+    }
+  }
 
-/**
- * 获取 Ollama 主机地址
- */
-export function getOllamaHost(): string {
-  return OLLAMA_HOST;
+  /**
+   * 检查 Ollama 服务是否可用
+   * @returns 是否可用
+   */
+  async health(): Promise<boolean> {
+    try {
+      await this.ollama.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }
@@ -0,0 +1,115 @@
+import type { EmbeddingProvider } from './embedding-provider.js';
+
+/**
+ * OpenAI 兼容接口配置
+ * 适用于 OpenAI、llama.cpp server、vLLM、LM Studio 等提供 /v1/embeddings 的服务
+ */
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1').replace(/\/+$/, '');
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || 'bge-m3';
+
+/**
+ * /v1/embeddings 响应结构
+ */
+interface EmbeddingsResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+}
+
+/**
+ * 接口返回非 2xx 状态码时抛出的错误，保留状态码用于区分暂时性错误和配置错误
+ */
+class HttpStatusError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`HTTP ${status} ${body}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * OpenAI 兼容的 HTTP 嵌入提供方
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model = EMBEDDING_MODEL;
+  readonly host = OPENAI_BASE_URL;
+
+  /**
+   * 生成请求头
+   */
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (OPENAI_API_KEY) {
+      headers.Authorization = `Bearer ${OPENAI_API_KEY}`;
+    }
+    return headers;
+  }
+
+  /**
+   * 生成文本的向量嵌入
+   * @param text 要生成嵌入的文本
+   * @returns 向量数组
+   */
+  async embed(text: string): Promise<number[]> {
+    try {
+      const [embedding] = await this.request(text);
+      if (!Array.isArray(embedding)) {
+        throw new Error('响应中缺少 embedding 字段');
+      }
+      return embedding;
+    } catch (error) {
+      const err = error as Error;
+      throw new Error(`OpenAI 兼容接口 embedding 生成失败: ${err.message}`, { cause: error });
+    }
+  }
+
+  /**
+   * 批量生成向量嵌入（input 传入数组）
+   * @param texts 要生成嵌入的文本列表
+   * @returns 与输入顺序一致的向量数组
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    try {
+      const embeddings = await this.request(texts);
+      if (embeddings.length !== texts.length || embeddings.some(e => !Array.isArray(e))) {
+        throw new Error(`返回的向量数量与输入不一致（期望 ${texts.length} 条）`);
+      }
+      return embeddings;
+    } catch (error) {
+      const err = error as Error;
+      throw new Error(`OpenAI 兼容接口批量 embedding 生成失败: ${err.message}`, { cause: error });
+    }
+  }
+
+  /**
+   * 请求 /embeddings，按 index 还原输入顺序
+   */
+  private async request(input: string | string[]): Promise<number[][]> {
+    const res = await fetch(`${this.host}/embeddings`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.model, input }),
+    });
+
+    if (!res.ok) {
+      throw new HttpStatusError(res.status, await res.text());
+    }
+
+    const body = (await res.json()) as EmbeddingsResponse;
+    return [...(body.data || [])]
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+
+  /**
+   * 检查服务是否可用（请求 /models 列表）
+   * @returns 是否可用
+   */
+  async health(): Promise<boolean> {
+    try {
+      const res = await fetch(`${this.host}/models`, { headers: this.headers() });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import type { Memory, QuotaLimits, QuotaUsage } from './types.js';
+
+/**
+ * 每个用户最多保存的记忆数量（含回收站），0 表示不限制
+ */
+const QUOTA_MAX_MEMORIES = parseInt(process.env.QUOTA_MAX_MEMORIES || '0', 10);
+
+/**
+ * 每个用户记忆文本的最大总字节数（问题、答案、标签和元数据的 UTF-8 字节，含回收站，不含向量），0 表示不限制
+ */
+const QUOTA_MAX_BYTES = parseInt(process.env.QUOTA_MAX_BYTES || '0', 10);
+
+/**
+ * 问题的最大长度（字符），0 表示不限制
+ */
+const QUOTA_MAX_QUESTION_LENGTH = parseInt(process.env.QUOTA_MAX_QUESTION_LENGTH || '0', 10);
+
+/**
+ * 答案的最大长度（字符），0 表示不限制
+ */
+const QUOTA_MAX_ANSWER_LENGTH = parseInt(process.env.QUOTA_MAX_ANSWER_LENGTH || '0', 10);
+
+/**
+ * 超出配额时抛出的错误
+ */
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(`超出配额：${message}`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * 获取配额设置（0 表示不限制）
+ */
+export function getQuotaLimits(): QuotaLimits {
+  return {
+    maxMemories: Math.max(0, QUOTA_MAX_MEMORIES),
+    maxBytes: Math.max(0, QUOTA_MAX_BYTES),
+    maxQuestionLength: Math.max(0, QUOTA_MAX_QUESTION_LENGTH),
+    maxAnswerLength: Math.max(0, QUOTA_MAX_ANSWER_LENGTH),
+  };
+}
+
+/**
+ * 一条记忆计入配额的字节数
+ */
+export function memoryBytes(memory: Pick<Memory, 'question' | 'answer' | 'tags' | 'metadata'>): number {
+  return Buffer.byteLength(memory.question, 'utf-8')
+    + Buffer.byteLength(memory.answer, 'utf-8')
+    + Buffer.byteLength(JSON.stringify(memory.tags || []), 'utf-8')
+    + Buffer.byteLength(JSON.stringify(memory.metadata || {}), 'utf-8');
+}
+
+/**
+ * 检查问题和答案的长度
+ * @returns 超出时的说明，未超出时返回 undefined
+ */
+export function checkTextLength(question: string, answer: string): string | undefined {
+  const { maxQuestionLength, maxAnswerLength } = getQuotaLimits();
+  if (maxQuestionLength > 0 && question.length > maxQuestionLength) {
+    return `问题最多 ${maxQuestionLength} 个字符，当前 ${question.length} 个`;
+  }
+  if (maxAnswerLength > 0 && answer.length > maxAnswerLength) {
+    return `答案最多 ${maxAnswerLength} 个字符，当前 ${answer.length} 个`;
+  }
+  return undefined;
+}
+
+/**
+ * 检查问题和答案的长度，超出时抛出错误
+ */
+export function assertTextLength(question: string, answer: string): void {
+  const error = checkTextLength(question, answer);
+  if (error) {
+    throw new QuotaExceededError(error);
+  }
+}
+
+/**
+ * 检查写入后用户的记忆数量和字节数是否超出配额，超出时抛出错误
+ * @param userId 用户ID
+ * @param usage 当前用量
+ * @param added 新增的记忆数量和字节数（字节数可以为负，如修改后内容变短）
+ */
+export function assertCapacity(userId: string, usage: QuotaUsage, added: { memories: number; bytes: number }): void {
+  const { maxMemories, maxBytes } = getQuotaLimits();
+  const total = usage.memories + usage.trashed;
+  if (maxMemories > 0 && added.memories > 0 && total + added.memories > maxMemories) {
+    throw new QuotaExceededError(`用户 ${userId} 最多保存 ${maxMemories} 条记忆（含回收站），当前 ${total} 条，本次新增 ${added.memories} 条`);
+  }
+  if (maxBytes > 0 && added.bytes > 0 && usage.bytes + added.bytes > maxBytes) {
+    throw new QuotaExceededError(`用户 ${userId} 的记忆最多占用 ${maxBytes} 字节（含回收站），当前 ${usage.bytes} 字节，本次新增 ${added.bytes} 字节`);
+  }
+}
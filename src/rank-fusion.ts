@@ -0,0 +1,38 @@
+/**
+ * RRF 平滑常数，取论文推荐值 60
+ */
+const RRF_K = 60;
+
+/**
+ * 融合结果
+ */
+export interface FusedRank {
+  /** 文档ID */
+  id: string;
+  /** 归一化后的融合分数 (0-1) */
+  score: number;
+}
+
+/**
+ * 倒数排名融合 (Reciprocal Rank Fusion)
+ * 每个文档的分数为其在各排名列表中 1 / (k + rank) 之和，只依赖排名而不依赖原始分数，
+ * 因此可以直接融合尺度不同的余弦相似度与 BM25 分数。
+ * 分数按"在所有列表中均排第一"的最大值归一化到 0-1。
+ * @param rankings 多个按相关度降序排列的文档ID列表
+ * @param k 平滑常数
+ * @returns 按融合分数降序排列的结果
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): FusedRank[] {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  const maxScore = rankings.length / (k + 1);
+
+  return Array.from(scores, ([id, score]) => ({ id, score: maxScore > 0 ? score / maxScore : 0 }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,227 @@
+/**
+ * 每个用户每分钟补充的工具调用令牌数，0 表示不限制
+ */
+const RATE_LIMIT_USER_PER_MINUTE = parseFloat(process.env.RATE_LIMIT_USER_PER_MINUTE || '300');
+
+/**
+ * 每个用户的令牌桶容量（允许的突发调用数）
+ */
+const RATE_LIMIT_USER_BURST = parseInt(process.env.RATE_LIMIT_USER_BURST || '60', 10);
+
+/**
+ * 每个 MCP 会话每分钟补充的工具调用令牌数，0 表示不限制
+ */
+const RATE_LIMIT_SESSION_PER_MINUTE = parseFloat(process.env.RATE_LIMIT_SESSION_PER_MINUTE || '120');
+
+/**
+ * 每个 MCP 会话的令牌桶容量（允许的突发调用数）
+ */
+const RATE_LIMIT_SESSION_BURST = parseInt(process.env.RATE_LIMIT_SESSION_BURST || '30', 10);
+
+/**
+ * 限流设置
+ */
+export interface RateLimitConfig {
+  /** 每分钟补充的令牌数，0 表示不限制 */
+  perMinute: number;
+  /** 令牌桶容量 */
+  burst: number;
+}
+
+/**
+ * 令牌桶当前状态
+ */
+export interface RateLimitState extends RateLimitConfig {
+  /** 当前可用的令牌数 */
+  available: number;
+}
+
+/**
+ * 令牌桶
+ * 按固定速率补充令牌，每次调用消耗令牌，令牌不足时拒绝
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt: number;
+
+  /**
+   * @param now 时钟（测试时可替换）
+   */
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly now: () => number = Date.now
+  ) {
+    this.tokens = config.burst;
+    this.refilledAt = now();
+  }
+
+  /**
+   * 按经过的时间补充令牌
+   */
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.config.burst, this.tokens + (now - this.refilledAt) * this.config.perMinute / 60000);
+    this.refilledAt = now;
+  }
+
+  /**
+   * 当前可用的令牌数
+   */
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * 一次调用实际消耗的令牌数（超过容量时按容量计算，避免大批量调用永远无法通过）
+   */
+  private cost(cost: number): number {
+    return Math.min(Math.max(cost, 1), this.config.burst);
+  }
+
+  /**
+   * 检查令牌是否足够，不消耗令牌
+   * @returns 令牌不足时返回需要等待的毫秒数，足够时返回 0
+   */
+  check(cost: number = 1): number {
+    this.refill();
+    const needed = this.cost(cost);
+    return this.tokens >= needed ? 0 : Math.ceil((needed - this.tokens) * 60000 / this.config.perMinute);
+  }
+
+  /**
+   * 消耗令牌（调用方先通过 check 确认令牌足够）
+   */
+  deduct(cost: number = 1): void {
+    this.refill();
+    this.tokens = Math.max(0, this.tokens - this.cost(cost));
+  }
+
+  /**
+   * 令牌是否已补满（补满的桶可以丢弃，下次使用时重新创建）
+   */
+  isFull(): boolean {
+    return this.available() >= this.config.burst;
+  }
+}
+
+/**
+ * 超出调用频率限制时抛出的错误
+ */
+export class RateLimitError extends Error {
+  constructor(subject: string, readonly retryAfterMs: number) {
+    super(`${subject} 调用过于频繁，请 ${Math.max(1, Math.ceil(retryAfterMs / 1000))} 秒后重试`);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * 补满的令牌桶被清理的检查间隔(ms)
+ */
+const SWEEP_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * MCP 工具调用限流：同时按用户和按会话限流，两者都有令牌时才放行
+ */
+export class ToolRateLimiter {
+  private userBuckets: Map<string, TokenBucket> = new Map();
+  private sessionBuckets: Map<string, TokenBucket> = new Map();
+  private sweptAt: number;
+
+  /**
+   * @param now 时钟（测试时可替换）
+   */
+  constructor(
+    private readonly userConfig: RateLimitConfig,
+    private readonly sessionConfig: RateLimitConfig,
+    private readonly now: () => number = Date.now
+  ) {
+    this.sweptAt = now();
+  }
+
+  /**
+   * 获取或创建令牌桶，限流关闭时返回 undefined
+   */
+  private bucket(buckets: Map<string, TokenBucket>, key: string, config: RateLimitConfig): TokenBucket | undefined {
+    if (config.perMinute <= 0 || config.burst <= 0) return undefined;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(config, this.now);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * 定期丢弃已补满的令牌桶，避免用户和会话越来越多时占用内存
+   */
+  private sweep(): void {
+    if (this.now() - this.sweptAt < SWEEP_INTERVAL) return;
+    this.sweptAt = this.now();
+    for (const buckets of [this.userBuckets, this.sessionBuckets]) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.isFull()) buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 检查并消耗一次调用的令牌
+   * 先确认会话和用户的令牌都足够再同时扣除，任一方不足时都不消耗，
+   * 避免被拒绝的调用占用另一方的额度（如同一用户其他会话的额度）
+   * @param userId 调用涉及的用户
+   * @param session 会话标识（mcp:stdio 或 mcp:sse:{sessionId}）
+   * @param cost 消耗的令牌数，批量添加按条数计算
+   * @throws 令牌不足时抛出 RateLimitError
+   */
+  consume(userId: string, session: string, cost: number = 1): void {
+    this.sweep();
+    const sessionBucket = this.bucket(this.sessionBuckets, session, this.sessionConfig);
+    const userBucket = this.bucket(this.userBuckets, userId, this.userConfig);
+
+    const sessionWait = sessionBucket?.check(cost) || 0;
+    if (sessionWait > 0) {
+      throw new RateLimitError('当前会话', sessionWait);
+    }
+    const userWait = userBucket?.check(cost) || 0;
+    if (userWait > 0) {
+      throw new RateLimitError(`用户 ${userId}`, userWait);
+    }
+
+    sessionBucket?.deduct(cost);
+    userBucket?.deduct(cost);
+  }
+
+  /**
+   * 会话结束后丢弃其令牌桶
+   */
+  releaseSession(session: string): void {
+    this.sessionBuckets.delete(session);
+  }
+
+  /**
+   * 获取用户当前的限流状态，用于管理平台展示
+   * @returns 限流关闭时返回 undefined
+   */
+  getUserState(userId: string): RateLimitState | undefined {
+    const { perMinute, burst } = this.userConfig;
+    if (perMinute <= 0 || burst <= 0) return undefined;
+    const bucket = this.userBuckets.get(userId);
+    return { perMinute, burst, available: bucket ? Math.floor(bucket.available()) : burst };
+  }
+
+  /**
+   * 获取限流设置
+   */
+  getConfig(): { user: RateLimitConfig; session: RateLimitConfig } {
+    return { user: { ...this.userConfig }, session: { ...this.sessionConfig } };
+  }
+}
+
+/**
+ * 全局工具调用限流器
+ */
+export const toolRateLimiter = new ToolRateLimiter(
+  { perMinute: RATE_LIMIT_USER_PER_MINUTE, burst: RATE_LIMIT_USER_BURST },
+  { perMinute: RATE_LIMIT_SESSION_PER_MINUTE, burst: RATE_LIMIT_SESSION_BURST }
+);
@@ -0,0 +1,125 @@
+import { memoryStore } from './memory-store.js';
+import { generateEmbeddings, getEmbeddingModel } from './embedding-provider.js';
+
+/**
+ * 每批通过一次批量请求生成向量后写入一次，减少请求数和文件重写次数
+ */
+const REINDEX_BATCH_SIZE = 20;
+
+/**
+ * 重新索引任务状态
+ */
+export interface ReindexJob {
+  /** 任务ID */
+  id: string;
+  /** 状态 */
+  status: 'running' | 'completed' | 'failed';
+  /** 目标模型 */
+  model: string;
+  /** 涉及的用户 */
+  userIds: string[];
+  /** 是否重新生成所有记忆（包括已是当前模型的） */
+  force: boolean;
+  /** 需要处理的记忆总数 */
+  total: number;
+  /** 已成功更新的数量 */
+  done: number;
+  /** 失败的数量 */
+  failed: number;
+  /** 当前处理的用户 */
+  currentUserId?: string;
+  /** 开始时间 */
+  startedAt: string;
+  /** 结束时间 */
+  finishedAt?: string;
+  /** 失败原因 */
+  error?: string;
+}
+
+/**
+ * 最近一次任务（同一时间只允许一个任务运行）
+ */
+let currentJob: ReindexJob | undefined;
+
+/**
+ * 获取最近一次重新索引任务
+ */
+export function getReindexJob(): ReindexJob | undefined {
+  return currentJob;
+}
+
+/**
+ * 启动重新索引任务，将记忆的向量迁移到当前模型
+ * 任务在后台运行，通过 getReindexJob 查询进度
+ * @param userId 可选，指定用户；不指定时处理所有用户
+ * @param force 为 true 时重新生成所有记忆的向量
+ * @returns 新创建的任务
+ */
+export function startReindex(userId?: string, force: boolean = false): ReindexJob {
+  if (currentJob?.status === 'running') {
+    throw new Error('已有重新索引任务正在运行');
+  }
+
+  const userIds = userId ? [userId] : memoryStore.getUsers();
+  const plan = userIds.map(id => ({ userId: id, items: memoryStore.getReembedCandidates(id, force) }));
+
+  const job: ReindexJob = {
+    id: Date.now().toString(36),
+    status: 'running',
+    model: getEmbeddingModel(),
+    userIds,
+    force,
+    total: plan.reduce((sum, p) => sum + p.items.length, 0),
+    done: 0,
+    failed: 0,
+    startedAt: new Date().toISOString()
+  };
+  currentJob = job;
+
+  console.error(`[Reindex] 开始重新索引: ${job.total} 条记忆, ${userIds.length} 个用户, 目标模型 ${job.model}`);
+
+  runJob(job, plan).catch(error => {
+    job.status = 'failed';
+    job.error = (error as Error).message;
+    job.finishedAt = new Date().toISOString();
+    console.error('[Reindex] 重新索引失败:', error);
+  });
+
+  return job;
+}
+
+/**
+ * 执行重新索引
+ */
+async function runJob(
+  job: ReindexJob,
+  plan: Array<{ userId: string; items: Array<{ id: string; text: string }> }>
+): Promise<void> {
+  for (const { userId, items } of plan) {
+    job.currentUserId = userId;
+
+    for (let i = 0; i < items.length; i += REINDEX_BATCH_SIZE) {
+      const batch = items.slice(i, i + REINDEX_BATCH_SIZE);
+      let embeddings: number[][];
+
+      try {
+        embeddings = await generateEmbeddings(batch.map(item => item.text));
+      } catch (error) {
+        job.failed += batch.length;
+        console.error(`[Reindex] ${batch.length} 条记忆生成向量失败 (用户: ${userId}):`, (error as Error).message);
+        continue;
+      }
+
+      const updates = batch.map((item, index) => ({ ...item, embedding: embeddings[index] }));
+      // 处理期间被删除或修改的记忆不会被更新，也不计为失败
+      const applied = await memoryStore.applyEmbeddings(userId, updates, job.model);
+      job.done += applied;
+      job.total -= updates.length - applied;
+    }
+  }
+
+  job.status = 'completed';
+  job.currentUserId = undefined;
+  job.finishedAt = new Date().toISOString();
+  console.error(`[Reindex] 重新索引完成: 成功 ${job.done} 条, 失败 ${job.failed} 条`);
+}
@@ -0,0 +1,194 @@
+/**
+ * 熔断器状态
+ * - closed: 正常放行
+ * - open: 连续失败过多，直接拒绝调用
+ * - half-open: 冷却结束，放行一次试探调用
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 熔断器打开时抛出的错误
+ */
+export class CircuitOpenError extends Error {
+  constructor(name: string, retryAt: number) {
+    super(`${name} 熔断中，${Math.max(0, Math.ceil((retryAt - Date.now()) / 1000))} 秒后重试`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * 调用超时时抛出的错误
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * 表示网络不可达或连接中断的错误码（Node 套接字、DNS 和 undici）
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN',
+  'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'ENETDOWN',
+]);
+
+/**
+ * 是否为暂时性错误：超时、网络错误、熔断中，或 HTTP 408 / 429 / 5xx
+ * 其余错误（400、401、404、模型不存在、密钥无效等）属于配置或请求问题，重试也不会成功
+ * 沿 cause 链查找，包装后的错误同样可以识别
+ */
+export function isTransientError(error: unknown): boolean {
+  for (let current = error, depth = 0; current && depth < 10; depth++) {
+    if (current instanceof TimeoutError || current instanceof CircuitOpenError) {
+      return true;
+    }
+
+    const { status, status_code: statusCode, code, cause } = current as {
+      status?: unknown; status_code?: unknown; code?: unknown; cause?: unknown;
+    };
+    const httpStatus = typeof status === 'number' ? status : typeof statusCode === 'number' ? statusCode : undefined;
+    if (httpStatus !== undefined) {
+      return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+    }
+    if (typeof code === 'string' && (NETWORK_ERROR_CODES.has(code) || code.startsWith('UND_ERR_'))) {
+      return true;
+    }
+    // fetch 的网络错误为 TypeError('fetch failed')，具体原因在 cause 中（可能缺失）
+    if (current instanceof TypeError && current.message === 'fetch failed') {
+      return true;
+    }
+    current = cause;
+  }
+  return false;
+}
+
+/**
+ * 熔断器
+ * 连续失败达到阈值后打开，冷却时间结束后进入半开状态，试探成功则关闭，失败则重新打开
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private state: CircuitState = 'closed';
+  /** 半开状态下是否已有试探调用在进行 */
+  private probing = false;
+
+  /**
+   * @param isFailure 判断错误是否计入失败次数，默认全部计入；服务正常返回的错误（如请求无效）不应触发熔断
+   */
+  constructor(
+    private readonly name: string,
+    private readonly threshold: number,
+    private readonly cooldownMs: number,
+    private readonly isFailure: (error: unknown) => boolean = () => true
+  ) {}
+
+  /**
+   * 获取当前状态（冷却结束的 open 状态视为 half-open）
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * 通过熔断器执行调用
+   * @param fn 被保护的调用
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.probing)) {
+      throw new CircuitOpenError(this.name, this.openedAt + this.cooldownMs);
+    }
+
+    if (state === 'half-open') {
+      this.probing = true;
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure();
+      }
+      throw error;
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  /**
+   * 调用成功，重置计数并关闭熔断器
+   */
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      console.error(`[CircuitBreaker] ${this.name} 已恢复，熔断器关闭`);
+    }
+    this.failures = 0;
+    this.state = 'closed';
+  }
+
+  /**
+   * 调用失败，达到阈值或试探失败时打开熔断器
+   */
+  private onFailure(): void {
+    this.failures++;
+    if (this.state !== 'closed' || this.failures >= this.threshold) {
+      if (this.state === 'closed') {
+        console.error(`[CircuitBreaker] ${this.name} 连续失败 ${this.failures} 次，熔断 ${this.cooldownMs / 1000} 秒`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * 为 Promise 设置超时
+ * @param promise 原始 Promise
+ * @param ms 超时时间（毫秒），<= 0 时不限制
+ * @param message 超时错误信息
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  if (ms <= 0) return promise;
+
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`${message}（超时 ${ms}ms）`)), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * 失败后按指数退避重试
+ * @param fn 要执行的调用
+ * @param retries 最大重试次数（不含首次调用）
+ * @param baseDelayMs 首次重试前的等待时间，之后每次翻倍
+ * @param shouldRetry 判断错误是否值得重试
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  retries: number,
+  baseDelayMs: number,
+  shouldRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = baseDelayMs * Math.pow(2, attempt);
+      console.error(`[Retry] 第 ${attempt + 1} 次调用失败: ${(error as Error).message}，${delay}ms 后重试`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
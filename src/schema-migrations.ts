@@ -0,0 +1,97 @@
+import type { MemoryData } from './types.js';
+
+/**
+ * 当前程序写入的数据文件版本
+ * - 1: 初始格式，向量可能内嵌在 JSON 中，userId、tags、metadata 可能缺失
+ * - 2: 向量存放在 .vec 文件，文件记录所属用户，每条记忆都有 tags 和 metadata
+ * - 3: 记忆可带 deletedAt、deletedBy（回收站），旧程序会把回收站中的记忆当作正常记忆，因此提高版本
+ */
+export const MEMORY_DATA_VERSION = 3;
+
+/**
+ * 数据文件的版本高于当前程序支持的版本（由更新的程序写入）
+ * 拒绝加载而不是丢弃不认识的字段
+ */
+export class UnsupportedSchemaVersionError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly version: number
+  ) {
+    super(`数据文件 ${filePath} 的版本为 ${version}，当前程序最高支持 ${MEMORY_DATA_VERSION}，请升级程序后再加载`);
+    this.name = 'UnsupportedSchemaVersionError';
+  }
+}
+
+/**
+ * 单步迁移：将版本 from 的数据升级到 from + 1
+ */
+interface Migration {
+  from: number;
+  description: string;
+  migrate(data: MemoryData): MemoryData;
+}
+
+/**
+ * 迁移步骤，按版本顺序排列；新增版本时在末尾追加一步并提高 MEMORY_DATA_VERSION
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description: '补齐文件所属用户、记忆的 tags/metadata 和向量维度',
+    migrate(data) {
+      const userIds = new Set(data.memories.map(m => m.userId).filter(Boolean));
+      return {
+        ...data,
+        // 所有记忆属于同一用户时才能确定文件归属
+        userId: data.userId ?? (userIds.size === 1 ? [...userIds][0] : undefined),
+        memories: data.memories.map(memory => ({
+          ...memory,
+          tags: memory.tags ?? [],
+          metadata: memory.metadata ?? {},
+          embeddingDim: memory.embeddingDim ?? (Array.isArray(memory.embedding) ? memory.embedding.length : undefined),
+        })),
+      };
+    },
+  },
+  {
+    from: 2,
+    description: '支持回收站（deletedAt、deletedBy），数据无需转换',
+    migrate(data) {
+      return data;
+    },
+  },
+];
+
+/**
+ * 读取文件中记录的版本（缺失时视为 1）
+ */
+export function getDataVersion(data: MemoryData): number {
+  return typeof data.version === 'number' ? data.version : 1;
+}
+
+/**
+ * 将数据逐步升级到当前版本
+ * @param data 从文件读取的数据
+ * @param filePath 文件路径（用于错误信息）
+ * @returns 升级后的数据和依次执行的迁移说明
+ * @throws UnsupportedSchemaVersionError 文件版本高于当前版本
+ */
+export function migrateMemoryData(data: MemoryData, filePath: string): { data: MemoryData; applied: string[] } {
+  let version = getDataVersion(data);
+  if (version > MEMORY_DATA_VERSION) {
+    throw new UnsupportedSchemaVersionError(filePath, version);
+  }
+
+  const applied: string[] = [];
+  while (version < MEMORY_DATA_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`缺少从版本 ${version} 升级的迁移步骤`);
+    }
+    data = { ...migration.migrate(data), version: version + 1 };
+    applied.push(`v${version} -> v${version + 1}: ${migration.description}`);
+    version++;
+  }
+
+  return { data, applied };
+}
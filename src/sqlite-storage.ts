@@ -0,0 +1,548 @@
+import Database from 'better-sqlite3';
+import { dirname } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import type { Memory, MemoryRevision, Metadata, MetadataValue, UserSummary } from './types.js';
+import type { StorageBackend, StorageChanges } from './storage-backend.js';
+import { encodeVector, decodeVector, formatCode, formatFromCode, type VectorFormat } from './vector-storage.js';
+
+/**
+ * 表结构
+ * - users: 用户
+ * - memories: 记忆（标签以 JSON 数组存储，deleted_at 非空表示在回收站中）
+ * - memory_metadata: 元数据键值对，保留取值类型
+ * - vectors: 向量（按 VECTOR_FORMAT 编码的二进制数据）
+ * - user_versions: 用户数据版本号，每次保存加一，供其他进程检测变更
+ * - memory_revisions: 修订记录（修改前的内容，元数据以 JSON 对象存储），随记忆一同删除
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS memories (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    embedding_model TEXT,
+    embedding_dim INTEGER,
+    pending_embedding INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    deleted_at TEXT,
+    deleted_by TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_memories_user ON memories(user_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS memory_metadata (
+    memory_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('string', 'number', 'boolean')),
+    PRIMARY KEY (memory_id, key)
+  );
+
+  CREATE TABLE IF NOT EXISTS vectors (
+    memory_id TEXT PRIMARY KEY REFERENCES memories(id) ON DELETE CASCADE,
+    format INTEGER NOT NULL,
+    dimension INTEGER NOT NULL,
+    scale REAL NOT NULL,
+    data BLOB NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS user_versions (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS memory_revisions (
+    id TEXT PRIMARY KEY,
+    memory_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    metadata TEXT NOT NULL DEFAULT '{}',
+    changed_at TEXT NOT NULL,
+    source TEXT NOT NULL,
+    action TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_memory_revisions_memory ON memory_revisions(memory_id, changed_at);
+`;
+
+/**
+ * 数据库结构版本，记录在 PRAGMA user_version 中（0 表示引入版本号之前创建的数据库，结构与 1 相同）
+ * - 1: 初始结构
+ * - 2: memories 增加 deleted_at、deleted_by（回收站）
+ */
+const SCHEMA_VERSION = 2;
+
+/**
+ * 结构迁移步骤：将版本 from 升级到 from + 1，按版本顺序排列
+ */
+const SCHEMA_MIGRATIONS: Array<{ from: number; description: string; sql: string }> = [
+  {
+    from: 1,
+    description: 'memories 增加 deleted_at、deleted_by',
+    sql: `
+      ALTER TABLE memories ADD COLUMN deleted_at TEXT;
+      ALTER TABLE memories ADD COLUMN deleted_by TEXT;
+    `,
+  },
+];
+
+/**
+ * memories 表的行结构
+ */
+interface MemoryRow {
+  id: string;
+  user_id: string;
+  question: string;
+  answer: string;
+  tags: string;
+  embedding_model: string | null;
+  embedding_dim: number | null;
+  pending_embedding: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+/**
+ * memory_metadata 表的行结构
+ */
+interface MetadataRow {
+  memory_id: string;
+  key: string;
+  value: string;
+  type: 'string' | 'number' | 'boolean';
+}
+
+/**
+ * vectors 表的行结构
+ */
+interface VectorRow {
+  memory_id: string;
+  format: number;
+  dimension: number;
+  scale: number;
+  data: Buffer;
+}
+
+/**
+ * memory_revisions 表的行结构
+ */
+interface RevisionRow {
+  id: string;
+  memory_id: string;
+  question: string;
+  answer: string;
+  tags: string;
+  metadata: string;
+  changed_at: string;
+  source: string;
+  action: MemoryRevision['action'];
+}
+
+/**
+ * 摘要统计查询的行结构（按用户、是否在回收站、模型、待补齐状态、是否有向量分组）
+ */
+interface SummaryRow {
+  user_id: string;
+  deleted: number;
+  embedding_model: string | null;
+  pending_embedding: number;
+  has_vector: number;
+  n: number;
+}
+
+/**
+ * 摘要统计查询（不读取向量数据本身）
+ */
+const SUMMARY_QUERY = `
+  SELECT m.user_id, m.deleted_at IS NOT NULL AS deleted, m.embedding_model, m.pending_embedding,
+    v.memory_id IS NOT NULL AS has_vector, COUNT(*) AS n
+  FROM memories m LEFT JOIN vectors v ON v.memory_id = m.id
+`;
+const SUMMARY_GROUP = 'GROUP BY m.user_id, deleted, m.embedding_model, m.pending_embedding, has_vector';
+
+/**
+ * 元数据取值 -> 数据库存储
+ */
+function encodeMetadataValue(value: MetadataValue): { value: string; type: MetadataRow['type'] } {
+  return { value: String(value), type: typeof value as MetadataRow['type'] };
+}
+
+/**
+ * 数据库存储 -> 元数据取值
+ */
+function decodeMetadataValue(row: MetadataRow): MetadataValue {
+  if (row.type === 'number') return Number(row.value);
+  if (row.type === 'boolean') return row.value === 'true';
+  return row.value;
+}
+
+/**
+ * SQLite 存储后端
+ * 所有用户存储在同一个数据库文件中，每次保存在一个事务内完成，
+ * 进程崩溃不会留下写了一半的数据
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite';
+
+  private db: Database.Database;
+
+  private statements: {
+    listUsers: Database.Statement<[], { id: string }>;
+    insertUser: Database.Statement<[string, string]>;
+    selectUser: Database.Statement<[string], { id: string }>;
+    selectVersion: Database.Statement<[string], { version: number }>;
+    bumpVersion: Database.Statement<[string]>;
+    selectSummary: Database.Statement<[string], SummaryRow>;
+    selectAllSummaries: Database.Statement<[], SummaryRow>;
+    selectMemories: Database.Statement<[string], MemoryRow>;
+    selectMetadata: Database.Statement<[string], MetadataRow>;
+    selectVectors: Database.Statement<[string], VectorRow>;
+    selectIds: Database.Statement<[string], { id: string }>;
+    upsertMemory: Database.Statement<Record<string, unknown>>;
+    deleteMemory: Database.Statement<[string, string]>;
+    deleteMetadata: Database.Statement<[string]>;
+    insertMetadata: Database.Statement<[string, string, string, string]>;
+    deleteVector: Database.Statement<[string]>;
+    insertVector: Database.Statement<[string, number, number, number, Buffer]>;
+    selectRevisions: Database.Statement<[string], RevisionRow>;
+    selectMemoryRevisions: Database.Statement<[string, string], RevisionRow>;
+    insertRevision: Database.Statement<Record<string, unknown>>;
+  };
+
+  constructor(
+    dbPath: string,
+    private readonly vectorFormat: VectorFormat
+  ) {
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+
+    try {
+      this.migrateSchema(dbPath);
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
+
+    this.statements = {
+      listUsers: this.db.prepare(
+        'SELECT id FROM users ORDER BY id'
+      ),
+      insertUser: this.db.prepare('INSERT OR IGNORE INTO users (id, created_at) VALUES (?, ?)'),
+      selectUser: this.db.prepare('SELECT id FROM users WHERE id = ?'),
+      selectVersion: this.db.prepare('SELECT version FROM user_versions WHERE user_id = ?'),
+      bumpVersion: this.db.prepare(
+        'INSERT INTO user_versions (user_id, version) VALUES (?, 1) ON CONFLICT(user_id) DO UPDATE SET version = version + 1'
+      ),
+      selectSummary: this.db.prepare(`${SUMMARY_QUERY} WHERE m.user_id = ? ${SUMMARY_GROUP}`),
+      selectAllSummaries: this.db.prepare(`${SUMMARY_QUERY} ${SUMMARY_GROUP}`),
+      selectMemories: this.db.prepare('SELECT * FROM memories WHERE user_id = ? ORDER BY rowid'),
+      selectMetadata: this.db.prepare(
+        'SELECT m.* FROM memory_metadata m JOIN memories ON memories.id = m.memory_id WHERE memories.user_id = ? ORDER BY m.rowid'
+      ),
+      selectVectors: this.db.prepare(
+        'SELECT v.* FROM vectors v JOIN memories ON memories.id = v.memory_id WHERE memories.user_id = ?'
+      ),
+      selectIds: this.db.prepare('SELECT id FROM memories WHERE user_id = ?'),
+      upsertMemory: this.db.prepare(`
+        INSERT INTO memories (id, user_id, question, answer, tags, embedding_model, embedding_dim, pending_embedding, created_at, updated_at, deleted_at, deleted_by)
+        VALUES (@id, @userId, @question, @answer, @tags, @embeddingModel, @embeddingDim, @pendingEmbedding, @createdAt, @updatedAt, @deletedAt, @deletedBy)
+        ON CONFLICT(id) DO UPDATE SET
+          question = excluded.question,
+          answer = excluded.answer,
+          tags = excluded.tags,
+          embedding_model = excluded.embedding_model,
+          embedding_dim = excluded.embedding_dim,
+          pending_embedding = excluded.pending_embedding,
+          updated_at = excluded.updated_at,
+          deleted_at = excluded.deleted_at,
+          deleted_by = excluded.deleted_by
+        WHERE memories.user_id = excluded.user_id
+      `),
+      deleteMemory: this.db.prepare('DELETE FROM memories WHERE user_id = ? AND id = ?'),
+      deleteMetadata: this.db.prepare('DELETE FROM memory_metadata WHERE memory_id = ?'),
+      insertMetadata: this.db.prepare('INSERT INTO memory_metadata (memory_id, key, value, type) VALUES (?, ?, ?, ?)'),
+      deleteVector: this.db.prepare('DELETE FROM vectors WHERE memory_id = ?'),
+      insertVector: this.db.prepare('INSERT INTO vectors (memory_id, format, dimension, scale, data) VALUES (?, ?, ?, ?, ?)'),
+      selectRevisions: this.db.prepare(
+        'SELECT r.* FROM memory_revisions r JOIN memories ON memories.id = r.memory_id WHERE memories.user_id = ? ORDER BY r.changed_at, r.rowid'
+      ),
+      selectMemoryRevisions: this.db.prepare(
+        'SELECT r.* FROM memory_revisions r JOIN memories ON memories.id = r.memory_id WHERE memories.user_id = ? AND r.memory_id = ? ORDER BY r.changed_at, r.rowid'
+      ),
+      insertRevision: this.db.prepare(`
+        INSERT OR IGNORE INTO memory_revisions (id, memory_id, question, answer, tags, metadata, changed_at, source, action)
+        VALUES (@id, @memoryId, @question, @answer, @tags, @metadata, @changedAt, @source, @action)
+      `),
+    };
+  }
+
+  /**
+   * 创建或升级表结构
+   * 新数据库直接按当前结构创建；旧数据库先备份到 {dbPath}.v{版本}.bak，再在一个事务内逐步升级
+   * @throws 数据库版本高于当前程序支持的版本
+   */
+  private migrateSchema(dbPath: string): void {
+    let version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`数据库 ${dbPath} 的结构版本为 ${version}，当前程序最高支持 ${SCHEMA_VERSION}，请升级程序后再加载`);
+    }
+
+    const created = !this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories'").get();
+    if (created) {
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+      return;
+    }
+
+    version = Math.max(version, 1);
+    if (version < SCHEMA_VERSION) {
+      const backup = `${dbPath}.v${version}.bak`;
+      if (!existsSync(backup)) {
+        this.db.prepare('VACUUM INTO ?').run(backup);
+      }
+      console.error(`[SqliteStorage] 数据库 ${dbPath} 为旧版本 ${version}，已备份到 ${backup}，升级步骤:`);
+    }
+
+    this.db.transaction(() => {
+      for (; version < SCHEMA_VERSION; version++) {
+        const migration = SCHEMA_MIGRATIONS.find(m => m.from === version);
+        if (!migration) {
+          throw new Error(`缺少从版本 ${version} 升级的迁移步骤`);
+        }
+        this.db.exec(migration.sql);
+        console.error(`[SqliteStorage]   v${version} -> v${version + 1}: ${migration.description}`);
+      }
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+
+  /**
+   * 列出所有用户
+   */
+  listUsers(): string[] {
+    return this.statements.listUsers.all().map(row => row.id);
+  }
+
+  /**
+   * 读取用户的全部记忆（按写入顺序）
+   * 在一个读事务内完成，不会读到其他进程写了一半的变更
+   */
+  loadUser(userId: string): Memory[] {
+    return this.db.transaction(() => this.readUser(userId))();
+  }
+
+  /**
+   * 读取用户记忆、元数据和向量
+   */
+  private readUser(userId: string): Memory[] {
+    const metadata = new Map<string, Metadata>();
+    for (const row of this.statements.selectMetadata.all(userId)) {
+      const entry = metadata.get(row.memory_id) || {};
+      entry[row.key] = decodeMetadataValue(row);
+      metadata.set(row.memory_id, entry);
+    }
+
+    const vectors = new Map<string, Float32Array>();
+    for (const row of this.statements.selectVectors.all(userId)) {
+      const format = formatFromCode(row.format);
+      if (!format) {
+        console.error(`[SqliteStorage] 记忆 ${row.memory_id} 的向量格式未知: ${row.format}`);
+        continue;
+      }
+      vectors.set(row.memory_id, decodeVector(row.data, 0, row.dimension, format, row.scale));
+    }
+
+    return this.statements.selectMemories.all(userId).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      question: row.question,
+      answer: row.answer,
+      tags: JSON.parse(row.tags),
+      metadata: metadata.get(row.id) || {},
+      embedding: vectors.get(row.id) || new Float32Array(0),
+      embeddingModel: row.embedding_model ?? undefined,
+      embeddingDim: row.embedding_dim ?? undefined,
+      pendingEmbedding: row.pending_embedding ? true : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at ?? undefined,
+      deletedBy: row.deleted_by ?? undefined,
+    }));
+  }
+
+  /**
+   * 在一个事务内保存用户记忆
+   * 提供变更信息时只写入变化的记忆，否则与 memories 整体同步
+   * @throws 记忆 ID 已属于其他用户（整个事务回滚）
+   */
+  saveUser(userId: string, memories: Memory[], changes?: StorageChanges): void {
+    const save = this.db.transaction(() => {
+      this.statements.insertUser.run(userId, new Date().toISOString());
+
+      let upserted = memories;
+      let deleted: string[];
+
+      if (changes) {
+        upserted = changes.upserted;
+        deleted = changes.deleted;
+      } else {
+        const keep = new Set(memories.map(m => m.id));
+        deleted = this.statements.selectIds.all(userId).map(row => row.id).filter(id => !keep.has(id));
+      }
+
+      for (const id of deleted) {
+        this.statements.deleteMemory.run(userId, id);
+      }
+      for (const memory of upserted) {
+        this.writeMemory(userId, memory);
+      }
+      for (const revision of changes?.revisions || []) {
+        this.statements.insertRevision.run({
+          ...revision,
+          tags: JSON.stringify(revision.tags),
+          metadata: JSON.stringify(revision.metadata),
+        });
+      }
+      this.statements.bumpVersion.run(userId);
+    });
+
+    save();
+  }
+
+  /**
+   * 读取修订记录（只返回属于该用户的记忆的记录）
+   */
+  loadRevisions(userId: string, memoryId?: string): MemoryRevision[] {
+    const rows = memoryId
+      ? this.statements.selectMemoryRevisions.all(userId, memoryId)
+      : this.statements.selectRevisions.all(userId);
+    return rows.map(row => ({
+      id: row.id,
+      memoryId: row.memory_id,
+      question: row.question,
+      answer: row.answer,
+      tags: JSON.parse(row.tags),
+      metadata: JSON.parse(row.metadata),
+      changedAt: row.changed_at,
+      source: row.source,
+      action: row.action,
+    }));
+  }
+
+  /**
+   * 获取用户数据版本号（旧数据库中尚未保存过的用户为 0）
+   */
+  getVersion(userId: string): string | undefined {
+    if (!this.statements.selectUser.get(userId)) {
+      return undefined;
+    }
+    return String(this.statements.selectVersion.get(userId)?.version ?? 0);
+  }
+
+  /**
+   * 通过聚合查询获取用户数据摘要
+   */
+  getSummary(userId: string): UserSummary | undefined {
+    if (!this.statements.selectUser.get(userId)) {
+      return undefined;
+    }
+    return this.buildSummaries([userId], this.statements.selectSummary.all(userId)).get(userId);
+  }
+
+  /**
+   * 获取所有用户的数据摘要（没有记忆的用户数量为 0）
+   */
+  getSummaries(): Map<string, UserSummary> {
+    return this.buildSummaries(this.listUsers(), this.statements.selectAllSummaries.all());
+  }
+
+  /**
+   * 将分组统计结果汇总为各用户的摘要
+   */
+  private buildSummaries(userIds: string[], rows: SummaryRow[]): Map<string, UserSummary> {
+    const updatedAt = new Date().toISOString();
+    const summaries = new Map<string, UserSummary>(
+      userIds.map(id => [id, { count: 0, trashed: 0, pending: 0, missing: 0, models: {}, updatedAt }])
+    );
+
+    for (const row of rows) {
+      const summary = summaries.get(row.user_id);
+      if (!summary) continue;
+      if (row.deleted) {
+        summary.trashed += row.n;
+        continue;
+      }
+      summary.count += row.n;
+      if (row.pending_embedding) {
+        summary.pending += row.n;
+      } else if (!row.has_vector) {
+        summary.missing += row.n;
+      } else {
+        const model = row.embedding_model || '';
+        summary.models[model] = (summary.models[model] || 0) + row.n;
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * 写入单条记忆及其元数据和向量
+   */
+  private writeMemory(userId: string, memory: Memory): void {
+    // ID 已属于其他用户时不更新（changes 为 0），中止整个事务，避免覆盖其他用户的记忆、元数据和向量
+    const result = this.statements.upsertMemory.run({
+      id: memory.id,
+      userId,
+      question: memory.question,
+      answer: memory.answer,
+      tags: JSON.stringify(memory.tags || []),
+      embeddingModel: memory.embeddingModel ?? null,
+      embeddingDim: memory.embeddingDim ?? null,
+      pendingEmbedding: memory.pendingEmbedding ? 1 : 0,
+      createdAt: memory.createdAt,
+      updatedAt: memory.updatedAt,
+      deletedAt: memory.deletedAt ?? null,
+      deletedBy: memory.deletedBy ?? null,
+    });
+    if (result.changes === 0) {
+      throw new Error(`记忆 ${memory.id} 已属于其他用户，拒绝写入用户 ${userId} 的数据`);
+    }
+
+    this.statements.deleteMetadata.run(memory.id);
+    for (const [key, value] of Object.entries(memory.metadata || {})) {
+      const encoded = encodeMetadataValue(value);
+      this.statements.insertMetadata.run(memory.id, key, encoded.value, encoded.type);
+    }
+
+    this.statements.deleteVector.run(memory.id);
+    if (memory.embedding.length > 0) {
+      const { data, scale } = encodeVector(memory.embedding, this.vectorFormat);
+      this.statements.insertVector.run(memory.id, formatCode(this.vectorFormat), memory.embedding.length, scale, data);
+    }
+  }
+
+  /**
+   * 关闭数据库连接
+   */
+  close(): void {
+    this.db.close();
+  }
+}
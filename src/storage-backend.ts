@@ -0,0 +1,124 @@
+import { join } from 'path';
+import type { Memory, MemoryRevision, UserSummary } from './types.js';
+import { parseVectorFormat, type VectorFormat } from './vector-storage.js';
+import { JsonStorageBackend } from './json-storage.js';
+import { SqliteStorageBackend } from './sqlite-storage.js';
+
+/**
+ * 一次写入涉及的记忆变更
+ */
+export interface StorageChanges {
+  /** 新增或修改的记忆 */
+  upserted: Memory[];
+  /** 删除的记忆ID（其修订记录一并删除） */
+  deleted: string[];
+  /** 本次修改产生的修订记录 */
+  revisions?: MemoryRevision[];
+}
+
+/**
+ * 记忆持久化后端
+ * MemoryStore 负责缓存、锁和索引，后端只负责读写用户数据
+ */
+export interface StorageBackend {
+  /** 后端名称: json / sqlite */
+  readonly name: string;
+  /**
+   * 列出所有有数据的用户
+   */
+  listUsers(): string[];
+  /**
+   * 读取用户的全部记忆（含向量和回收站中的记忆）
+   * @param userId 用户ID
+   */
+  loadUser(userId: string): Memory[];
+  /**
+   * 保存用户记忆
+   * @param userId 用户ID
+   * @param memories 用户当前的全部记忆（含回收站中的记忆）
+   * @param changes 本次变更；提供时后端可只写入变化部分，不提供时整体同步
+   */
+  saveUser(userId: string, memories: Memory[], changes?: StorageChanges): void;
+  /**
+   * 读取修订记录（按修改时间从早到晚）
+   * @param userId 用户ID
+   * @param memoryId 记忆ID，不指定时返回该用户全部记忆的修订记录
+   */
+  loadRevisions(userId: string, memoryId?: string): MemoryRevision[];
+  /**
+   * 获取用户数据的版本标识，任何进程写入后都会变化，用于检测缓存是否过期
+   * @param userId 用户ID
+   * @returns 用户没有数据时返回 undefined
+   */
+  getVersion(userId: string): string | undefined;
+  /**
+   * 获取用户数据摘要（不读取向量）
+   * @param userId 用户ID
+   * @returns 用户不存在时返回 undefined
+   */
+  getSummary(userId: string): UserSummary | undefined;
+  /**
+   * 获取所有用户的数据摘要
+   */
+  getSummaries(): Map<string, UserSummary>;
+  /**
+   * 释放资源
+   */
+  close(): void;
+}
+
+/**
+ * 根据记忆列表生成用户数据摘要（回收站中的记忆只计入 trashed）
+ */
+export function summarizeMemories(memories: Memory[]): UserSummary {
+  const summary: UserSummary = { count: 0, trashed: 0, pending: 0, missing: 0, models: {}, updatedAt: new Date().toISOString() };
+  for (const memory of memories) {
+    if (memory.deletedAt) {
+      summary.trashed++;
+      continue;
+    }
+    summary.count++;
+    if (memory.pendingEmbedding) {
+      summary.pending++;
+    } else if (memory.embedding.length === 0) {
+      summary.missing++;
+    } else {
+      const model = memory.embeddingModel || '';
+      summary.models[model] = (summary.models[model] || 0) + 1;
+    }
+  }
+  return summary;
+}
+
+/**
+ * 存储后端类型，通过 STORAGE_BACKEND 环境变量选择
+ */
+const STORAGE_BACKEND = (process.env.STORAGE_BACKEND || 'json').toLowerCase();
+
+/**
+ * 向量存储格式: float32（默认）、float16 或 int8
+ */
+const VECTOR_FORMAT: VectorFormat = parseVectorFormat(process.env.VECTOR_FORMAT) || 'float32';
+
+/**
+ * 获取 SQLite 数据库路径，默认 {dataDir}/memories.db
+ */
+export function getSqlitePath(dataDir: string): string {
+  return process.env.SQLITE_PATH || join(dataDir, 'memories.db');
+}
+
+/**
+ * 根据配置创建存储后端
+ * @param dataDir 数据目录
+ * @param type 后端类型，默认读取 STORAGE_BACKEND
+ */
+export function createStorageBackend(dataDir: string, type: string = STORAGE_BACKEND): StorageBackend {
+  switch (type) {
+    case 'json':
+      return new JsonStorageBackend(dataDir, VECTOR_FORMAT);
+    case 'sqlite':
+      return new SqliteStorageBackend(getSqlitePath(dataDir), VECTOR_FORMAT);
+    default:
+      throw new Error(`未知的存储后端: ${type}（可选: json、sqlite）`);
+  }
+}
@@ -0,0 +1,64 @@
+import { memoryStore } from './memory-store.js';
+
+/**
+ * 回收站保留天数，超过后自动彻底删除；0 表示永久保留
+ */
+const TRASH_RETENTION_DAYS = parseFloat(process.env.TRASH_RETENTION_DAYS || '30');
+
+/**
+ * 检查过期记忆的间隔（毫秒）
+ */
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+
+/** 是否正在处理 */
+let running = false;
+/** 定时器 */
+let timer: NodeJS.Timeout | undefined;
+
+/**
+ * 获取回收站保留天数（0 表示永久保留）
+ */
+export function getTrashRetentionDays(): number {
+  return TRASH_RETENTION_DAYS > 0 ? TRASH_RETENTION_DAYS : 0;
+}
+
+/**
+ * 彻底删除回收站中超过保留期限的记忆
+ * @returns 本轮删除的数量
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const retentionDays = getTrashRetentionDays();
+  if (running || retentionDays === 0) {
+    return 0;
+  }
+
+  running = true;
+  try {
+    const purged = await memoryStore.purgeExpiredTrash(retentionDays);
+    if (purged > 0) {
+      console.error(`[TrashPurger] 已清除 ${purged} 条超过 ${retentionDays} 天的回收站记忆`);
+    }
+    return purged;
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * 启动回收站定期清理任务（重复调用无副作用，永久保留时不启动）
+ */
+export function startTrashPurger(): void {
+  if (timer || getTrashRetentionDays() === 0) return;
+
+  timer = setInterval(() => {
+    purgeExpiredTrash().catch(error => {
+      console.error('[TrashPurger] 清理失败:', error);
+    });
+  }, TRASH_PURGE_INTERVAL);
+  timer.unref();
+
+  // 启动时立即清理停机期间过期的记忆
+  purgeExpiredTrash().catch(error => {
+    console.error('[TrashPurger] 清理失败:', error);
+  });
+}
@@ -1,3 +1,28 @@
+/**
+ * 元数据取值类型
+ */
+export type MetadataValue = string | number | boolean;
+
+/**
+ * 元数据键值对（如来源应用、项目、会话ID、语言）
+ */
+export type Metadata = Record<string, MetadataValue>;
+
+/**
+ * 元数据过滤谓词
+ * 直接给出取值时表示相等；对象形式支持 eq / in / 范围比较，多个操作符需同时满足
+ */
+export type MetadataPredicate =
+  | MetadataValue
+  | {
+      eq?: MetadataValue;
+      in?: MetadataValue[];
+      gt?: string | number;
+      gte?: string | number;
+      lt?: string | number;
+      lte?: string | number;
+    };
+
 /**
  * 记忆数据结构
  */
@@ -10,34 +35,104 @@ export interface Memory {
   question: string;
   /** 答案 */
   answer: string;
-  /** 向量嵌入 (BGE-M3: 1024维) */
-  embedding: number[];
+  /** 标签（可选，用于分类和过滤） */
+  tags?: string[];
+  /** 元数据（可选，用于按来源、项目等维度过滤） */
+  metadata?: Metadata;
+  /** 向量嵌入 (BGE-M3: 1024维)，单独存储在 {userId}.vec 中 */
+  embedding: Float32Array;
+  /** 生成向量所用的模型（旧数据可能缺失） */
+  embeddingModel?: string;
+  /** 向量维度 */
+  embeddingDim?: number;
+  /** 嵌入服务不可用时写入，等待后台补齐向量 */
+  pendingEmbedding?: boolean;
   /** 创建时间 */
   createdAt: string;
   /** 更新时间 */
   updatedAt: string;
+  /** 移入回收站的时间（未删除时为 undefined） */
+  deletedAt?: string;
+  /** 删除操作者：mcp:stdio、mcp:sse:{sessionId} 或 admin */
+  deletedBy?: string;
 }
 
+/**
+ * 记忆的修订记录：一次修改之前的内容，以及由谁、在何时替换了它
+ */
+export interface MemoryRevision {
+  /** 修订ID */
+  id: string;
+  /** 所属记忆ID */
+  memoryId: string;
+  /** 修改前的问题 */
+  question: string;
+  /** 修改前的答案 */
+  answer: string;
+  /** 修改前的标签 */
+  tags: string[];
+  /** 修改前的元数据 */
+  metadata: Metadata;
+  /** 修改时间 */
+  changedAt: string;
+  /** 修改来源：mcp:stdio、mcp:sse:{sessionId} 或 admin */
+  source: string;
+  /** 修改方式：update 为普通更新，revert 为回退到历史版本 */
+  action: 'update' | 'revert';
+}
+
+/**
+ * JSON 文件中存储的记忆
+ * 向量存储在二进制文件中；旧格式文件中 embedding 为数字数组，加载时自动迁移
+ */
+export type StoredMemory = Omit<Memory, 'embedding'> & { embedding?: number[] };
+
 /**
  * 存储文件结构
  */
 export interface MemoryData {
+  /** 所属用户的原始ID（旧版文件中缺失） */
+  userId?: string;
   /** 记忆列表 */
-  memories: Memory[];
+  memories: StoredMemory[];
   /** 数据版本 */
   version: number;
   /** 最后更新时间 */
   lastUpdated: string;
 }
 
+/**
+ * 搜索模式
+ * - vector: 向量语义搜索
+ * - keyword: BM25 关键词搜索
+ * - hybrid: 两者通过倒数排名融合 (RRF) 合并
+ */
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
 /**
  * 搜索结果（带相似度分数）
  */
 export interface SearchResult {
   /** 记忆数据 */
   memory: Memory;
-  /** 相似度分数 (0-1) */
+  /** 相关度分数 (0-1)，vector 模式为余弦相似度，keyword/hybrid 模式为归一化后的分数 */
   score: number;
+  /** 向量相似度（未进入向量排名时为 undefined） */
+  vectorScore?: number;
+  /** BM25 原始分数（未命中关键词时为 undefined） */
+  keywordScore?: number;
+}
+
+/**
+ * 记忆过滤条件（在向量排序之前应用）
+ */
+export interface MemoryFilter {
+  /** 必须包含全部标签 */
+  tags?: string[];
+  /** 至少包含其中一个标签 */
+  anyTags?: string[];
+  /** 元数据过滤：字段名 -> 谓词，所有字段需同时满足 */
+  metadata?: Record<string, MetadataPredicate>;
 }
 
 /**
@@ -47,15 +142,95 @@ export interface AddMemoryParams {
   userId?: string;
   question: string;
   answer: string;
+  tags?: string[];
+  metadata?: Metadata;
+}
+
+/**
+ * 批量添加中的单条记忆
+ */
+export type AddMemoryItem = Omit<AddMemoryParams, 'userId'>;
+
+/**
+ * 批量添加记忆的参数
+ */
+export interface AddMessagesParams {
+  userId?: string;
+  items: AddMemoryItem[];
+}
+
+/**
+ * 批量添加中单条记忆的结果
+ */
+export interface BatchAddResult {
+  /** 在输入列表中的位置 */
+  index: number;
+  success: boolean;
+  /** 成功时为新创建的记忆 */
+  memory?: Memory;
+  /** 失败原因 */
+  error?: string;
 }
 
 /**
  * 搜索记忆的参数
  */
-export interface SearchMemoryParams {
+export interface SearchMemoryParams extends MemoryFilter {
   userId?: string;
   query: string;
   limit?: number;
+  mode?: SearchMode;
+}
+
+/**
+ * 更新记忆的参数
+ */
+export interface UpdateMemoryParams {
+  userId?: string;
+  id: string;
+  question?: string;
+  answer?: string;
+  tags?: string[];
+  metadata?: Metadata;
+}
+
+/**
+ * 列出记忆的参数
+ */
+export interface ListMemoryParams extends MemoryFilter {
+  userId?: string;
+  /** 每页数量 */
+  limit?: number;
+  /** 偏移量（与 cursor 二选一） */
+  offset?: number;
+  /** 游标：上一页最后一条记忆的 ID */
+  cursor?: string;
+  /** 排序字段 */
+  sortBy?: 'createdAt' | 'updatedAt';
+  /** 排序方向 */
+  order?: 'asc' | 'desc';
+  /** 问题或答案中包含的文本（不区分大小写） */
+  contains?: string;
+}
+
+/**
+ * 获取单条记忆的参数
+ */
+export interface GetMemoryParams {
+  userId?: string;
+  id: string;
+}
+
+/**
+ * 分页列表结果
+ */
+export interface ListResult {
+  /** 当前页的记忆（不含向量） */
+  memories: Omit<Memory, 'embedding'>[];
+  /** 符合过滤条件的总数 */
+  total: number;
+  /** 下一页游标，没有更多数据时为 undefined */
+  nextCursor?: string;
 }
 
 /**
@@ -66,6 +241,134 @@ export interface DeleteMemoryParams {
   id: string;
 }
 
+/**
+ * 用户向量状态统计
+ */
+export interface EmbeddingStats {
+  /** 记忆总数 */
+  total: number;
+  /** 使用当前模型生成向量的记忆数 */
+  current: number;
+  /** 使用其他模型或维度不一致、不参与向量搜索的记忆数 */
+  mismatched: number;
+  /** 缺少向量的记忆数（不含等待后台补齐的） */
+  missing: number;
+  /** 等待后台补齐向量的记忆数 */
+  pending: number;
+  /** 未记录模型的旧数据数量（维度一致时仍参与向量搜索） */
+  untracked: number;
+}
+
+/**
+ * 导出/导入格式
+ * - jsonl: 每行一条记忆的 JSON
+ * - csv: 表格，标签以逗号分隔，元数据和向量为 JSON 字符串
+ * - markdown: 便于阅读，字段记录在每条记忆前的 HTML 注释中
+ */
+export type TransferFormat = 'jsonl' | 'csv' | 'markdown';
+
+/**
+ * 导入的一条记忆（各格式解析后的统一结构）
+ */
+export interface ImportRecord {
+  /** 原记忆ID（仅用于去重，导入后生成新ID） */
+  id?: string;
+  question: string;
+  answer: string;
+  tags?: string[];
+  metadata?: Metadata;
+  /** 导出时附带的向量 */
+  embedding?: number[];
+  /** 生成向量所用的模型，与当前模型不同时重新生成 */
+  embeddingModel?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * 单条导入记录的处理结果
+ */
+export interface ImportItemResult {
+  /** 记录序号（从 0 开始） */
+  index: number;
+  /** create: 新增；duplicate: 与已有记忆或文件中前面的记录重复；invalid: 无法解析或缺少必填字段 */
+  action: 'create' | 'duplicate' | 'invalid';
+  /** 问题（无法解析时缺失） */
+  question?: string;
+  /** 是否需要重新生成向量 */
+  reembed?: boolean;
+  /** 重复或无效的原因 */
+  reason?: string;
+  /** 导入后的记忆ID（预览时缺失） */
+  id?: string;
+  /** 嵌入服务不可用，等待后台补齐向量 */
+  pendingEmbedding?: boolean;
+}
+
+/**
+ * 导入结果（预览时不写入数据）
+ */
+export interface ImportSummary {
+  /** 是否为预览 */
+  dryRun: boolean;
+  /** 记录总数 */
+  total: number;
+  /** 新增（预览时为将要新增）的数量 */
+  created: number;
+  /** 重复跳过的数量 */
+  duplicates: number;
+  /** 无效的数量 */
+  invalid: number;
+  /** 需要重新生成向量的数量 */
+  reembed: number;
+  /** 每条记录的处理结果 */
+  items: ImportItemResult[];
+}
+
+/**
+ * 用户数据摘要（不含向量），用于在不加载用户数据的情况下统计数量和向量状态
+ */
+export interface UserSummary {
+  /** 记忆总数（不含回收站） */
+  count: number;
+  /** 回收站中的记忆数 */
+  trashed: number;
+  /** 等待后台补齐向量的记忆数 */
+  pending: number;
+  /** 缺少向量的记忆数（不含等待后台补齐的） */
+  missing: number;
+  /** 有向量的记忆按生成模型计数，未记录模型的旧数据计入空字符串 */
+  models: Record<string, number>;
+  /** 摘要生成时间 */
+  updatedAt: string;
+}
+
+/**
+ * 每个用户的配额设置（0 表示不限制）
+ */
+export interface QuotaLimits {
+  /** 最多保存的记忆数量（含回收站） */
+  maxMemories: number;
+  /** 记忆文本的最大总字节数（含回收站） */
+  maxBytes: number;
+  /** 问题的最大长度（字符） */
+  maxQuestionLength: number;
+  /** 答案的最大长度（字符） */
+  maxAnswerLength: number;
+}
+
+/**
+ * 用户当前的配额用量
+ */
+export interface QuotaUsage {
+  /** 记忆数量（不含回收站） */
+  memories: number;
+  /** 回收站中的记忆数 */
+  trashed: number;
+  /** 记忆文本的总字节数（含回收站，不含向量） */
+  bytes: number;
+}
+
 /**
  * 调用日志结构
  */
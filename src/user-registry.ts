@@ -0,0 +1,167 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './atomic-file.js';
+import { withFileLockSync } from './file-lock.js';
+
+/**
+ * 注册表文件名（带点号，不会与任何用户的存储键冲突）
+ */
+export const REGISTRY_FILE = 'users.registry.json';
+
+/**
+ * 注册表文件版本
+ */
+const REGISTRY_VERSION = 1;
+
+/**
+ * 注册表中的用户条目
+ */
+interface RegistryEntry {
+  /** 存储键（文件名前缀） */
+  key: string;
+  /** 注册时间 */
+  createdAt: string;
+}
+
+/**
+ * 注册表文件结构
+ */
+interface RegistryData {
+  version: number;
+  users: Record<string, RegistryEntry>;
+}
+
+/**
+ * 计算用户的存储键
+ * 可读前缀（清理后的 userId，最多 32 字符）+ 完整 userId 的 SHA-256 前 16 位，
+ * 不同的 userId 即使清理后相同（如 alice.smith 与 alice_smith、等长的中文 ID）也会得到不同的键
+ * @param userId 原始用户ID
+ */
+export function storageKeyFor(userId: string): string {
+  const prefix = userId.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 32);
+  const hash = createHash('sha256').update(userId, 'utf-8').digest('hex').slice(0, 16);
+  return `${prefix}-${hash}`;
+}
+
+/**
+ * 用户注册表：记录原始 userId 与存储键的对应关系
+ * 用于列出用户（文件名无法还原原始 ID）以及检测存储键冲突
+ * 多个进程共用数据目录时，文件变化后自动重新读取，注册新用户在文件锁内完成
+ */
+export class UserRegistry {
+  private users: Map<string, RegistryEntry> = new Map();
+  /** 存储键 -> userId，用于冲突检测 */
+  private keys: Map<string, string> = new Map();
+  private filePath: string;
+  private lockPath: string;
+  /** 上次读取时文件的修改时间和大小 */
+  private loadedStamp = '';
+
+  constructor(dataDir: string) {
+    this.filePath = join(dataDir, REGISTRY_FILE);
+    this.lockPath = join(dataDir, 'users.registry.lock');
+    this.refresh();
+  }
+
+  /**
+   * 注册表文件被其他进程修改后重新读取
+   */
+  refresh(): void {
+    if (!existsSync(this.filePath)) return;
+
+    const stat = statSync(this.filePath);
+    const stamp = `${stat.mtimeMs}:${stat.size}`;
+    if (stamp === this.loadedStamp) return;
+
+    const data: RegistryData = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+    if (data.version > REGISTRY_VERSION) {
+      throw new Error(`用户注册表 ${this.filePath} 的版本为 ${data.version}，当前程序最高支持 ${REGISTRY_VERSION}，请升级程序`);
+    }
+    for (const [userId, entry] of Object.entries(data.users || {})) {
+      this.users.set(userId, entry);
+      this.keys.set(entry.key, userId);
+    }
+    this.loadedStamp = stamp;
+  }
+
+  /**
+   * 在注册表文件锁内执行（如首次启动时的旧数据迁移）
+   */
+  withLock<T>(fn: () => T): T {
+    return withFileLockSync(this.lockPath, () => {
+      this.refresh();
+      return fn();
+    });
+  }
+
+  /**
+   * 注册表文件是否已存在（不存在时需要迁移旧数据）
+   */
+  exists(): boolean {
+    return existsSync(this.filePath);
+  }
+
+  /**
+   * 获取所有已注册的用户
+   */
+  list(): string[] {
+    this.refresh();
+    return Array.from(this.users.keys());
+  }
+
+  /**
+   * 用户是否已注册
+   */
+  has(userId: string): boolean {
+    if (!this.users.has(userId)) {
+      this.refresh();
+    }
+    return this.users.has(userId);
+  }
+
+  /**
+   * 注册用户（已注册时直接返回存储键）
+   * @param userId 原始用户ID
+   * @param persist 是否立即写入注册表文件（批量注册时可最后统一保存，由调用方持有文件锁）
+   * @returns 存储键
+   * @throws 存储键已被其他用户占用时抛出错误
+   */
+  register(userId: string, persist: boolean = true): string {
+    const existing = this.users.get(userId);
+    if (existing) {
+      return existing.key;
+    }
+    if (persist) {
+      // 在锁内重新读取后再写入，避免覆盖其他进程同时注册的用户
+      return this.withLock(() => {
+        const key = this.register(userId, false);
+        this.save();
+        return key;
+      });
+    }
+
+    const key = storageKeyFor(userId);
+    const owner = this.keys.get(key);
+    if (owner !== undefined && owner !== userId) {
+      throw new Error(`用户 ${userId} 的存储键 ${key} 已被用户 ${owner} 占用`);
+    }
+
+    this.users.set(userId, { key, createdAt: new Date().toISOString() });
+    this.keys.set(key, userId);
+    return key;
+  }
+
+  /**
+   * 原子写入注册表文件
+   */
+  save(): void {
+    const data: RegistryData = {
+      version: REGISTRY_VERSION,
+      users: Object.fromEntries(this.users),
+    };
+    writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+    const stat = statSync(this.filePath);
+    this.loadedStamp = `${stat.mtimeMs}:${stat.size}`;
+  }
+}
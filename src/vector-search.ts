@@ -6,7 +6,7 @@ import type { Memory, SearchResult } from './types.js';
  * @param b 向量 B
  * @returns 相似度值 (0-1)
  */
-export function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
   if (a.length !== b.length) {
     throw new Error(`向量维度不匹配: ${a.length} vs ${b.length}`);
   }
@@ -38,7 +38,7 @@ export function cosineSimilarity(a: number[], b: number[]): number {
  * @returns 按相似度排序的搜索结果
  */
 export function searchSimilar(
-  queryEmbedding: number[],
+  queryEmbedding: ArrayLike<number>,
   memories: Memory[],
   limit: number = 5
 ): SearchResult[] {
@@ -46,11 +46,13 @@ export function searchSimilar(
     return [];
   }
 
-  // 计算所有记忆的相似度
-  const results: SearchResult[] = memories.map(memory => ({
-    memory,
-    score: cosineSimilarity(queryEmbedding, memory.embedding)
-  }));
+  // 计算所有记忆的相似度（跳过缺失向量或维度不一致的记忆）
+  const results: SearchResult[] = memories
+    .filter(memory => memory.embedding.length === queryEmbedding.length)
+    .map(memory => ({
+      memory,
+      score: cosineSimilarity(queryEmbedding, memory.embedding)
+    }));
 
   // 按相似度降序排序并返回前 N 个
   return results
@@ -0,0 +1,260 @@
+import { readFileSync } from 'fs';
+import { writeFileAtomic } from './atomic-file.js';
+
+/**
+ * 向量存储格式
+ * - float32: 无损
+ * - float16: 体积减半，精度约 3 位有效数字
+ * - int8: 体积为 1/4，按每条向量的最大绝对值对称量化
+ */
+export type VectorFormat = 'float32' | 'float16' | 'int8';
+
+/**
+ * 向量条目
+ */
+export interface VectorEntry {
+  id: string;
+  vector: Float32Array;
+}
+
+/**
+ * 文件头: 魔数(4) + 版本(u16) + 格式(u8) + 保留(u8) + 条目数(u32)
+ */
+const MAGIC = 'MMVE';
+const FILE_VERSION = 1;
+const HEADER_SIZE = 12;
+
+const FORMAT_CODES: Record<VectorFormat, number> = {
+  float32: 0,
+  float16: 1,
+  int8: 2,
+};
+
+const BYTES_PER_ELEMENT: Record<VectorFormat, number> = {
+  float32: 4,
+  float16: 2,
+  int8: 1,
+};
+
+/**
+ * 解析向量存储格式，无效值返回 undefined
+ */
+export function parseVectorFormat(value: unknown): VectorFormat | undefined {
+  return value === 'float32' || value === 'float16' || value === 'int8' ? value : undefined;
+}
+
+/**
+ * float32 -> float16 位表示（舍入到最近）
+ */
+function toHalf(value: number): number {
+  const f32 = new Float32Array([value]);
+  const bits = new Uint32Array(f32.buffer)[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  const mantissa = bits & 0x7fffff;
+
+  if (exponent <= 0) {
+    // 非规格化数或下溢为 0
+    if (exponent < -10) return sign;
+    const m = (mantissa | 0x800000) >> (1 - exponent);
+    return sign | ((m + 0x1000) >> 13);
+  }
+  if (exponent >= 0x1f) {
+    // 溢出为无穷大（NaN 保留为 NaN）
+    return sign | 0x7c00 | (((bits >>> 23) & 0xff) === 0xff && mantissa ? 0x200 : 0);
+  }
+  const half = sign | (exponent << 10) | (mantissa >> 13);
+  // 舍入，进位可能溢出到指数位，结果依然正确
+  return (mantissa & 0x1000) ? half + 1 : half;
+}
+
+/**
+ * float16 位表示 -> float32
+ */
+function fromHalf(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * Math.pow(2, -14) * (mantissa / 1024);
+  }
+  if (exponent === 0x1f) {
+    return mantissa ? NaN : sign * Infinity;
+  }
+  return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+}
+
+/**
+ * 编码后的单条向量
+ */
+export interface EncodedVector {
+  /** 量化后的向量数据 */
+  data: Buffer;
+  /** 量化比例（仅 int8 使用，其他格式为 0） */
+  scale: number;
+}
+
+/**
+ * 将向量编码为指定格式的二进制数据
+ * @param vector 原始向量
+ * @param format 存储格式
+ */
+export function encodeVector(vector: Float32Array, format: VectorFormat): EncodedVector {
+  const bytesPerElement = BYTES_PER_ELEMENT[format];
+  const data = Buffer.alloc(vector.length * bytesPerElement);
+
+  let scale = 0;
+  if (format === 'int8') {
+    for (let j = 0; j < vector.length; j++) {
+      scale = Math.max(scale, Math.abs(vector[j]));
+    }
+    scale = scale / 127;
+  }
+
+  for (let j = 0; j < vector.length; j++) {
+    const offset = j * bytesPerElement;
+    if (format === 'float32') {
+      data.writeFloatLE(vector[j], offset);
+    } else if (format === 'float16') {
+      data.writeUInt16LE(toHalf(vector[j]), offset);
+    } else {
+      data.writeInt8(scale > 0 ? Math.round(vector[j] / scale) : 0, offset);
+    }
+  }
+
+  return { data, scale };
+}
+
+/**
+ * 将二进制数据还原为 Float32Array
+ * @param data 向量数据
+ * @param offset 数据起始位置
+ * @param dimension 向量维度
+ * @param format 存储格式
+ * @param scale 量化比例（仅 int8 使用）
+ */
+export function decodeVector(
+  data: Buffer,
+  offset: number,
+  dimension: number,
+  format: VectorFormat,
+  scale: number
+): Float32Array {
+  const bytesPerElement = BYTES_PER_ELEMENT[format];
+  const vector = new Float32Array(dimension);
+
+  for (let j = 0; j < dimension; j++) {
+    const position = offset + j * bytesPerElement;
+    if (format === 'float32') {
+      vector[j] = data.readFloatLE(position);
+    } else if (format === 'float16') {
+      vector[j] = fromHalf(data.readUInt16LE(position));
+    } else {
+      vector[j] = data.readInt8(position) * scale;
+    }
+  }
+
+  return vector;
+}
+
+/**
+ * 存储格式 -> 格式编码（用于文件头和数据库）
+ */
+export function formatCode(format: VectorFormat): number {
+  return FORMAT_CODES[format];
+}
+
+/**
+ * 格式编码 -> 存储格式，未知编码返回 undefined
+ */
+export function formatFromCode(code: number): VectorFormat | undefined {
+  return (Object.keys(FORMAT_CODES) as VectorFormat[]).find(f => FORMAT_CODES[f] === code);
+}
+
+/**
+ * 写入向量文件（原子覆盖）
+ * 条目格式: ID长度(u16) + ID(utf8) + 维度(u32) + 量化比例(f32，仅 int8 使用) + 向量数据
+ * @param filePath 文件路径
+ * @param entries 向量条目
+ * @param format 存储格式
+ */
+export function writeVectorFile(filePath: string, entries: VectorEntry[], format: VectorFormat = 'float32'): void {
+  const bytesPerElement = BYTES_PER_ELEMENT[format];
+  const encodedIds = entries.map(e => Buffer.from(e.id, 'utf-8'));
+
+  let size = HEADER_SIZE;
+  entries.forEach((entry, i) => {
+    size += 2 + encodedIds[i].length + 4 + 4 + entry.vector.length * bytesPerElement;
+  });
+
+  const buffer = Buffer.alloc(size);
+  buffer.write(MAGIC, 0, 'ascii');
+  buffer.writeUInt16LE(FILE_VERSION, 4);
+  buffer.writeUInt8(formatCode(format), 6);
+  buffer.writeUInt32LE(entries.length, 8);
+
+  let offset = HEADER_SIZE;
+  entries.forEach((entry, i) => {
+    const id = encodedIds[i];
+    const { data, scale } = encodeVector(entry.vector, format);
+
+    buffer.writeUInt16LE(id.length, offset);
+    offset += 2;
+    id.copy(buffer, offset);
+    offset += id.length;
+    buffer.writeUInt32LE(entry.vector.length, offset);
+    offset += 4;
+    buffer.writeFloatLE(scale, offset);
+    offset += 4;
+    data.copy(buffer, offset);
+    offset += data.length;
+  });
+
+  writeFileAtomic(filePath, buffer);
+}
+
+/**
+ * 读取向量文件
+ * 量化格式在读取时还原为 Float32Array
+ * @param filePath 文件路径
+ * @returns ID -> 向量
+ */
+export function readVectorFile(filePath: string): Map<string, Float32Array> {
+  const buffer = readFileSync(filePath);
+  const vectors = new Map<string, Float32Array>();
+
+  if (buffer.length < HEADER_SIZE || buffer.toString('ascii', 0, 4) !== MAGIC) {
+    throw new Error(`无效的向量文件: ${filePath}`);
+  }
+
+  const version = buffer.readUInt16LE(4);
+  if (version !== FILE_VERSION) {
+    throw new Error(`不支持的向量文件版本: ${version}`);
+  }
+
+  const format = formatFromCode(buffer.readUInt8(6));
+  if (!format) {
+    throw new Error(`未知的向量存储格式: ${buffer.readUInt8(6)}`);
+  }
+
+  const bytesPerElement = BYTES_PER_ELEMENT[format];
+  const count = buffer.readUInt32LE(8);
+  let offset = HEADER_SIZE;
+
+  for (let i = 0; i < count; i++) {
+    const idLength = buffer.readUInt16LE(offset);
+    offset += 2;
+    const id = buffer.toString('utf-8', offset, offset + idLength);
+    offset += idLength;
+    const dimension = buffer.readUInt32LE(offset);
+    offset += 4;
+    const scale = buffer.readFloatLE(offset);
+    offset += 4;
+
+    vectors.set(id, decodeVector(buffer, offset, dimension, format, scale));
+    offset += dimension * bytesPerElement;
+  }
+
+  return vectors;
+}
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type http from 'http';
+import { setupTestEnv } from './helpers.js';
+
+/** 锁定时间和统计窗口(ms) */
+const LOCKOUT = 500;
+/** 会话有效期(ms) */
+const SESSION_MS = 1000;
+
+setupTestEnv({
+  ADMIN_PASSWORD: 'secret-pass',
+  ADMIN_LOGIN_MAX_ATTEMPTS: '3',
+  ADMIN_LOGIN_LOCKOUT: String(LOCKOUT),
+  ADMIN_SESSION_HOURS: String(SESSION_MS / 3600000),
+});
+const { login, authenticate, logout, revokeUserSessions, getAuthStats } = await import('../src/admin-auth.js');
+
+/**
+ * 携带令牌的请求
+ */
+function requestWith(token: string): http.IncomingMessage {
+  return { headers: { authorization: `Bearer ${token}` }, socket: {} } as unknown as http.IncomingMessage;
+}
+
+/**
+ * 登录并返回令牌
+ */
+function loginToken(clientId: string): string {
+  const result = login('admin', 'secret-pass', clientId);
+  assert.ok(result.success);
+  return result.token;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('连续登录失败达到上限后锁定该客户端，锁定结束后可以登录', async () => {
+  for (let i = 0; i < 3; i++) {
+    const result = login('admin', 'wrong', '10.0.0.1');
+    assert.ok(!result.success);
+    assert.equal(result.retryAfterMs, undefined);
+  }
+
+  // 锁定期间密码正确也拒绝，其他客户端不受影响
+  const locked = login('admin', 'secret-pass', '10.0.0.1');
+  assert.ok(!locked.success);
+  assert.ok(locked.retryAfterMs! > 0 && locked.retryAfterMs! <= LOCKOUT);
+  assert.ok(login('admin', 'secret-pass', '10.0.0.2').success);
+
+  await sleep(LOCKOUT + 50);
+  assert.ok(login('admin', 'secret-pass', '10.0.0.1').success);
+});
+
+test('令牌签名被篡改、会话注销或过期后校验失败', async () => {
+  const token = loginToken('10.0.1.1');
+  assert.equal(authenticate(requestWith(token))?.username, 'admin');
+
+  const [id, expiresAt, signature] = token.split('.');
+  const forged = signature.startsWith('A') ? `B${signature.slice(1)}` : `A${signature.slice(1)}`;
+  assert.equal(authenticate(requestWith(`${id}.${expiresAt}.${forged}`)), undefined);
+  // 延长过期时间会使签名不匹配
+  assert.equal(authenticate(requestWith(`${id}.${Number(expiresAt) + 3600000}.${signature}`)), undefined);
+  assert.equal(authenticate(requestWith('not-a-token')), undefined);
+
+  assert.ok(logout(requestWith(token)));
+  assert.equal(authenticate(requestWith(token)), undefined);
+  assert.ok(!logout(requestWith(token)));
+
+  const expiring = loginToken('10.0.1.1');
+  assert.ok(authenticate(requestWith(expiring)));
+  await sleep(SESSION_MS + 50);
+  assert.equal(authenticate(requestWith(expiring)), undefined);
+});
+
+test('revokeUserSessions 注销账号的其他会话，保留指定会话', () => {
+  const current = loginToken('10.0.2.1');
+  const other = loginToken('10.0.2.2');
+  const session = authenticate(requestWith(current))!;
+
+  revokeUserSessions('admin', session.id);
+  assert.ok(authenticate(requestWith(current)));
+  assert.equal(authenticate(requestWith(other)), undefined);
+
+  revokeUserSessions('admin');
+  assert.equal(authenticate(requestWith(current)), undefined);
+});
+
+test('过期的失败记录和会话会被定期清理，不随客户端数量无限增长', async () => {
+  await sleep(LOCKOUT + 50);
+  assert.ok(login('admin', 'secret-pass', '10.0.3.0').success);
+  for (let i = 1; i <= 50; i++) {
+    login('admin', 'wrong', `10.0.3.${i}`);
+  }
+  assert.equal(getAuthStats().trackedClients, 50);
+
+  await sleep(Math.max(LOCKOUT, SESSION_MS) + 50);
+  login('admin', 'secret-pass', '10.0.4.1');
+  assert.deepEqual(getAuthStats(), { sessions: 1, trackedClients: 0 });
+});
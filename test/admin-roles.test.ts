@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { AdminAccountStore, ADMIN_ACCOUNTS_FILE, hasRole, parseAdminRole } from '../src/admin-accounts.js';
+import { hashPassword, verifyPasswordHash } from '../src/admin-auth.js';
+import { setupTestEnv, tempDir } from './helpers.js';
+
+setupTestEnv();
+const { getRequiredRole } = await import('../src/admin.js');
+
+test('角色按 viewer < editor < owner 继承权限', () => {
+  assert.ok(hasRole('owner', 'editor'));
+  assert.ok(hasRole('editor', 'viewer'));
+  assert.ok(hasRole('editor', 'editor'));
+  assert.ok(!hasRole('viewer', 'editor'));
+  assert.ok(!hasRole('editor', 'owner'));
+  assert.equal(parseAdminRole('root'), undefined);
+});
+
+test('查看只需 viewer，修改需要 editor，账号、令牌和审计日志需要 owner', () => {
+  assert.equal(getRequiredRole('GET', '/api/memories'), 'viewer');
+  assert.equal(getRequiredRole('POST', '/api/memories'), 'editor');
+  assert.equal(getRequiredRole('DELETE', '/api/memories/x'), 'editor');
+  assert.equal(getRequiredRole('GET', '/api/accounts'), 'owner');
+  assert.equal(getRequiredRole('GET', '/api/tokens'), 'owner');
+  assert.equal(getRequiredRole('GET', '/api/audit'), 'owner');
+});
+
+test('账号存储至少保留一个 owner', () => {
+  const store = new AdminAccountStore(tempDir());
+  store.create('root', 'owner', hashPassword('password-1'));
+  store.create('ed', 'editor', hashPassword('password-2'));
+
+  assert.throws(() => store.updateAccount('root', { role: 'viewer' }), /至少需要保留一个 owner/);
+  assert.throws(() => store.remove('root'), /至少需要保留一个 owner/);
+  assert.equal(store.getRole('root'), 'owner');
+
+  store.updateAccount('ed', { role: 'owner' });
+  assert.ok(store.remove('root'));
+  assert.deepEqual(store.list().map(a => [a.username, a.role]), [['ed', 'owner']]);
+  assert.throws(() => store.create('ed', 'viewer', hashPassword('password-3')), /已存在/);
+});
+
+test('账号文件写入失败时内存中的账号恢复原状', () => {
+  const dir = tempDir();
+  const store = new AdminAccountStore(dir);
+  store.create('root', 'owner', hashPassword('password-1'));
+  const filePath = join(dir, ADMIN_ACCOUNTS_FILE);
+  const before = readFileSync(filePath, 'utf-8');
+
+  // 临时文件路径被目录占用，写入失败
+  const tempPath = `${filePath}.tmp-${process.pid}`;
+  mkdirSync(tempPath);
+  assert.throws(() => store.create('ed', 'editor', hashPassword('password-2')));
+  assert.throws(() => store.updateAccount('root', { passwordHash: hashPassword('password-3') }));
+  rmSync(tempPath, { recursive: true });
+
+  assert.equal(readFileSync(filePath, 'utf-8'), before);
+  assert.deepEqual(store.list().map(a => a.username), ['root']);
+  assert.ok(verifyPasswordHash('password-1', store.getPasswordHash('root')!));
+  store.create('ed', 'editor', hashPassword('password-2'));
+  assert.deepEqual(store.list().map(a => a.username), ['ed', 'root']);
+});
+
+test('密码以加盐哈希保存', () => {
+  const hash = hashPassword('correct horse');
+  assert.ok(!hash.includes('correct horse'));
+  assert.notEqual(hashPassword('correct horse'), hash);
+  assert.ok(verifyPasswordHash('correct horse', hash));
+  assert.ok(!verifyPasswordHash('wrong', hash));
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiTokenStore, parseTokenScopes } from '../src/api-tokens.js';
+import { tempDir } from './helpers.js';
+
+test('令牌只允许访问授权的用户和权限', () => {
+  const store = new ApiTokenStore(tempDir());
+  const { token, info } = store.create('ci', ['alice'], ['read']);
+
+  assert.equal(store.verify(token)?.id, info.id);
+  assert.equal(store.verify(token + 'x'), undefined);
+  assert.equal(store.authorize(info.id, 'alice', 'read'), undefined);
+  assert.match(store.authorize(info.id, 'alice', 'write')!, /没有 write 权限/);
+  assert.match(store.authorize(info.id, 'bob', 'read')!, /无权访问用户 bob/);
+});
+
+test('撤销后令牌立即失效，其他进程的存储实例同样可见', () => {
+  const dataDir = tempDir();
+  const store = new ApiTokenStore(dataDir);
+  const other = new ApiTokenStore(dataDir);
+  const { token, info } = store.create('ci', ['alice'], ['read', 'write', 'delete']);
+
+  assert.equal(other.verify(token)?.id, info.id);
+  assert.ok(store.revoke(info.id));
+  assert.equal(store.revoke(info.id), undefined);
+  assert.equal(other.verify(token), undefined);
+  assert.match(other.authorize(info.id, 'alice', 'read')!, /已被撤销/);
+});
+
+test('令牌文件只保存哈希', () => {
+  const store = new ApiTokenStore(tempDir());
+  const { token } = store.create('ci', ['alice'], ['read']);
+  assert.ok(!JSON.stringify(store.list()).includes(token));
+});
+
+test('parseTokenScopes 校验权限列表', () => {
+  assert.deepEqual(parseTokenScopes(['read', 'write']), ['read', 'write']);
+  assert.equal(parseTokenScopes(['read', 'admin']), undefined);
+});
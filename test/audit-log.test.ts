@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { setupTestEnv } from './helpers.js';
+
+const dataDir = setupTestEnv();
+const { recordAudit, queryAudit } = await import('../src/audit-log.js');
+
+const LOG_PATH = join(dataDir, 'audit.log');
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 追加一条记录
+ */
+function record(actor: string, action: string, extra: { userId?: string; success?: boolean } = {}): void {
+  recordAudit({ actor, action, ip: '127.0.0.1', success: extra.success ?? true, userId: extra.userId });
+}
+
+test('记录只追加到日志，按操作者、操作、用户、结果和时间筛选', async () => {
+  record('root', 'login');
+  record('bob', 'update_message', { userId: 'alice' });
+  await sleep(10);
+  const middle = new Date().toISOString();
+  await sleep(10);
+  record('bob', 'delete_message', { userId: 'alice' });
+  record('bob', 'login', { success: false });
+  record('root', 'update_message', { userId: 'carol' });
+
+  const lines = readFileSync(LOG_PATH, 'utf-8').trim().split('\n');
+  assert.equal(lines.length, 5);
+  assert.deepEqual(lines.map(line => JSON.parse(line).action), ['login', 'update_message', 'delete_message', 'login', 'update_message']);
+
+  const byActor = queryAudit({ actor: 'bob' });
+  assert.equal(byActor.total, 3);
+  // 最近的在前
+  assert.deepEqual(byActor.items.map(e => e.action), ['login', 'delete_message', 'update_message']);
+
+  assert.deepEqual(queryAudit({ action: 'update_message' }).items.map(e => e.actor), ['root', 'bob']);
+  assert.deepEqual(queryAudit({ actor: 'bob', action: 'update_message' }).items.map(e => e.userId), ['alice']);
+  assert.deepEqual(queryAudit({ userId: 'alice' }).items.map(e => e.action), ['delete_message', 'update_message']);
+  assert.deepEqual(queryAudit({ success: false }).items.map(e => e.actor), ['bob']);
+
+  assert.equal(queryAudit({ since: middle }).total, 3);
+  assert.equal(queryAudit({ until: middle }).total, 2);
+  assert.equal(queryAudit({ actor: 'bob', since: middle, action: 'login' }).total, 1);
+
+  const all = queryAudit();
+  assert.deepEqual(all.actors, ['bob', 'root']);
+  assert.deepEqual(all.actions, ['delete_message', 'login', 'update_message']);
+  assert.deepEqual(queryAudit({ offset: 1, limit: 2 }).items.map(e => e.action), ['login', 'delete_message']);
+});
+
+test('不含毫秒的时间与记录时间按实际时刻比较', () => {
+  const [latest] = queryAudit().items;
+  const second = latest.time.replace(/\.\d{3}Z$/, 'Z');
+  const since = queryAudit({ since: second });
+  assert.ok(since.items.some(e => e.id === latest.id));
+});
+
+test('写入中断留下的半行被跳过', () => {
+  const before = queryAudit().total;
+  appendFileSync(LOG_PATH, '{"id":"x","time":"2');
+  assert.equal(queryAudit().total, before);
+});
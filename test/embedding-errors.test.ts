@@ -0,0 +1,71 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { setupTestEnv } from './helpers.js';
+
+/** 下一次请求返回的状态码 */
+let nextStatus = 200;
+
+// 模拟 OpenAI 兼容接口，按 nextStatus 返回成功或错误
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (nextStatus !== 200) {
+      res.writeHead(nextStatus, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: `status ${nextStatus}` } }));
+      return;
+    }
+    const { input } = JSON.parse(body);
+    const texts: string[] = Array.isArray(input) ? input : [input];
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: texts.map((_, index) => ({ index, embedding: [1, 0, 0, 0] })) }));
+  });
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+after(() => server.close());
+
+setupTestEnv({
+  EMBEDDING_PROVIDER: 'openai',
+  OPENAI_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+  EMBEDDING_RETRIES: '0',
+  CIRCUIT_BREAKER_THRESHOLD: '100',
+});
+const { generateEmbedding, generateEmbeddings, EmbeddingUnavailableError } = await import('../src/embedding-provider.js');
+const { memoryStore } = await import('../src/memory-store.js');
+
+test('5xx 和 429 视为嵌入服务暂时不可用', async () => {
+  for (const status of [500, 503, 429]) {
+    nextStatus = status;
+    await assert.rejects(generateEmbedding('text'), EmbeddingUnavailableError);
+    await assert.rejects(generateEmbeddings(['a', 'b']), EmbeddingUnavailableError);
+  }
+});
+
+test('400、401、404 作为配置错误原样返回', async () => {
+  for (const status of [400, 401, 404]) {
+    nextStatus = status;
+    await assert.rejects(generateEmbedding('text'), (error: unknown) => {
+      assert.ok(!(error instanceof EmbeddingUnavailableError));
+      assert.match((error as Error).message, new RegExp(`HTTP ${status}`));
+      return true;
+    });
+    await assert.rejects(generateEmbeddings(['a']), (error: unknown) => !(error instanceof EmbeddingUnavailableError));
+  }
+});
+
+test('服务不可用时记忆等待补齐向量，配置错误时拒绝写入', async () => {
+  nextStatus = 503;
+  const memory = await memoryStore.add('alice', '问题', '答案');
+  assert.equal(memory.pendingEmbedding, true);
+
+  nextStatus = 401;
+  await assert.rejects(memoryStore.add('alice', '问题二', '答案二'), /HTTP 401/);
+  await assert.rejects(memoryStore.search('alice', '问题', 5, { mode: 'hybrid' }), /HTTP 401/);
+  assert.equal(memoryStore.count('alice'), 1);
+
+  nextStatus = 200;
+  const [hit] = await memoryStore.search('alice', '问题', 5, { mode: 'hybrid' });
+  assert.equal(hit.memory.id, memory.id);
+});
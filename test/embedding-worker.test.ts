@@ -0,0 +1,76 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { setupTestEnv } from './helpers.js';
+
+/** 服务是否可用 */
+let available = false;
+/** 收到的嵌入请求数 */
+let requests = 0;
+
+// 模拟 OpenAI 兼容接口，统计请求次数
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    requests++;
+    if (!available) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'unavailable' } }));
+      return;
+    }
+    const { input } = JSON.parse(body);
+    const texts: string[] = Array.isArray(input) ? input : [input];
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: texts.map((text, index) => ({ index, embedding: [text.length, 1, 0, 0] })) }));
+  });
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+after(() => server.close());
+
+setupTestEnv({
+  EMBEDDING_PROVIDER: 'openai',
+  OPENAI_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+  EMBEDDING_RETRIES: '0',
+  CIRCUIT_BREAKER_THRESHOLD: '1000',
+});
+const { memoryStore } = await import('../src/memory-store.js');
+const { processPendingEmbeddings } = await import('../src/embedding-worker.js');
+const { startReindex, getReindexJob } = await import('../src/reindex.js');
+
+test('补齐向量和重新索引按批请求嵌入服务', async () => {
+  for (let i = 0; i < 25; i++) {
+    await memoryStore.add('alice', `问题 ${i}`, `答案 ${i}`);
+  }
+  assert.equal(memoryStore.getPendingEmbeddings('alice').length, 25);
+
+  available = true;
+  requests = 0;
+  assert.equal(await processPendingEmbeddings(), 25);
+  // 每批 20 条各一次请求
+  assert.equal(requests, 2);
+  assert.equal(memoryStore.getPendingEmbeddings('alice').length, 0);
+
+  requests = 0;
+  startReindex('alice', true);
+  while (getReindexJob()?.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.equal(getReindexJob()?.status, 'completed');
+  assert.equal(getReindexJob()?.done, 25);
+  assert.equal(requests, 2);
+});
+
+test('重新索引时一批请求失败，整批计为失败并继续处理后续批次', async () => {
+  available = false;
+  requests = 0;
+  startReindex('alice', true);
+  while (getReindexJob()?.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  const job = getReindexJob();
+  assert.equal(job?.status, 'completed');
+  assert.equal(job?.failed, 25);
+  assert.equal(requests, 2);
+});
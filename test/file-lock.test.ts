@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { existsSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+import { setupTestEnv, tempDir } from './helpers.js';
+
+setupTestEnv({ FILE_LOCK_STALE: '3000' });
+const { acquireFileLock, FileLockTimeoutError } = await import('../src/file-lock.js');
+
+/**
+ * 写入其他持有者的锁文件
+ * @param ageMs 锁文件的修改时间距今的毫秒数
+ */
+function writeLock(lockPath: string, holder: { pid: number; host: string }, ageMs: number): void {
+  const acquiredAt = Date.now() - ageMs;
+  writeFileSync(lockPath, JSON.stringify({ ...holder, acquiredAt }));
+  const mtime = new Date(acquiredAt);
+  utimesSync(lockPath, mtime, mtime);
+}
+
+/**
+ * 一个已经退出的进程ID
+ */
+function deadPid(): number {
+  return spawnSync(process.execPath, ['-e', '']).pid!;
+}
+
+test('锁被持有时其他获取者等待释放后才能获得', async () => {
+  const lockPath = join(tempDir(), 'exclusive.lock');
+  const release = await acquireFileLock(lockPath, 1000);
+  let acquired = false;
+  const waiting = acquireFileLock(lockPath, 2000).then(releaseNext => {
+    acquired = true;
+    return releaseNext;
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert.ok(!acquired);
+  release();
+  (await waiting)();
+  assert.ok(!existsSync(lockPath));
+});
+
+test('同一主机上持有进程仍存活时，持有时间再长也不抢占', async () => {
+  const lockPath = join(tempDir(), 'alive.lock');
+  writeLock(lockPath, { pid: process.ppid, host: hostname() }, 60 * 60 * 1000);
+  await assert.rejects(acquireFileLock(lockPath, 200), FileLockTimeoutError);
+  assert.ok(existsSync(lockPath));
+});
+
+test('同一主机上持有进程已退出时立即清理', async () => {
+  const lockPath = join(tempDir(), 'dead.lock');
+  writeLock(lockPath, { pid: deadPid(), host: hostname() }, 0);
+  const release = await acquireFileLock(lockPath, 1000);
+  release();
+  assert.ok(!existsSync(lockPath));
+});
+
+test('其他主机的锁按心跳判断：仍在刷新时等待，停止刷新后清理', async () => {
+  const lockPath = join(tempDir(), 'remote.lock');
+  writeLock(lockPath, { pid: 1, host: 'other-host' }, 0);
+  await assert.rejects(acquireFileLock(lockPath, 200), FileLockTimeoutError);
+
+  writeLock(lockPath, { pid: 1, host: 'other-host' }, 10_000);
+  const release = await acquireFileLock(lockPath, 1000);
+  release();
+});
+
+test('持有锁期间定期刷新锁文件的修改时间', async () => {
+  const lockPath = join(tempDir(), 'heartbeat.lock');
+  const release = await acquireFileLock(lockPath, 1000);
+  const past = new Date(Date.now() - 10_000);
+  utimesSync(lockPath, past, past);
+
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  assert.ok(Date.now() - statSync(lockPath).mtimeMs < 2000);
+  release();
+  assert.ok(!existsSync(lockPath));
+});
@@ -0,0 +1,57 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * 创建临时数据目录
+ */
+export function tempDir(prefix: string = 'my-mem-test-'): string {
+  return mkdtempSync(join(tmpdir(), prefix));
+}
+
+/**
+ * 为依赖环境变量的模块准备测试环境：临时数据目录、哈希嵌入、关闭调用日志
+ * 模块在导入时读取环境变量，需在此之后再动态导入
+ * @param env 额外的环境变量
+ * @returns 数据目录
+ */
+export function setupTestEnv(env: Record<string, string> = {}): string {
+  const dataDir = tempDir();
+  Object.assign(process.env, {
+    DATA_DIR: dataDir,
+    EMBEDDING_PROVIDER: 'hash',
+    HASH_EMBEDDING_DIM: '64',
+    LOG_ENABLED: 'false',
+    ...env,
+  });
+  return dataDir;
+}
+
+/**
+ * 生成可复现的伪随机数（mulberry32）
+ */
+export function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 生成随机单位向量
+ */
+export function randomVector(random: () => number, dimension: number): Float32Array {
+  const vector = new Float32Array(dimension);
+  let norm = 0;
+  for (let i = 0; i < dimension; i++) {
+    vector[i] = random() * 2 - 1;
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  for (let i = 0; i < dimension; i++) {
+    vector[i] /= norm;
+  }
+  return vector;
+}
@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HnswIndex, computeSignature } from '../src/hnsw-index.js';
+import { searchSimilar } from '../src/vector-search.js';
+import type { Memory } from '../src/types.js';
+import { seededRandom, randomVector } from './helpers.js';
+
+const DIMENSION = 32;
+const COUNT = 1500;
+
+/**
+ * 生成带向量的记忆
+ */
+function makeMemories(random: () => number, count: number): Memory[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    userId: 'u',
+    question: '',
+    answer: '',
+    embedding: randomVector(random, DIMENSION),
+    createdAt: '',
+    updatedAt: '',
+  }));
+}
+
+/**
+ * HNSW 前 k 个结果相对暴力扫描的平均召回率
+ */
+function recall(index: HnswIndex, memories: Memory[], queries: Float32Array[], k: number): number {
+  let total = 0;
+  for (const query of queries) {
+    const exact = new Set(searchSimilar(query, memories, k).map(r => r.memory.id));
+    const approx = index.search(query, k);
+    total += approx.filter(hit => exact.has(hit.id)).length / k;
+  }
+  return total / queries.length;
+}
+
+test('HNSW 召回率相对暴力扫描不低于 0.9', () => {
+  const random = seededRandom(42);
+  const memories = makeMemories(random, COUNT);
+  const index = new HnswIndex({ efSearch: 64 });
+  for (const memory of memories) {
+    index.add(memory.id, memory.embedding);
+  }
+  const queries = Array.from({ length: 50 }, () => randomVector(random, DIMENSION));
+
+  assert.equal(index.size, COUNT);
+  assert.ok(recall(index, memories, queries, 10) >= 0.9);
+});
+
+test('HNSW 搜索结果按相似度降序，且不返回已删除的节点', () => {
+  const random = seededRandom(7);
+  const memories = makeMemories(random, 300);
+  const index = new HnswIndex();
+  for (const memory of memories) {
+    index.add(memory.id, memory.embedding);
+  }
+
+  const target = memories[123];
+  const [top] = index.search(target.embedding, 1);
+  assert.equal(top.id, target.id);
+  assert.ok(Math.abs(top.score - 1) < 1e-5);
+
+  index.remove(target.id);
+  const hits = index.search(target.embedding, 10);
+  assert.ok(!hits.some(hit => hit.id === target.id));
+  for (let i = 1; i < hits.length; i++) {
+    assert.ok(hits[i - 1].score >= hits[i].score);
+  }
+  assert.throws(() => index.add('bad', new Float32Array(DIMENSION + 1)), /维度不匹配/);
+});
+
+test('HNSW 快照恢复后搜索结果不变', () => {
+  const random = seededRandom(3);
+  const memories = makeMemories(random, 500);
+  const index = new HnswIndex();
+  for (const memory of memories) {
+    index.add(memory.id, memory.embedding);
+  }
+
+  const snapshot = JSON.parse(JSON.stringify(index.toSnapshot('sig')));
+  const byId = new Map(memories.map(m => [m.id, m.embedding]));
+  const restored = HnswIndex.fromSnapshot(snapshot, id => byId.get(id));
+  assert.ok(restored);
+
+  const query = randomVector(random, DIMENSION);
+  assert.deepEqual(restored.search(query, 10), index.search(query, 10));
+  // 缺少向量时快照不可用
+  assert.equal(HnswIndex.fromSnapshot(snapshot, () => undefined), undefined);
+});
+
+test('HNSW 有删除时需重建后才能导出快照，重建后不含已删除的节点', () => {
+  const random = seededRandom(11);
+  const memories = makeMemories(random, 600);
+  const index = new HnswIndex();
+  for (const memory of memories) {
+    index.add(memory.id, memory.embedding);
+  }
+  const removed = new Set(memories.filter((_, i) => i % 3 === 0).map(m => m.id));
+  for (const id of removed) {
+    index.remove(id);
+  }
+  assert.throws(() => index.toSnapshot('sig'), /标记删除/);
+
+  const compacted = index.compact();
+  assert.equal(compacted.size, memories.length - removed.size);
+  assert.equal(compacted.deletedRatio, 0);
+
+  const snapshot = JSON.parse(JSON.stringify(compacted.toSnapshot('sig')));
+  assert.ok(!snapshot.ids.some((id: string) => removed.has(id)));
+  const live = memories.filter(m => !removed.has(m.id));
+  const byId = new Map(live.map(m => [m.id, m.embedding]));
+  const restored = HnswIndex.fromSnapshot(snapshot, id => byId.get(id));
+  assert.ok(restored);
+
+  const queries = Array.from({ length: 30 }, () => randomVector(random, DIMENSION));
+  assert.ok(recall(restored, live, queries, 10) >= 0.9);
+  // 旧版本快照（含标记删除的节点）不再使用
+  assert.equal(HnswIndex.fromSnapshot({ ...snapshot, version: 1 }, id => byId.get(id)), undefined);
+});
+
+test('computeSignature 与顺序无关，向量或模型变化时签名改变', () => {
+  const random = seededRandom(5);
+  const [a, b, c] = ['a', 'b', 'c'].map(id => ({ id, embeddingModel: 'm1', embedding: randomVector(random, DIMENSION) }));
+  assert.equal(computeSignature([a, b, c]), computeSignature([c, a, b]));
+  assert.notEqual(computeSignature([a, b]), computeSignature([a, c]));
+
+  const reembedded = { ...b, embedding: randomVector(random, DIMENSION) };
+  assert.notEqual(computeSignature([a, b]), computeSignature([a, reembedded]));
+  assert.notEqual(computeSignature([a, b]), computeSignature([a, { ...b, embeddingModel: 'm2' }]));
+  assert.equal(computeSignature([a, b]), computeSignature([a, { ...b, embedding: Array.from(b.embedding) }]));
+});
@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { JsonStorageBackend } from '../src/json-storage.js';
+import { storageKeyFor } from '../src/user-registry.js';
+import { ApiTokenStore } from '../src/api-tokens.js';
+import { AdminAccountStore } from '../src/admin-accounts.js';
+import { hashPassword } from '../src/admin-auth.js';
+import type { Memory } from '../src/types.js';
+import { tempDir } from './helpers.js';
+
+/**
+ * 构造一条记忆
+ */
+function makeMemory(id: string, userId: string, vector: number[] = [1, 0, 0]): Memory {
+  return {
+    id,
+    userId,
+    question: `问题 ${id}`,
+    answer: `答案 ${id}`,
+    tags: [],
+    metadata: {},
+    embedding: Float32Array.from(vector),
+    embeddingModel: 'hash-64',
+    embeddingDim: vector.length,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+test('重新加载时在快照上重放日志', () => {
+  const dataDir = tempDir();
+  const backend = new JsonStorageBackend(dataDir, 'float32');
+  const a = makeMemory('a', 'alice');
+  const b = makeMemory('b', 'alice', [0, 1, 0]);
+  backend.saveUser('alice', [a, b]);
+
+  const changed = { ...a, answer: '新答案', embedding: Float32Array.from([0, 0, 1]) };
+  const c = makeMemory('c', 'alice', [0.5, 0.5, 0]);
+  backend.saveUser('alice', [changed, c], { upserted: [changed, c], deleted: ['b'] });
+
+  const key = storageKeyFor('alice');
+  assert.ok(existsSync(join(dataDir, `${key}.journal`)));
+
+  const loaded = new JsonStorageBackend(dataDir, 'float32').loadUser('alice');
+  assert.deepEqual(loaded.map(m => m.id), ['a', 'c']);
+  assert.equal(loaded[0].answer, '新答案');
+  assert.deepEqual(Array.from(loaded[0].embedding), [0, 0, 1]);
+  assert.deepEqual(Array.from(loaded[1].embedding), [0.5, 0.5, 0]);
+});
+
+test('日志末尾写入中断的半行被忽略，不视为损坏', () => {
+  const dataDir = tempDir();
+  const backend = new JsonStorageBackend(dataDir, 'float32');
+  const a = makeMemory('a', 'alice');
+  backend.saveUser('alice', [a]);
+  const b = makeMemory('b', 'alice');
+  backend.saveUser('alice', [a, b], { upserted: [b], deleted: [] });
+
+  const key = storageKeyFor('alice');
+  appendFileSync(join(dataDir, `${key}.journal`), '{"op":"upsert","memory":{"id":"c"');
+
+  const loaded = new JsonStorageBackend(dataDir, 'float32').loadUser('alice');
+  assert.deepEqual(loaded.map(m => m.id), ['a', 'b']);
+  assert.ok(!readdirSync(dataDir).some(f => f.includes('.corrupt-')));
+});
+
+test('日志中间的损坏行被跳过并备份日志', () => {
+  const dataDir = tempDir();
+  const backend = new JsonStorageBackend(dataDir, 'float32');
+  const a = makeMemory('a', 'alice');
+  backend.saveUser('alice', [a]);
+  const key = storageKeyFor('alice');
+  const b = makeMemory('b', 'alice');
+  appendFileSync(join(dataDir, `${key}.journal`), 'not json\n');
+  backend.saveUser('alice', [a, b], { upserted: [b], deleted: [] });
+
+  const loaded = new JsonStorageBackend(dataDir, 'float32').loadUser('alice');
+  assert.deepEqual(loaded.map(m => m.id), ['a', 'b']);
+  assert.ok(readdirSync(dataDir).some(f => f.includes('.corrupt-')));
+});
+
+test('损坏的数据文件拒绝加载，原文件保留不被覆盖', () => {
+  const dataDir = tempDir();
+  const backend = new JsonStorageBackend(dataDir, 'float32');
+  backend.saveUser('alice', [makeMemory('a', 'alice')]);
+  const key = storageKeyFor('alice');
+  const filePath = join(dataDir, `${key}.json`);
+  writeFileSync(filePath, '{ broken');
+
+  const reopened = new JsonStorageBackend(dataDir, 'float32');
+  assert.throws(() => reopened.loadUser('alice'), /已损坏/);
+  assert.throws(() => reopened.loadUser('alice'), /已损坏/);
+  assert.equal(readFileSync(filePath, 'utf-8'), '{ broken');
+});
+
+test('旧版文件按记忆的 userId 拆分迁移，向量移入 .vec 文件', () => {
+  const dataDir = tempDir();
+  const legacy = {
+    memories: [
+      { id: 'a', userId: 'alice', question: 'q1', answer: 'a1', embedding: [1, 0], createdAt: '', updatedAt: '' },
+      { id: 'b', userId: 'bob', question: 'q2', answer: 'a2', embedding: [0, 1], createdAt: '', updatedAt: '' },
+    ],
+    lastUpdated: '',
+  };
+  writeFileSync(join(dataDir, 'shared.json'), JSON.stringify(legacy));
+
+  const backend = new JsonStorageBackend(dataDir, 'float32');
+  assert.deepEqual(backend.listUsers().sort(), ['alice', 'bob']);
+
+  const bob = backend.loadUser('bob');
+  assert.equal(bob.length, 1);
+  assert.deepEqual(bob[0].tags, []);
+  assert.deepEqual(Array.from(bob[0].embedding), [0, 1]);
+
+  assert.ok(!existsSync(join(dataDir, 'shared.json')));
+  const report = JSON.parse(readFileSync(join(dataDir, 'users.migration-report.json'), 'utf-8'));
+  assert.equal(report.users, 2);
+  assert.equal(report.collisions.length, 1);
+});
+
+test('迁移旧版文件时保留 API 令牌和管理平台账号文件', () => {
+  const dataDir = tempDir();
+  const { token } = new ApiTokenStore(dataDir).create('ci', ['alice'], ['read']);
+  new AdminAccountStore(dataDir).create('root', 'owner', hashPassword('password-1'));
+  writeFileSync(join(dataDir, 'alice.json'), JSON.stringify({ memories: [], lastUpdated: '' }));
+
+  new JsonStorageBackend(dataDir, 'float32');
+  assert.ok(existsSync(join(dataDir, 'api-tokens.json')));
+  assert.ok(existsSync(join(dataDir, 'admin-accounts.json')));
+  assert.ok(new ApiTokenStore(dataDir).verify(token));
+  assert.equal(new AdminAccountStore(dataDir).getRole('root'), 'owner');
+});
+
+test('迁移时跳过不是记忆数据的 JSON 文件', () => {
+  const dataDir = tempDir();
+  writeFileSync(join(dataDir, 'settings.json'), JSON.stringify({ theme: 'dark' }));
+
+  const backend = new JsonStorageBackend(dataDir, 'float32');
+  assert.deepEqual(backend.listUsers(), []);
+  assert.equal(readFileSync(join(dataDir, 'settings.json'), 'utf-8'), '{"theme":"dark"}');
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeyedMutex } from '../src/keyed-mutex.js';
+import { seededRandom } from './helpers.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('同一个键按调用顺序依次执行，任意时刻只有一个持有者', async () => {
+  const mutex = new KeyedMutex();
+  const random = seededRandom(1);
+  const order: number[] = [];
+  let active = 0;
+  let maxActive = 0;
+
+  await Promise.all(Array.from({ length: 8 }, (_, i) => mutex.runExclusive('alice', async () => {
+    active++;
+    maxActive = Math.max(maxActive, active);
+    order.push(i);
+    // 先调用的持有者耗时更长，不影响顺序
+    await sleep(Math.floor(random() * 10) + (8 - i));
+    active--;
+  })));
+
+  assert.deepEqual(order, [0, 1, 2, 3, 4, 5, 6, 7]);
+  assert.equal(maxActive, 1);
+  assert.ok(!mutex.isLocked('alice'));
+});
+
+test('不同的键互不阻塞', async () => {
+  const mutex = new KeyedMutex();
+  const release = await mutex.acquire('alice');
+  assert.equal(await mutex.runExclusive('bob', () => 'done'), 'done');
+  assert.ok(mutex.isLocked('alice'));
+  release();
+  assert.ok(!mutex.isLocked('alice'));
+});
+
+test('持有者抛出错误后释放锁，后续等待者继续执行', async () => {
+  const mutex = new KeyedMutex();
+  const failed = mutex.runExclusive('alice', async () => {
+    await sleep(5);
+    throw new Error('boom');
+  });
+  const next = mutex.runExclusive('alice', () => 'next');
+
+  await assert.rejects(failed, /boom/);
+  assert.equal(await next, 'next');
+  assert.ok(!mutex.isLocked('alice'));
+});
+
+test('重复调用释放函数不会让两个等待者同时持有锁', async () => {
+  const mutex = new KeyedMutex();
+  const release = await mutex.acquire('alice');
+  const second = mutex.acquire('alice');
+  const third = mutex.acquire('alice');
+  let thirdAcquired = false;
+  third.then(() => { thirdAcquired = true; });
+
+  release();
+  release();
+  const releaseSecond = await second;
+  await sleep(5);
+  assert.ok(!thirdAcquired);
+
+  releaseSecond();
+  (await third)();
+  assert.ok(!mutex.isLocked('alice'));
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tokenize, KeywordIndex } from '../src/keyword-search.js';
+
+test('tokenize 保留复合标识符整体并拆出各部分', () => {
+  assert.deepEqual(tokenize('memoryStore.search'), ['memorystore.search', 'memorystore', 'search']);
+  assert.deepEqual(tokenize('JIRA-1234 v1.2.3'), ['jira-1234', 'jira', '1234', 'v1.2.3', 'v1', '2', '3']);
+  assert.deepEqual(tokenize('ERR_CONN_REFUSED'), ['err_conn_refused']);
+});
+
+test('tokenize 将中文切分为二元组，单字保留单字', () => {
+  assert.deepEqual(tokenize('向量搜索'), ['向量', '量搜', '搜索']);
+  assert.deepEqual(tokenize('是 的'), ['是', '的']);
+});
+
+test('tokenize 在中英混排的边界处拆开，所有词元均为小写', () => {
+  assert.deepEqual(tokenize('报错ERR_CONN_REFUSED了'), ['报错', 'err_conn_refused', '了']);
+  assert.deepEqual(tokenize('调用memoryStore.search方法'), ['调用', 'memorystore.search', 'memorystore', 'search', '方法']);
+  assert.deepEqual(tokenize('ＡＢ测试'), ['ａｂ', '测试']);
+  for (const token of tokenize('日志显示Timeout，重启Docker后恢复')) {
+    assert.equal(token, token.toLowerCase());
+  }
+});
+
+test('BM25 按相关度排序并支持删除和候选集', () => {
+  const index = new KeywordIndex();
+  index.add('a', '如何配置 Ollama 的 embedding 模型');
+  index.add('b', 'Docker 部署时 OLLAMA_HOST 指向宿主机');
+  index.add('c', '向量搜索使用余弦相似度');
+
+  assert.deepEqual(index.search('OLLAMA_HOST').map(h => h.id), ['b']);
+  const hits = index.search('ollama 配置');
+  assert.equal(hits[0].id, 'a');
+  assert.ok(!hits.some(h => h.id === 'c'));
+
+  assert.deepEqual(index.search('余弦相似度').map(h => h.id), ['c']);
+  assert.deepEqual(index.search('ollama', 10, new Set(['a'])).map(h => h.id), ['a']);
+
+  index.remove('c');
+  assert.equal(index.size, 2);
+  assert.deepEqual(index.search('余弦相似度'), []);
+});
+
+test('BM25 对词频饱和并按文档长度归一化', () => {
+  const index = new KeywordIndex();
+  index.add('short', 'timeout');
+  index.add('long', 'timeout ' + 'padding '.repeat(50));
+  index.add('other', 'unrelated text');
+
+  const [first, second] = index.search('timeout');
+  assert.equal(first.id, 'short');
+  assert.equal(second.id, 'long');
+  assert.ok(first.score > second.score);
+});
+
+test('BM25 用标识符查询能命中中英混排的文档', () => {
+  const index = new KeywordIndex();
+  index.add('mixed', '连接数据库时报错ERR_CONN_REFUSED了');
+  index.add('other', '数据库连接池配置');
+
+  assert.deepEqual(index.search('ERR_CONN_REFUSED').map(h => h.id), ['mixed']);
+  assert.deepEqual(index.search('err_conn_refused').map(h => h.id), ['mixed']);
+  assert.equal(index.search('报错')[0].id, 'mixed');
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setupTestEnv } from './helpers.js';
+
+// 每条记忆约 550 字节（64 维向量 + 文本 + 固定开销），上限约可容纳两个用户各 8 条记忆
+setupTestEnv({ CACHE_MAX_MB: '0.01' });
+const { memoryStore } = await import('../src/memory-store.js');
+
+/**
+ * 为用户添加 8 条记忆
+ */
+async function addMemories(userId: string): Promise<void> {
+  const items = Array.from({ length: 8 }, (_, i) => ({ question: `${userId} 的问题 ${i}`, answer: `${userId} 的答案 ${i}` }));
+  const results = await memoryStore.addMany(userId, items);
+  assert.ok(results.every(r => r.success));
+}
+
+test('超出缓存上限时淘汰最久未访问的用户，再次访问时重新加载', async () => {
+  await addMemories('a');
+  await addMemories('b');
+  assert.deepEqual(memoryStore.getCacheStats().users, ['a', 'b']);
+
+  // 访问 a 后 b 成为最久未访问的用户
+  const before = memoryStore.list('b');
+  assert.equal(memoryStore.list('a').length, 8);
+  assert.deepEqual(memoryStore.getCacheStats().users, ['b', 'a']);
+
+  await addMemories('c');
+  let stats = memoryStore.getCacheStats();
+  assert.deepEqual(stats.users, ['a', 'c']);
+  assert.ok(stats.bytes <= stats.maxBytes);
+
+  // 被淘汰的用户从存储重新加载，数据不变，向量可用于搜索
+  assert.deepEqual(JSON.parse(JSON.stringify(memoryStore.list('b'))), JSON.parse(JSON.stringify(before)));
+  const [top] = await memoryStore.search('b', 'b 的问题 3', 1, { mode: 'vector' });
+  assert.equal(top.memory.question, 'b 的问题 3');
+  stats = memoryStore.getCacheStats();
+  assert.deepEqual(stats.users, ['c', 'b']);
+  assert.ok(stats.bytes <= stats.maxBytes);
+});
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { filterMemories, normalizeFilter, InvalidFilterError } from '../src/memory-filter.js';
+import type { Memory, MemoryFilter } from '../src/types.js';
+
+type Item = Pick<Memory, 'id' | 'tags' | 'metadata'>;
+
+const items: Item[] = [
+  { id: 'a', tags: ['foo', 'bar'], metadata: { project: 'alpha', priority: 3, lang: 'zh', done: true } },
+  { id: 'b', tags: ['foo'], metadata: { project: 'beta', priority: 1, lang: 'en', done: false } },
+  { id: 'c', tags: ['baz'], metadata: { project: 'alpha', priority: 5 } },
+  { id: 'd', tags: [], metadata: {} },
+];
+
+/**
+ * 按过滤条件筛选后的ID
+ */
+function ids(filter: MemoryFilter): string[] {
+  return filterMemories(items, filter).map(m => m.id);
+}
+
+test('tags 需全部包含，anyTags 至少包含一个', () => {
+  assert.deepEqual(ids({ tags: ['foo'] }), ['a', 'b']);
+  assert.deepEqual(ids({ tags: ['foo', 'bar'] }), ['a']);
+  assert.deepEqual(ids({ anyTags: ['bar', 'baz'] }), ['a', 'c']);
+  assert.deepEqual(ids({ tags: ['foo'], anyTags: ['bar', 'baz'] }), ['a']);
+  assert.deepEqual(ids({ tags: ['missing'] }), []);
+});
+
+test('过滤标签与保存时一样去除空白、空标签和重复标签', () => {
+  assert.deepEqual(ids({ tags: [' foo', 'bar '] }), ['a']);
+  assert.deepEqual(ids({ anyTags: ['  baz  '] }), ['c']);
+  assert.deepEqual(ids({ tags: ['', '   '] }), ['a', 'b', 'c', 'd']);
+  assert.deepEqual(normalizeFilter({ tags: [' foo', 'foo', ''], anyTags: [' x '] }).tags, ['foo']);
+});
+
+test('没有过滤条件时原样返回', () => {
+  assert.equal(filterMemories(items), items);
+  assert.equal(filterMemories(items, {}), items);
+});
+
+test('元数据直接给出取值时按相等匹配，字段不存在时不匹配', () => {
+  assert.deepEqual(ids({ metadata: { project: 'alpha' } }), ['a', 'c']);
+  assert.deepEqual(ids({ metadata: { project: 'alpha', done: true } }), ['a']);
+  assert.deepEqual(ids({ metadata: { priority: '3' } }), []);
+  assert.deepEqual(ids({ metadata: { ' project ': 'beta' } }), ['b']);
+});
+
+test('元数据谓词 eq、in 与范围比较，多个操作符需同时满足', () => {
+  assert.deepEqual(ids({ metadata: { project: { eq: 'beta' } } }), ['b']);
+  assert.deepEqual(ids({ metadata: { lang: { in: ['zh', 'en'] } } }), ['a', 'b']);
+  assert.deepEqual(ids({ metadata: { priority: { gt: 3 } } }), ['c']);
+  assert.deepEqual(ids({ metadata: { priority: { gte: 3 } } }), ['a', 'c']);
+  assert.deepEqual(ids({ metadata: { priority: { lt: 3 } } }), ['b']);
+  assert.deepEqual(ids({ metadata: { priority: { lte: 3 } } }), ['a', 'b']);
+  assert.deepEqual(ids({ metadata: { priority: { gt: 1, lt: 5 } } }), ['a']);
+  // 字符串按字典序比较，类型不一致时不匹配
+  assert.deepEqual(ids({ metadata: { project: { gte: 'b' } } }), ['b']);
+  assert.deepEqual(ids({ metadata: { priority: { gte: '1' } } }), []);
+});
+
+test('未知操作符或无效操作数被拒绝，而不是当作匹配全部', () => {
+  const invalid: unknown[] = [
+    { priority: { gtt: 1 } },
+    { priority: { gt: 1, between: [1, 5] } },
+    { lang: { in: 'zh' } },
+    { lang: { in: [{}] } },
+    { priority: { gt: true } },
+    { project: { eq: null } },
+    { project: null },
+    { project: ['alpha'] },
+    ['project'],
+    'project=alpha',
+  ];
+  for (const metadata of invalid) {
+    assert.throws(
+      () => filterMemories(items, { metadata } as MemoryFilter),
+      InvalidFilterError,
+      JSON.stringify(metadata)
+    );
+  }
+  assert.throws(() => filterMemories(items, { metadata: { priority: { gtt: 1 } } } as MemoryFilter), /未知操作符 gtt/);
+});
@@ -0,0 +1,217 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { StorageBackend } from '../src/storage-backend.js';
+import { storageKeyFor } from '../src/user-registry.js';
+import { setupTestEnv, seededRandom } from './helpers.js';
+
+const dataDir = setupTestEnv({ ANN_MIN_SIZE: '100' });
+const { memoryStore, memoryText } = await import('../src/memory-store.js');
+const { getEmbeddingModel } = await import('../src/embedding-provider.js');
+
+/**
+ * 让存储后端的下一次保存失败
+ */
+function failNextSave(): void {
+  const backend = (memoryStore as unknown as { backend: StorageBackend }).backend;
+  const save = backend.saveUser;
+  backend.saveUser = () => {
+    backend.saveUser = save;
+    throw new Error('disk full');
+  };
+}
+
+const WORDS = ['向量', '索引', 'cache', 'deploy', 'ollama', '数据库', 'token', '配置', 'search', 'journal', '迁移', 'quota', 'server', '日志', 'embedding', '回收站'];
+
+/**
+ * 由随机词组成的文本
+ */
+function randomText(random: () => number, words: number): string {
+  return Array.from({ length: words }, () => WORDS[Math.floor(random() * WORDS.length)] + Math.floor(random() * 50)).join(' ');
+}
+
+test('添加后可按向量、关键词和混合模式搜索到', async () => {
+  const memory = await memoryStore.add('search', '如何部署 Ollama?', '使用 docker compose 启动', { tags: ['deploy'] });
+  await memoryStore.add('search', '数据库备份', '每天凌晨执行 pg_dump');
+
+  for (const mode of ['vector', 'keyword', 'hybrid'] as const) {
+    const [top] = await memoryStore.search('search', '如何部署 Ollama?', 1, { mode });
+    assert.equal(top.memory.id, memory.id, mode);
+  }
+  const filtered = await memoryStore.search('search', '部署', 5, { filter: { tags: ['missing'] } });
+  assert.deepEqual(filtered, []);
+});
+
+test('元数据过滤条件无效时搜索和列表都返回错误', async () => {
+  const filter = { metadata: { project: { like: 'a%' } } } as never;
+  await assert.rejects(memoryStore.search('filter-empty-user', '任意', 5, { filter }), /未知操作符 like/);
+  await memoryStore.add('filter-user', '问题', '答案', { metadata: { project: 'alpha' } });
+  await assert.rejects(memoryStore.search('filter-user', '问题', 5, { filter }), /未知操作符 like/);
+  assert.throws(() => memoryStore.query('filter-user', filter), /未知操作符 like/);
+});
+
+test('按游标或偏移量翻页，时间相同的记忆也不重复、不遗漏', async () => {
+  const userId = 'paging-user';
+  // 同一批添加的记忆创建时间相同
+  const batch = await memoryStore.addMany(userId, Array.from({ length: 12 }, (_, i) => ({ question: `批量问题 ${i}`, answer: `答案 ${i}` })));
+  assert.ok(batch.every(r => r.success));
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await memoryStore.add(userId, '单独问题 1', '答案');
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await memoryStore.add(userId, '单独问题 2', '答案');
+  await memoryStore.update(userId, batch[3].memory!.id, { answer: '修改后的答案' }, 'test');
+
+  const all = memoryStore.list(userId);
+  for (const sortBy of ['createdAt', 'updatedAt'] as const) {
+    for (const order of ['asc', 'desc'] as const) {
+      const direction = order === 'asc' ? 1 : -1;
+      const expected = [...all]
+        .sort((a, b) => (a[sortBy].localeCompare(b[sortBy]) || a.id.localeCompare(b.id)) * direction)
+        .map(m => m.id);
+
+      const byCursor: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = memoryStore.query(userId, { limit: 5, sortBy, order, cursor });
+        assert.equal(page.total, all.length);
+        byCursor.push(...page.memories.map(m => m.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+      assert.deepEqual(byCursor, expected, `${sortBy} ${order}`);
+      assert.equal(new Set(byCursor).size, all.length);
+
+      const byOffset: string[] = [];
+      for (let offset = 0; offset < all.length; offset += 5) {
+        byOffset.push(...memoryStore.query(userId, { limit: 5, sortBy, order, offset }).memories.map(m => m.id));
+      }
+      assert.deepEqual(byOffset, expected, `${sortBy} ${order}`);
+    }
+  }
+
+  const last = memoryStore.query(userId, { limit: 14, order: 'asc' });
+  assert.equal(last.memories.length, 14);
+  assert.equal(last.nextCursor, undefined);
+  assert.throws(() => memoryStore.query(userId, { cursor: 'missing' }), /无效的游标/);
+});
+
+test('修改内容记录修订，回退恢复原内容', async () => {
+  const memory = await memoryStore.add('history', '问题', '旧答案');
+  await memoryStore.update('history', memory.id, { answer: '新答案' }, 'test');
+
+  const history = memoryStore.getHistory('history', memory.id)!;
+  assert.equal(history.length, 1);
+  assert.equal(history[0].answer, '旧答案');
+
+  const reverted = await memoryStore.revert('history', memory.id, history[0].id, 'test');
+  assert.equal(reverted!.answer, '旧答案');
+  assert.equal(memoryStore.getHistory('history', memory.id)!.length, 2);
+});
+
+test('修改时拒绝空白的问题或答案，原内容不变', async () => {
+  const memory = await memoryStore.add('blank', '问题', '答案');
+  for (const changes of [{ question: '', tags: ['x'] }, { question: '  ', answer: '新答案' }, { answer: '\n' }]) {
+    await assert.rejects(memoryStore.update('blank', memory.id, changes, 'test'), /不能为空/);
+  }
+  const current = memoryStore.get('blank', memory.id)!;
+  assert.equal(current.question, '问题');
+  assert.equal(current.answer, '答案');
+  assert.deepEqual(memoryStore.getHistory('blank', memory.id), []);
+});
+
+test('只改标签时不会覆盖等待写入锁期间写入的新向量', async () => {
+  const memory = await memoryStore.add('race', '问题', '答案');
+  const fresh = Array.from({ length: 64 }, (_, i) => (i === 0 ? 1 : 0));
+
+  // 重新索引先拿到写入锁，修改标签的请求排在其后
+  const applying = memoryStore.applyEmbeddings('race', [{ id: memory.id, text: memoryText('问题', '答案'), embedding: fresh }], 'reindexed');
+  const updating = memoryStore.update('race', memory.id, { tags: ['x'] }, 'test');
+  await Promise.all([applying, updating]);
+
+  const current = memoryStore.get('race', memory.id)!;
+  assert.deepEqual(current.tags, ['x']);
+  assert.equal(current.embeddingModel, 'reindexed');
+  assert.deepEqual(Array.from(current.embedding), fresh);
+});
+
+test('删除的记忆进入回收站，恢复后重新可搜索', async () => {
+  const memory = await memoryStore.add('trash', '回收站测试', '可以恢复');
+  assert.ok(await memoryStore.delete('trash', memory.id, 'test'));
+  assert.equal(memoryStore.get('trash', memory.id), undefined);
+  assert.deepEqual(await memoryStore.search('trash', '回收站测试', 5, { mode: 'keyword' }), []);
+  assert.deepEqual(memoryStore.listTrash('trash').map(m => m.deletedBy), ['test']);
+
+  await memoryStore.restore('trash', memory.id);
+  const [top] = await memoryStore.search('trash', '回收站测试', 5, { mode: 'keyword' });
+  assert.equal(top.memory.id, memory.id);
+});
+
+test('保存失败时缓存不保留未写入的修改', async () => {
+  const memory = await memoryStore.add('failing', '原问题', '原答案', { tags: ['a'] });
+
+  failNextSave();
+  await assert.rejects(memoryStore.update('failing', memory.id, { question: '新问题', tags: ['b'] }, 'test'), /disk full/);
+  const current = memoryStore.get('failing', memory.id)!;
+  assert.equal(current.question, '原问题');
+  assert.deepEqual(current.tags, ['a']);
+  assert.equal(current.embedding.length, 64);
+  const [hit] = await memoryStore.search('failing', '原问题', 1, { mode: 'keyword' });
+  assert.equal(hit.memory.id, memory.id);
+
+  failNextSave();
+  await assert.rejects(memoryStore.delete('failing', memory.id, 'test'), /disk full/);
+  assert.ok(memoryStore.get('failing', memory.id));
+  assert.deepEqual(memoryStore.listTrash('failing'), []);
+
+  assert.ok(await memoryStore.delete('failing', memory.id, 'test'));
+  failNextSave();
+  await assert.rejects(memoryStore.restore('failing', memory.id), /disk full/);
+  assert.equal(memoryStore.get('failing', memory.id), undefined);
+  assert.deepEqual(memoryStore.listTrash('failing').map(m => m.id), [memory.id]);
+});
+
+test('数据文件损坏时拒绝读写该用户，不以空数据覆盖', async () => {
+  await memoryStore.add('corrupt', '问题', '答案');
+  const filePath = join(dataDir, `${storageKeyFor('corrupt')}.json`);
+  writeFileSync(filePath, '{ broken');
+
+  await assert.rejects(memoryStore.add('corrupt', '新问题', '新答案'), /无法读取/);
+  assert.throws(() => memoryStore.list('corrupt'), /无法读取/);
+  assert.equal(readFileSync(filePath, 'utf-8'), '{ broken');
+});
+
+test('导入时维度与当前模型不一致的向量被丢弃并重新生成', async () => {
+  const model = getEmbeddingModel();
+  const parsed = [
+    { record: { question: '维度一致', answer: '直接使用', embeddingModel: model, embedding: Array(64).fill(0.125) } },
+    { record: { question: '维度不一致', answer: '重新生成', embeddingModel: model, embedding: [1, 0, 0, 0] } },
+  ];
+
+  // 没有已有向量时向嵌入服务确认维度
+  for (const userId of ['import-empty', 'import-existing']) {
+    if (userId === 'import-existing') {
+      await memoryStore.add(userId, '已有', '记忆');
+    }
+    const preview = await memoryStore.importMemories(userId, parsed, true);
+    assert.deepEqual(preview.items.map(i => i.reembed), [false, true], userId);
+
+    const result = await memoryStore.importMemories(userId, parsed);
+    assert.equal(result.reembed, 1);
+    const [kept, reembedded] = result.items.map(i => memoryStore.get(userId, i.id!)!);
+    assert.deepEqual(Array.from(kept.embedding), parsed[0].record.embedding);
+    assert.equal(reembedded.embedding.length, 64);
+    assert.equal(reembedded.embeddingDim, 64);
+  }
+});
+
+test('HNSW 索引相对暴力扫描的召回率不低于 0.9', async () => {
+  const random = seededRandom(11);
+  const items = Array.from({ length: 400 }, () => ({ question: randomText(random, 4), answer: randomText(random, 8) }));
+  const results = await memoryStore.addMany('ann', items);
+  assert.ok(results.every(r => r.success));
+
+  const report = memoryStore.checkAnnRecall('ann', 50, 10);
+  assert.ok(report.enabled);
+  assert.equal(report.size, 400);
+  assert.ok(report.recall >= 0.9, `召回率 ${report.recall}`);
+});
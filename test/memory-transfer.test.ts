@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportMemories, parseImport, parseTransferFormat } from '../src/memory-transfer.js';
+import type { Memory, TransferFormat } from '../src/types.js';
+
+const memories: Memory[] = [
+  {
+    id: 'm1',
+    userId: 'alice',
+    question: '如何配置 "CSV", 导出?',
+    answer: '第一行\n## 不是标题\n包含 -- 和 , 的内容',
+    tags: ['导出', 'a--b'],
+    metadata: { project: 'mem', priority: 2, done: false },
+    embedding: Float32Array.from([0.25, -0.5]),
+    embeddingModel: 'hash-2',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+  },
+  {
+    id: 'm2',
+    userId: 'alice',
+    question: '第二条',
+    answer: '简单答案',
+    tags: [],
+    metadata: {},
+    embedding: new Float32Array(0),
+    createdAt: '2024-01-03T00:00:00.000Z',
+    updatedAt: '2024-01-03T00:00:00.000Z',
+  },
+];
+
+for (const format of ['jsonl', 'csv', 'markdown'] as TransferFormat[]) {
+  test(`${format} 导出后导入得到相同的记录`, () => {
+    const parsed = parseImport(exportMemories(memories, format, { includeVectors: true, title: 'alice' }), format);
+    assert.equal(parsed.length, 2);
+    const [first, second] = parsed.map(p => p.record!);
+
+    assert.equal(first.id, 'm1');
+    assert.equal(first.question, memories[0].question);
+    assert.equal(first.answer, memories[0].answer);
+    assert.deepEqual(first.tags, ['导出', 'a--b']);
+    assert.deepEqual(first.metadata, memories[0].metadata);
+    assert.deepEqual(first.embedding, [0.25, -0.5]);
+    assert.equal(first.embeddingModel, 'hash-2');
+    assert.equal(first.createdAt, '2024-01-01T00:00:00.000Z');
+
+    assert.equal(second.answer, '简单答案');
+    assert.equal(second.embedding, undefined);
+  });
+}
+
+test('不附带向量时导出内容不含 embedding', () => {
+  const [parsed] = parseImport(exportMemories(memories, 'jsonl'), 'jsonl');
+  assert.equal(parsed.record!.embedding, undefined);
+});
+
+test('JSONL 中无效的行单独报告错误', () => {
+  const content = [
+    '{"question":"q","answer":"a","tags":"x, y，z"}',
+    'not json',
+    '{"question":"q","answer":"a","metadata":[1]}',
+    '{"question":"q","answer":"a","embedding":[1,"2"]}',
+    '',
+  ].join('\n');
+  const parsed = parseImport(content, 'jsonl');
+  assert.equal(parsed.length, 4);
+  assert.deepEqual(parsed[0].record!.tags, ['x', 'y', 'z']);
+  assert.match(parsed[1].error!, /第 2 行/);
+  assert.match(parsed[2].error!, /metadata/);
+  assert.match(parsed[3].error!, /embedding/);
+});
+
+test('CSV 缺少必需列时报错，字段内可包含引号、逗号和换行', () => {
+  assert.match(parseImport('title,body\nx,y\n', 'csv')[0].error!, /缺少 question 或 answer/);
+
+  const parsed = parseImport('question,answer,tags\n"a ""b"", c","line1\nline2",x\n', 'csv');
+  assert.equal(parsed.length, 1);
+  assert.equal(parsed[0].record!.question, 'a "b", c');
+  assert.equal(parsed[0].record!.answer, 'line1\nline2');
+  assert.deepEqual(parsed[0].record!.tags, ['x']);
+});
+
+test('手写的 Markdown 以二级标题为问题、正文为答案', () => {
+  const parsed = parseImport('# 我的笔记\n\n说明文字\n\n## 问题一\n\n答案一\n\n## 问题二\n答案二\n', 'markdown');
+  assert.deepEqual(parsed.map(p => [p.record!.question, p.record!.answer]), [['问题一', '答案一'], ['问题二', '答案二']]);
+});
+
+test('parseTransferFormat 只接受已知格式', () => {
+  assert.equal(parseTransferFormat('csv'), 'csv');
+  assert.equal(parseTransferFormat('xml'), undefined);
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setupTestEnv } from './helpers.js';
+
+setupTestEnv({ QUOTA_MAX_MEMORIES: '2', QUOTA_MAX_QUESTION_LENGTH: '10', QUOTA_MAX_BYTES: '200' });
+const { memoryStore } = await import('../src/memory-store.js');
+const { QuotaExceededError } = await import('../src/quota.js');
+
+test('超出问题长度时拒绝写入', async () => {
+  await assert.rejects(memoryStore.add('len', '这是一个超过十个字符的问题', '答案'), QuotaExceededError);
+  assert.equal(memoryStore.count('len'), 0);
+});
+
+test('记忆数量配额计入回收站，彻底删除后释放', async () => {
+  const first = await memoryStore.add('count', '问题一', '答案一');
+  await memoryStore.add('count', '问题二', '答案二');
+  await assert.rejects(memoryStore.add('count', '问题三', '答案三'), /最多保存 2 条记忆/);
+
+  await memoryStore.delete('count', first.id, 'test');
+  assert.deepEqual(
+    { memories: memoryStore.getUsage('count').memories, trashed: memoryStore.getUsage('count').trashed },
+    { memories: 1, trashed: 1 }
+  );
+  await assert.rejects(memoryStore.add('count', '问题三', '答案三'), QuotaExceededError);
+
+  assert.equal(await memoryStore.purge('count'), 1);
+  await memoryStore.add('count', '问题三', '答案三');
+  assert.equal(memoryStore.count('count'), 2);
+});
+
+test('批量添加超出配额的部分整体拒绝', async () => {
+  await assert.rejects(
+    memoryStore.addMany('batch', [
+      { question: 'q1', answer: 'a1' },
+      { question: 'q2', answer: 'a2' },
+      { question: 'q3', answer: 'a3' },
+    ]),
+    QuotaExceededError
+  );
+  assert.equal(memoryStore.count('batch'), 0);
+});
+
+test('字节配额按文本 UTF-8 字节计算', async () => {
+  await assert.rejects(memoryStore.add('bytes', '问题', '长'.repeat(100)), /最多占用 200 字节/);
+  const memory = await memoryStore.add('bytes', '问题', '短答案');
+  assert.ok(memoryStore.getUsage('bytes').bytes > 0);
+  await assert.rejects(memoryStore.update('bytes', memory.id, { answer: '长'.repeat(100) }, 'test'), QuotaExceededError);
+});
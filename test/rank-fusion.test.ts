@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reciprocalRankFusion } from '../src/rank-fusion.js';
+
+test('RRF 优先在多个列表中都靠前的文档', () => {
+  const fused = reciprocalRankFusion([
+    ['a', 'b', 'c'],
+    ['b', 'd', 'a'],
+  ]);
+  assert.deepEqual(fused.map(r => r.id), ['b', 'a', 'd', 'c']);
+});
+
+test('RRF 分数归一化到 0-1，所有列表均排第一时为 1', () => {
+  const fused = reciprocalRankFusion([['x', 'y'], ['x']]);
+  assert.equal(fused[0].id, 'x');
+  assert.equal(fused[0].score, 1);
+  assert.ok(fused[1].score > 0 && fused[1].score < 1);
+  assert.deepEqual(reciprocalRankFusion([]), []);
+});
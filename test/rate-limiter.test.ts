@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolRateLimiter, RateLimitError } from '../src/rate-limiter.js';
+
+test('突发调用用完令牌后拒绝，并给出等待时间', () => {
+  const limiter = new ToolRateLimiter({ perMinute: 60, burst: 3 }, { perMinute: 0, burst: 0 });
+  for (let i = 0; i < 3; i++) {
+    limiter.consume('alice', 's1');
+  }
+  assert.throws(() => limiter.consume('alice', 's1'), (error: unknown) => {
+    assert.ok(error instanceof RateLimitError);
+    assert.ok(error.retryAfterMs > 0 && error.retryAfterMs <= 1000);
+    return true;
+  });
+  // 其他用户不受影响
+  limiter.consume('bob', 's1');
+});
+
+test('批量调用按条数消耗，超过容量时按容量计算', () => {
+  const limiter = new ToolRateLimiter({ perMinute: 60, burst: 10 }, { perMinute: 0, burst: 0 });
+  limiter.consume('alice', 's1', 100);
+  assert.equal(limiter.getUserState('alice')!.available, 0);
+});
+
+test('限流关闭时不限制，也不返回状态', () => {
+  const limiter = new ToolRateLimiter({ perMinute: 0, burst: 10 }, { perMinute: 0, burst: 0 });
+  for (let i = 0; i < 100; i++) {
+    limiter.consume('alice', 's1');
+  }
+  assert.equal(limiter.getUserState('alice'), undefined);
+});
+
+/**
+ * 可手动推进的时钟
+ */
+function fakeClock(): { now: () => number; advance: (ms: number) => void } {
+  let time = 1_000_000;
+  return { now: () => time, advance: ms => { time += ms; } };
+}
+
+test('令牌按经过的时间补充，不超过容量', () => {
+  const clock = fakeClock();
+  const limiter = new ToolRateLimiter({ perMinute: 60, burst: 2 }, { perMinute: 0, burst: 0 }, clock.now);
+  limiter.consume('alice', 's1');
+  limiter.consume('alice', 's1');
+  assert.throws(() => limiter.consume('alice', 's1'), /1 秒后重试/);
+
+  clock.advance(1000);
+  limiter.consume('alice', 's1');
+  assert.throws(() => limiter.consume('alice', 's1'), RateLimitError);
+
+  clock.advance(60_000);
+  assert.equal(limiter.getUserState('alice')!.available, 2);
+});
+
+test('用户令牌不足时不消耗会话令牌', () => {
+  const clock = fakeClock();
+  const limiter = new ToolRateLimiter({ perMinute: 60, burst: 1 }, { perMinute: 60, burst: 5 }, clock.now);
+  limiter.consume('alice', 's1');
+
+  // 用户 alice 的令牌已用完，被拒绝的调用不应占用会话 s1 的额度
+  for (let i = 0; i < 3; i++) {
+    assert.throws(() => limiter.consume('alice', 's1'), /用户 alice/);
+  }
+  for (let i = 0; i < 4; i++) {
+    limiter.consume(`user-${i}`, 's1');
+  }
+  assert.throws(() => limiter.consume('bob', 's1'), /当前会话/);
+});
+
+test('会话令牌不足时不消耗用户令牌', () => {
+  const clock = fakeClock();
+  const limiter = new ToolRateLimiter({ perMinute: 60, burst: 3 }, { perMinute: 60, burst: 1 }, clock.now);
+  limiter.consume('alice', 's1');
+  assert.throws(() => limiter.consume('alice', 's1'), /当前会话/);
+  assert.throws(() => limiter.consume('alice', 's1'), /当前会话/);
+  assert.equal(limiter.getUserState('alice')!.available, 2);
+  limiter.consume('alice', 's2');
+  limiter.consume('alice', 's3');
+  assert.equal(limiter.getUserState('alice')!.available, 0);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker, CircuitOpenError, TimeoutError, isTransientError, withRetry, withTimeout } from '../src/resilience.js';
+
+test('超时、网络错误、429 和 5xx 属于暂时性错误', () => {
+  assert.ok(isTransientError(new TimeoutError('timeout')));
+  assert.ok(isTransientError(new CircuitOpenError('svc', Date.now())));
+  assert.ok(isTransientError(Object.assign(new Error('x'), { status: 503 })));
+  assert.ok(isTransientError(Object.assign(new Error('x'), { status_code: 429 })));
+  assert.ok(isTransientError(new TypeError('fetch failed')));
+  // 包装后的错误沿 cause 链识别
+  const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+  assert.ok(isTransientError(new Error('请求失败', { cause: new TypeError('fetch failed', { cause: refused }) })));
+});
+
+test('400、401、404 和普通错误不是暂时性错误', () => {
+  for (const status of [400, 401, 403, 404]) {
+    assert.ok(!isTransientError(new Error('wrap', { cause: Object.assign(new Error('x'), { status }) })));
+  }
+  assert.ok(!isTransientError(Object.assign(new Error('model not found'), { status_code: 404 })));
+  assert.ok(!isTransientError(new Error('响应中缺少 embedding 字段')));
+  assert.ok(!isTransientError(undefined));
+});
+
+test('withTimeout 超时抛出 TimeoutError', async () => {
+  await assert.rejects(withTimeout(new Promise(() => {}), 10, '请求'), TimeoutError);
+  assert.equal(await withTimeout(Promise.resolve(1), 10, '请求'), 1);
+});
+
+test('withRetry 只重试满足条件的错误', async () => {
+  let calls = 0;
+  await assert.rejects(withRetry(async () => { calls++; throw new Error('bad request'); }, 3, 1, isTransientError));
+  assert.equal(calls, 1);
+
+  calls = 0;
+  const result = await withRetry(async () => {
+    if (++calls < 3) throw new TimeoutError('timeout');
+    return 'ok';
+  }, 3, 1, isTransientError);
+  assert.equal(result, 'ok');
+  assert.equal(calls, 3);
+});
+
+test('熔断器只在暂时性错误连续出现时打开', async () => {
+  const breaker = new CircuitBreaker('svc', 2, 60000, isTransientError);
+  const badRequest = Object.assign(new Error('bad request'), { status: 400 });
+  for (let i = 0; i < 5; i++) {
+    await assert.rejects(breaker.execute(async () => { throw badRequest; }));
+  }
+  assert.equal(breaker.getState(), 'closed');
+
+  for (let i = 0; i < 2; i++) {
+    await assert.rejects(breaker.execute(async () => { throw new TimeoutError('timeout'); }));
+  }
+  assert.equal(breaker.getState(), 'open');
+  await assert.rejects(breaker.execute(async () => 1), CircuitOpenError);
+});
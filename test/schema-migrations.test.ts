@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migrateMemoryData, getDataVersion, UnsupportedSchemaVersionError, MEMORY_DATA_VERSION } from '../src/schema-migrations.js';
+import type { MemoryData } from '../src/types.js';
+
+test('v1 数据逐步升级到当前版本并补齐字段', () => {
+  const data = {
+    memories: [{ id: 'a', userId: 'alice', question: 'q', answer: 'a', embedding: [1, 2, 3], createdAt: '', updatedAt: '' }],
+    lastUpdated: '',
+  } as unknown as MemoryData;
+
+  assert.equal(getDataVersion(data), 1);
+  const { data: migrated, applied } = migrateMemoryData(data, 'alice.json');
+  assert.equal(migrated.version, MEMORY_DATA_VERSION);
+  assert.equal(applied.length, MEMORY_DATA_VERSION - 1);
+  assert.equal(migrated.userId, 'alice');
+  assert.deepEqual(migrated.memories[0].tags, []);
+  assert.deepEqual(migrated.memories[0].metadata, {});
+  assert.equal(migrated.memories[0].embeddingDim, 3);
+});
+
+test('多个用户共用的旧文件无法确定所属用户', () => {
+  const data = {
+    memories: [
+      { id: 'a', userId: 'alice', question: 'q', answer: 'a', createdAt: '', updatedAt: '' },
+      { id: 'b', userId: 'bob', question: 'q', answer: 'a', createdAt: '', updatedAt: '' },
+    ],
+    version: 1,
+    lastUpdated: '',
+  } as unknown as MemoryData;
+  assert.equal(migrateMemoryData(data, 'shared.json').data.userId, undefined);
+});
+
+test('当前版本的数据不做修改', () => {
+  const data: MemoryData = { userId: 'alice', memories: [], version: MEMORY_DATA_VERSION, lastUpdated: '' };
+  const result = migrateMemoryData(data, 'alice.json');
+  assert.equal(result.data, data);
+  assert.deepEqual(result.applied, []);
+});
+
+test('拒绝加载更新版本程序写入的数据', () => {
+  const data: MemoryData = { memories: [], version: MEMORY_DATA_VERSION + 1, lastUpdated: '' };
+  assert.throws(() => migrateMemoryData(data, 'future.json'), UnsupportedSchemaVersionError);
+});
@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+import { SqliteStorageBackend } from '../src/sqlite-storage.js';
+import { JsonStorageBackend } from '../src/json-storage.js';
+import type { Memory } from '../src/types.js';
+import { tempDir } from './helpers.js';
+
+/**
+ * 构造一条记忆
+ */
+function makeMemory(id: string, userId: string, extra: Partial<Memory> = {}): Memory {
+  return {
+    id,
+    userId,
+    question: `问题 ${id}`,
+    answer: `答案 ${id}`,
+    tags: ['t'],
+    metadata: { n: 1, ok: true, s: 'x' },
+    embedding: Float32Array.from([1, 0, 0]),
+    embeddingModel: 'hash-64',
+    embeddingDim: 3,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+/**
+ * 去掉值为 undefined 的字段并将向量转为数组，便于比较
+ */
+function plain(memories: Memory[]): unknown[] {
+  return memories.map(m => JSON.parse(JSON.stringify({ ...m, embedding: Array.from(m.embedding) })));
+}
+
+test('保存后读回相同的记忆，版本号每次保存加一', () => {
+  const backend = new SqliteStorageBackend(join(tempDir(), 'memories.db'), 'float32');
+  assert.equal(backend.getVersion('alice'), undefined);
+
+  const memories = [makeMemory('a', 'alice'), makeMemory('b', 'alice', { deletedAt: '2024-02-01T00:00:00.000Z', deletedBy: 'admin' })];
+  backend.saveUser('alice', memories);
+  assert.equal(backend.getVersion('alice'), '1');
+  assert.deepEqual(plain(backend.loadUser('alice')), plain(memories));
+
+  backend.saveUser('alice', [memories[0]]);
+  assert.equal(backend.getVersion('alice'), '2');
+  assert.deepEqual(backend.loadUser('alice').map(m => m.id), ['a']);
+  backend.close();
+});
+
+test('ID 已属于其他用户时拒绝保存，整个事务回滚', () => {
+  const backend = new SqliteStorageBackend(join(tempDir(), 'memories.db'), 'float32');
+  backend.saveUser('alice', [makeMemory('shared', 'alice')]);
+  backend.saveUser('bob', [makeMemory('b1', 'bob')]);
+
+  const changes = {
+    upserted: [makeMemory('b2', 'bob'), makeMemory('shared', 'bob', { question: '覆盖', embedding: Float32Array.from([0, 1, 0]) })],
+    deleted: ['b1'],
+  };
+  assert.throws(() => backend.saveUser('bob', [], changes), /已属于其他用户/);
+
+  const [alice] = backend.loadUser('alice');
+  assert.equal(alice.question, '问题 shared');
+  assert.deepEqual(Array.from(alice.embedding), [1, 0, 0]);
+  assert.deepEqual(alice.metadata, { n: 1, ok: true, s: 'x' });
+  // 同一事务中的删除和其他写入同样未生效
+  assert.deepEqual(backend.loadUser('bob').map(m => m.id), ['b1']);
+  assert.equal(backend.getVersion('bob'), '1');
+  backend.close();
+});
+
+test('旧版本数据库先备份再升级到当前结构', () => {
+  const dbPath = join(tempDir(), 'memories.db');
+  const old = new Database(dbPath);
+  old.exec(`
+    CREATE TABLE users (id TEXT PRIMARY KEY, created_at TEXT NOT NULL);
+    CREATE TABLE memories (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      question TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      tags TEXT NOT NULL DEFAULT '[]',
+      embedding_model TEXT,
+      embedding_dim INTEGER,
+      pending_embedding INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    INSERT INTO users VALUES ('alice', '2024-01-01');
+    INSERT INTO memories (id, user_id, question, answer, created_at, updated_at)
+      VALUES ('a', 'alice', 'q', 'a', '2024-01-01', '2024-01-01');
+  `);
+  old.close();
+
+  const backend = new SqliteStorageBackend(dbPath, 'float32');
+  const [memory] = backend.loadUser('alice');
+  assert.equal(memory.question, 'q');
+  assert.equal(memory.deletedAt, undefined);
+  assert.equal(backend.getVersion('alice'), '0');
+  backend.saveUser('alice', [{ ...memory, deletedAt: '2024-02-01', deletedBy: 'admin' }]);
+  assert.equal(backend.loadUser('alice')[0].deletedBy, 'admin');
+  backend.close();
+
+  const upgraded = new Database(dbPath);
+  assert.equal(upgraded.pragma('user_version', { simple: true }), 2);
+  upgraded.close();
+
+  // 备份保留升级前的结构和数据
+  assert.ok(existsSync(`${dbPath}.v1.bak`));
+  const backup = new Database(`${dbPath}.v1.bak`, { readonly: true });
+  const columns = (backup.prepare('PRAGMA table_info(memories)').all() as Array<{ name: string }>).map(c => c.name);
+  assert.ok(!columns.includes('deleted_at'));
+  assert.equal((backup.prepare('SELECT COUNT(*) AS n FROM memories').get() as { n: number }).n, 1);
+  backup.close();
+});
+
+test('拒绝加载更新版本程序创建的数据库', () => {
+  const dbPath = join(tempDir(), 'memories.db');
+  new SqliteStorageBackend(dbPath, 'float32').close();
+  const db = new Database(dbPath);
+  db.pragma('user_version = 99');
+  db.close();
+
+  assert.throws(() => new SqliteStorageBackend(dbPath, 'float32'), /结构版本为 99/);
+});
+
+test('migrate 将 JSON 数据和修订记录导入数据库，已有用户默认跳过', () => {
+  const dataDir = tempDir();
+  const json = new JsonStorageBackend(dataDir, 'float32');
+  const memories = [makeMemory('a', 'alice'), makeMemory('b', 'alice')];
+  const revision = {
+    id: 'r1', memoryId: 'a', question: '旧问题', answer: '旧答案', tags: [], metadata: {},
+    changedAt: '2024-01-02T00:00:00.000Z', source: 'admin', action: 'update' as const,
+  };
+  json.saveUser('alice', memories, { upserted: memories, deleted: [], revisions: [revision] });
+  json.close();
+
+  const script = fileURLToPath(new URL('../src/migrate.js', import.meta.url));
+  const env = { ...process.env, DATA_DIR: dataDir, SQLITE_PATH: '' };
+  execFileSync(process.execPath, [script], { env, stdio: 'pipe' });
+
+  const sqlite = new SqliteStorageBackend(join(dataDir, 'memories.db'), 'float32');
+  assert.deepEqual(plain(sqlite.loadUser('alice')), plain(memories));
+  assert.deepEqual(sqlite.loadRevisions('alice'), [revision]);
+  sqlite.saveUser('alice', [memories[0]]);
+  sqlite.close();
+
+  // 再次运行时跳过已有数据的用户，不覆盖数据库中的修改
+  execFileSync(process.execPath, [script], { env, stdio: 'pipe' });
+  const reopened = new SqliteStorageBackend(join(dataDir, 'memories.db'), 'float32');
+  assert.deepEqual(reopened.loadUser('alice').map(m => m.id), ['a']);
+  reopened.close();
+});
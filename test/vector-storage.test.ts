@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { encodeVector, decodeVector, writeVectorFile, readVectorFile, parseVectorFormat, type VectorFormat } from '../src/vector-storage.js';
+import { seededRandom, randomVector, tempDir } from './helpers.js';
+
+/**
+ * 编码后再解码，返回最大误差
+ */
+function roundTripError(vector: Float32Array, format: VectorFormat): number {
+  const { data, scale } = encodeVector(vector, format);
+  const decoded = decodeVector(data, 0, vector.length, format, scale);
+  let max = 0;
+  for (let i = 0; i < vector.length; i++) {
+    max = Math.max(max, Math.abs(decoded[i] - vector[i]));
+  }
+  return max;
+}
+
+test('float32 编码无损，float16/int8 误差在量化精度内', () => {
+  const vector = randomVector(seededRandom(1), 256);
+  assert.equal(roundTripError(vector, 'float32'), 0);
+  // 单位向量分量小于 1，float16 相对精度约 2^-11
+  assert.ok(roundTripError(vector, 'float16') < 1e-3);
+  // int8 最大误差为半个量化步长
+  let maxAbs = 0;
+  vector.forEach(v => { maxAbs = Math.max(maxAbs, Math.abs(v)); });
+  assert.ok(roundTripError(vector, 'int8') <= maxAbs / 127 / 2 + 1e-7);
+});
+
+test('float16 正确处理零、极小值和溢出', () => {
+  const vector = Float32Array.from([0, -0, 1e-8, 65504, 1e6, -1e6]);
+  const { data, scale } = encodeVector(vector, 'float16');
+  const decoded = decodeVector(data, 0, vector.length, 'float16', scale);
+  assert.equal(decoded[0], 0);
+  assert.ok(Math.abs(decoded[2]) < 1e-7);
+  assert.equal(decoded[3], 65504);
+  assert.equal(decoded[4], Infinity);
+  assert.equal(decoded[5], -Infinity);
+});
+
+test('int8 全零向量解码为全零', () => {
+  const vector = new Float32Array(8);
+  const { data, scale } = encodeVector(vector, 'int8');
+  assert.deepEqual(Array.from(decodeVector(data, 0, 8, 'int8', scale)), Array.from(vector));
+});
+
+test('向量文件按各格式写入后可读回', () => {
+  const dir = tempDir();
+  const random = seededRandom(2);
+  const entries = [
+    { id: 'a', vector: randomVector(random, 16) },
+    { id: 'b', vector: randomVector(random, 32) },
+  ];
+
+  for (const format of ['float32', 'float16', 'int8'] as const) {
+    const filePath = join(dir, `${format}.vec`);
+    writeVectorFile(filePath, entries, format);
+    const vectors = readVectorFile(filePath);
+    assert.deepEqual([...vectors.keys()], ['a', 'b']);
+    assert.equal(vectors.get('b')!.length, 32);
+    for (const entry of entries) {
+      const restored = vectors.get(entry.id)!;
+      entry.vector.forEach((v, i) => assert.ok(Math.abs(restored[i] - v) < 0.01));
+    }
+  }
+});
+
+test('parseVectorFormat 只接受已知格式', () => {
+  assert.equal(parseVectorFormat('float16'), 'float16');
+  assert.equal(parseVectorFormat('float64'), undefined);
+  assert.equal(parseVectorFormat(undefined), undefined);
+});